@@ -1,11 +1,16 @@
 import type { A2AServerConfig, WOPRPluginContext } from "@wopr-network/plugin-types";
 import { logger } from "./logger.js";
+import { scoreSkills } from "./skill-relevance.js";
+import { listSkillResources, readSkillBody, readSkillResource } from "./skill-resources.js";
+import { trackSkillUsage } from "./skill-usage.js";
 import {
   disableSkillAsync,
   discoverSkills,
   enableSkillAsync,
   getSkillByName,
+  isSkillQuarantined,
   readAllSkillStatesAsync,
+  type Skill,
 } from "./skills.js";
 
 let pluginCtx: WOPRPluginContext | null = null;
@@ -14,6 +19,11 @@ export function setA2AContext(context: WOPRPluginContext): void {
   pluginCtx = context;
 }
 
+/** Quarantined skills' descriptions are not shown to the model until the skill is approved */
+function describeForModel(skill: Skill, state?: { approvedHash?: string }): string {
+  return isSkillQuarantined(skill, state) ? "(withheld: skill is quarantined until approved)" : skill.description;
+}
+
 export function registerSkillsA2ATools(): void {
   if (!pluginCtx?.registerA2AServer) {
     logger.debug("[skills] registerA2AServer not available in this WOPR version, skipping A2A tool registration");
@@ -45,9 +55,10 @@ export function registerSkillsA2ATools(): void {
           const result = {
             skills: filtered.map((s) => ({
               name: s.name,
-              description: s.description,
+              description: describeForModel(s, states[s.name]),
               source: s.source,
               enabled: states[s.name]?.enabled !== false,
+              quarantined: isSkillQuarantined(s, states[s.name]),
             })),
             warnings: warnings.length > 0 ? warnings : undefined,
           };
@@ -56,6 +67,44 @@ export function registerSkillsA2ATools(): void {
           };
         },
       },
+      {
+        name: "skills.search",
+        description: "Find skills relevant to a query, ranked by name, description and tag matches",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "What you want to do, in plain words" },
+            limit: { type: "number", description: "Maximum number of results (default 10)" },
+          },
+          required: ["query"],
+          additionalProperties: false,
+        },
+        handler: async (args) => {
+          const { skills } = discoverSkills();
+          const states = await readAllSkillStatesAsync();
+          const limit = typeof args.limit === "number" && args.limit > 0 ? Math.floor(args.limit) : 10;
+          const result = {
+            // Skills that opted out of model invocation are only reachable as slash commands
+            skills: scoreSkills(
+              skills.filter((s) => !s.invocation?.disableModelInvocation),
+              String(args.query ?? ""),
+            )
+              .slice(0, limit)
+              .map(({ skill, score }) => ({
+                name: skill.name,
+                description: describeForModel(skill, states[skill.name]),
+                source: skill.source,
+                path: skill.path,
+                score: Number(score.toFixed(3)),
+                enabled: states[skill.name]?.enabled !== false,
+                quarantined: isSkillQuarantined(skill, states[skill.name]),
+              })),
+          };
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify(result) }],
+          };
+        },
+      },
       {
         name: "skills.enable",
         description: "Enable a skill by name",
@@ -115,15 +164,86 @@ export function registerSkillsA2ATools(): void {
           const states = await readAllSkillStatesAsync();
           const result = {
             name: skill.name,
-            description: skill.description,
+            description: describeForModel(skill, states[skill.name]),
             source: skill.source,
             path: skill.path,
             baseDir: skill.baseDir,
             enabled: states[skill.name]?.enabled !== false,
+            quarantined: isSkillQuarantined(skill, states[skill.name]),
+            quarantineReasons: skill.untrusted?.reasons ?? [],
             metadata: skill.metadata ?? null,
             allowedTools: skill.allowedTools ?? null,
             commandDispatch: skill.commandDispatch ?? null,
+            disableModelInvocation: skill.invocation?.disableModelInvocation ?? false,
+            userInvocable: skill.invocation?.userInvocable ?? true,
+            provenance: states[skill.name]?.provenance ?? null,
+          };
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify(result) }],
           };
+        },
+      },
+      {
+        name: "skills.read",
+        description:
+          "Read a skill's instructions (SKILL.md without frontmatter) and list its bundled files, or read one bundled file by relative path",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Skill name" },
+            path: {
+              type: "string",
+              description: "Bundled file to read, relative to the skill directory (e.g. scripts/run.sh)",
+            },
+          },
+          required: ["name"],
+          additionalProperties: false,
+        },
+        handler: async (args) => {
+          const skill = getSkillByName(args.name as string);
+          if (!skill) {
+            return {
+              content: [{ type: "text" as const, text: JSON.stringify({ error: "Skill not found" }) }],
+            };
+          }
+          const states = await readAllSkillStatesAsync();
+          const state = states[skill.name];
+          const error = isSkillQuarantined(skill, state)
+            ? "Skill is quarantined until approved"
+            : state?.enabled === false
+              ? "Skill is disabled"
+              : skill.invocation?.disableModelInvocation
+                ? "Skill is not model-invocable"
+                : null;
+          if (error) {
+            return {
+              content: [{ type: "text" as const, text: JSON.stringify({ error }) }],
+            };
+          }
+
+          let result: Record<string, unknown>;
+          try {
+            if (typeof args.path === "string" && args.path !== "") {
+              result = { name: skill.name, ...readSkillResource(skill, args.path) };
+            } else {
+              const { files, truncated } = listSkillResources(skill);
+              result = {
+                name: skill.name,
+                description: skill.description,
+                body: readSkillBody(skill),
+                files,
+                truncated: truncated || undefined,
+              };
+            }
+          } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            await trackSkillUsage(skill.name, { kind: "model_read", error: message });
+            return {
+              content: [{ type: "text" as const, text: JSON.stringify({ error: message }) }],
+            };
+          }
+
+          await trackSkillUsage(skill.name, { kind: "model_read" });
           return {
             content: [{ type: "text" as const, text: JSON.stringify(result) }],
           };
@@ -9,38 +9,97 @@ import type { PluginCommand, WOPRPluginContext } from "@wopr-network/plugin-type
 import { addRegistry, listRegistries, removeRegistry } from "./registries-repository.js";
 import { fetchAllRegistries } from "./registry-fetcher.js";
 import {
+  cancelInstallJob,
+  getInstallJob,
+  type InstallJob,
+  startInstallJob,
+  waitForInstallJob,
+} from "./skill-install-jobs.js";
+import { checkSkillLockDrift, readSkillLock, writeSkillLock } from "./skill-lock.js";
+import { applySkillSync, isEmptySyncPlan, planSkillSync, type SkillSyncPlan } from "./skill-manifest.js";
+import { sanitizeSkillText } from "./skill-sanitize.js";
+import { isSkillCollectionSource } from "./skill-source.js";
+import { listTrashedSkills } from "./skill-staging.js";
+import { checkSkillUpdate, listUpdatableSkills, updateSkill } from "./skill-update.js";
+import { getSkillUsageStats } from "./skill-usage.js";
+import {
+  approveSkillAsync,
   clearSkillCache,
   createSkill,
   disableSkillAsync,
   discoverSkills,
   enableSkillAsync,
-  installSkillFromGitHub,
-  installSkillFromUrl,
+  installSkillsFromLock,
+  isSkillQuarantined,
+  packSkill,
+  readAllSkillStatesAsync,
   removeSkill,
+  restoreSkill,
 } from "./skills.js";
 
 const USAGE = `Usage: wopr skill <subcommand>
 
 Subcommands:
-  list                          List installed skills
+  list [--verbose]              List installed skills (--verbose adds install provenance)
   search <query>                Search registries for skills
-  install <source> [name]       Install a skill (github:owner/repo/path or URL)
+  install <source> [name] [--wait] [--link]
+                                Install a skill (registry name as name, registry/name or name@version,
+                                github:owner/repo/path, URL, path:<dir> or a .tar.gz/.zip/.skill archive with
+                                optional #sha256=<hex>) in the background and print the job id;
+                                --wait blocks until the job finishes,
+                                --link symlinks a local directory instead of copying it
+  install <source> --all [--include <glob>] [--ignore <glob>] [--wait]
+                                Install every skill under a repository path from one checkout
+                                (implied by github:owner/repo/skills/*); globs may be repeated
+                                or comma-separated
+  install --frozen              Install exactly what .wopr/skills.lock specifies
+  lock                          Write .wopr/skills.lock from the installed skills
+  lock --check                  Report installed skills that differ from .wopr/skills.lock
+  sync [--prune] [--dry-run]    Apply .wopr/skills.json (--prune removes unlisted installed skills)
+  job <id>                      Show an install job's status and output
+  cancel <id>                   Cancel a queued or running install job
+  update <name|--all> [--check] [--force]
+                                Update skills from their install source (--check only reports)
   create <name> [description]   Create a new local skill
-  remove <name>                 Remove an installed skill
+  pack <name> [--out <file>]    Pack a skill into a .tar.gz archive
+  remove <name>                 Move an installed skill to the trash
+  restore <name>                Restore the most recently removed copy of a skill
+  trash                         List removed skills that can still be restored
   enable <name>                 Enable a skill
   disable <name>                Disable a skill
+  approve <name>                Approve a quarantined skill's current content
+  stats [--days N] [--limit N]  Show most-used, never-used and stale skills
   cache clear                   Clear the skill cache
   registry list                 List skill registries
   registry add <name> <url>     Add a skill registry
   registry remove <name>        Remove a skill registry`;
 
-async function cmdList(ctx: WOPRPluginContext): Promise<void> {
+async function cmdList(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  const verbose = rest.includes("--verbose") || rest.includes("-v");
   const { skills } = discoverSkills();
   if (skills.length === 0) {
     ctx.log.info("No skills installed.");
   } else {
+    const states = await readAllSkillStatesAsync();
     ctx.log.info("Skills:");
-    for (const s of skills) ctx.log.info(`  ${s.name} - ${s.description ?? "No description"}`);
+    for (const s of skills) {
+      const flag = isSkillQuarantined(s, states[s.name]) ? ` [quarantined: ${s.untrusted?.reasons.join(", ")}]` : "";
+      ctx.log.info(`  ${sanitizeSkillText(s.name).text} - ${sanitizeSkillText(s.description).text}${flag}`);
+      if (!verbose) continue;
+      const provenance = states[s.name]?.provenance;
+      if (!provenance) {
+        ctx.log.info(`    source: ${s.source} (no install record)`);
+        continue;
+      }
+      ctx.log.info(`    source: ${provenance.installSource}`);
+      if (provenance.installUrl) ctx.log.info(`    url: ${provenance.installUrl}`);
+      if (provenance.installCommit) ctx.log.info(`    commit: ${provenance.installCommit}`);
+      if (provenance.installRegistry) ctx.log.info(`    registry: ${provenance.installRegistry}`);
+      if (provenance.installVersion) ctx.log.info(`    version: ${provenance.installVersion}`);
+      if (provenance.contentHash) ctx.log.info(`    hash: ${provenance.contentHash}`);
+      const by = provenance.installedBy ? ` by ${provenance.installedBy}` : "";
+      if (provenance.installedAt) ctx.log.info(`    installed: ${provenance.installedAt}${by}`);
+    }
   }
 }
 
@@ -62,33 +121,231 @@ async function cmdSearch(ctx: WOPRPluginContext, rest: string[]): Promise<void>
   } else {
     ctx.log.info(`Found ${results.length} skill(s):`);
     for (const r of results) {
-      ctx.log.info(`  ${r.name} (${r.registry})`);
+      // Names offered by several registries have to be installed as registry/name
+      const ambiguous = skills.some((s) => s.name === r.name && s.registry !== r.registry);
+      ctx.log.info(`  ${r.name}${r.version ? ` ${r.version}` : ""} (${r.registry})`);
       ctx.log.info(`    ${r.description || "No description"}`);
-      ctx.log.info(`    wopr skill install ${r.source}`);
+      ctx.log.info(`    wopr skill install ${ambiguous ? `${r.registry}/${r.name}` : r.name}`);
     }
   }
 }
 
-function cmdInstall(ctx: WOPRPluginContext, rest: string[]): void {
-  if (!rest[0]) {
-    ctx.log.error("Usage: wopr skill install <source> [name]");
-    return;
+function logJobResult(ctx: WOPRPluginContext, job: InstallJob): void {
+  if (job.state === "succeeded") {
+    ctx.log.info(
+      job.skills ? `Installed ${job.skills.length} skill(s): ${job.skills.join(", ")}` : `Installed: ${job.skill}`,
+    );
+  } else if (job.state === "failed") {
+    ctx.log.error(`Failed to install skill: ${job.error}`);
+  } else if (job.state === "cancelled") {
+    ctx.log.info(`Install cancelled: ${job.source}`);
+  } else {
+    ctx.log.info(`Install job ${job.id} is ${job.state}`);
   }
-  const source = rest[0];
-  const name = rest[1];
-  ctx.log.info("Installing...");
+}
+
+async function cmdInstallFrozen(ctx: WOPRPluginContext): Promise<void> {
+  ctx.log.info("Installing from skills.lock...");
   try {
-    if (source.startsWith("github:")) {
-      const parts = source.replace("github:", "").split("/");
-      const [owner, repo, ...pathParts] = parts;
-      const skillPath = pathParts.join("/");
-      installSkillFromGitHub(owner, repo, skillPath, name);
-    } else {
-      installSkillFromUrl(source, name);
+    const { installed, unchanged } = await installSkillsFromLock({ installedBy: "cli" });
+    for (const name of installed) ctx.log.info(`Installed: ${name}`);
+    ctx.log.info(`${installed.length} installed, ${unchanged.length} already up to date`);
+  } catch (err: unknown) {
+    ctx.log.error(`Frozen install failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+async function cmdLock(ctx: WOPRPluginContext, args: string[]): Promise<void> {
+  if (args.includes("--check")) {
+    try {
+      if (!readSkillLock()) {
+        ctx.log.error("No .wopr/skills.lock to check. Write one with: wopr skill lock");
+        return;
+      }
+    } catch (err: unknown) {
+      ctx.log.error(err instanceof Error ? err.message : String(err));
+      return;
     }
-    ctx.log.info(`Installed: ${name || source}`);
+    const drift = checkSkillLockDrift();
+    for (const w of drift) ctx.log.warn(`${w.skillPath}: ${w.message}`);
+    ctx.log.info(
+      drift.length === 0
+        ? "Installed skills match .wopr/skills.lock"
+        : `${drift.length} difference(s) from .wopr/skills.lock`,
+    );
+    return;
+  }
+  try {
+    const { lock, warnings } = await writeSkillLock();
+    for (const warning of warnings) ctx.log.warn(warning);
+    ctx.log.info(`Locked ${Object.keys(lock.skills).length} skill(s) in .wopr/skills.lock`);
   } catch (err: unknown) {
-    ctx.log.error(`Failed to install skill: ${err instanceof Error ? err.message : String(err)}`);
+    ctx.log.error(`Failed to write skills.lock: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function logSyncPlan(ctx: WOPRPluginContext, plan: SkillSyncPlan): void {
+  ctx.log.info("Sync plan:");
+  for (const { name, source, registry } of plan.install) {
+    ctx.log.info(`  + install ${name} (${source}${registry ? ` via ${registry}` : ""})`);
+  }
+  for (const name of plan.enable) ctx.log.info(`  ~ enable ${name}`);
+  for (const name of plan.disable) ctx.log.info(`  ~ disable ${name}`);
+  for (const name of plan.remove) ctx.log.info(`  - remove ${name}`);
+  for (const { name, error } of plan.errors) ctx.log.error(`  ! ${name}: ${error}`);
+}
+
+async function cmdSync(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  let plan: SkillSyncPlan;
+  try {
+    plan = await planSkillSync({ prune: rest.includes("--prune") });
+  } catch (err: unknown) {
+    ctx.log.error(`Failed to plan sync: ${err instanceof Error ? err.message : String(err)}`);
+    return;
+  }
+  if (isEmptySyncPlan(plan)) {
+    for (const { name, error } of plan.errors) ctx.log.error(`${name}: ${error}`);
+    ctx.log.info("Skills are in sync with .wopr/skills.json");
+    return;
+  }
+  logSyncPlan(ctx, plan);
+  if (rest.includes("--dry-run")) return;
+
+  const { applied, errors } = await applySkillSync(plan, { installedBy: "cli" });
+  for (const { action, name, error } of errors) ctx.log.error(`Failed to ${action} ${name}: ${error}`);
+  ctx.log.info(`Sync complete: ${applied.length} change(s) applied, ${errors.length} failed`);
+}
+
+async function cmdInstall(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  if (rest.includes("--frozen")) {
+    if (rest.some((arg) => !arg.startsWith("--"))) {
+      ctx.log.error("install --frozen installs from skills.lock and takes no source");
+      return;
+    }
+    await cmdInstallFrozen(ctx);
+    return;
+  }
+  const wait = rest.includes("--wait");
+  const link = rest.includes("--link");
+  const all = rest.includes("--all");
+  const globs = (flag: string) =>
+    rest.flatMap((arg, i) => (rest[i - 1] === flag ? arg.split(",").filter(Boolean) : []));
+  const include = globs("--include");
+  const ignore = globs("--ignore");
+  const [source, name] = rest.filter(
+    (arg, i) => !arg.startsWith("--") && rest[i - 1] !== "--include" && rest[i - 1] !== "--ignore",
+  );
+  if (!source) {
+    ctx.log.error("Usage: wopr skill install <source> [name] [--wait] [--link]");
+    return;
+  }
+  const collection = all || isSkillCollectionSource(source);
+  if (collection && name) {
+    ctx.log.error("A name cannot be given when installing several skills");
+    return;
+  }
+  if (!collection && (include.length > 0 || ignore.length > 0)) {
+    ctx.log.error("--include and --ignore need --all or a github:owner/repo/path/* source");
+    return;
+  }
+  const job = startInstallJob({
+    source,
+    name,
+    installedBy: "cli",
+    ...(link ? { link } : {}),
+    ...(all ? { all } : {}),
+    ...(include.length > 0 ? { include } : {}),
+    ...(ignore.length > 0 ? { ignore } : {}),
+  });
+  if (!wait) {
+    ctx.log.info(`Install job ${job.id} queued. Check it with: wopr skill job ${job.id}`);
+    return;
+  }
+  ctx.log.info("Installing...");
+  const finished = await waitForInstallJob(job.id);
+  if (finished) logJobResult(ctx, finished);
+}
+
+function cmdJob(ctx: WOPRPluginContext, rest: string[]): void {
+  if (!rest[0]) {
+    ctx.log.error("Usage: wopr skill job <id>");
+    return;
+  }
+  const job = getInstallJob(rest[0]);
+  if (!job) {
+    ctx.log.error(`Job not found: ${rest[0]}`);
+    return;
+  }
+  const subject = job.kind === "install" ? job.source : [job.kind, job.name].filter(Boolean).join(" ");
+  ctx.log.info(`Job ${job.id}: ${job.state} (${subject})`);
+  if (job.skill) ctx.log.info(`  Skill: ${job.skill}`);
+  if (job.error) ctx.log.info(`  Error: ${job.error}`);
+  if (job.stdout.trim()) ctx.log.info(`  stdout:\n${job.stdout.trimEnd()}`);
+  if (job.stderr.trim()) ctx.log.info(`  stderr:\n${job.stderr.trimEnd()}`);
+}
+
+function cmdCancel(ctx: WOPRPluginContext, rest: string[]): void {
+  if (!rest[0]) {
+    ctx.log.error("Usage: wopr skill cancel <id>");
+    return;
+  }
+  const job = cancelInstallJob(rest[0]);
+  if (!job) {
+    ctx.log.error(`Job not found: ${rest[0]}`);
+  } else if (job.state === "succeeded" || job.state === "failed") {
+    ctx.log.error(`Job already ${job.state}: ${rest[0]}`);
+  } else {
+    ctx.log.info(`Cancelled: ${rest[0]}`);
+  }
+}
+
+const shortSha = (sha?: string) => (sha ? sha.slice(0, 7) : "unknown");
+/** A registry version where there is one, the short commit otherwise */
+const revision = (version?: string, commit?: string) => version ?? shortSha(commit);
+
+async function cmdUpdate(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  const check = rest.includes("--check");
+  const force = rest.includes("--force");
+  const all = rest.includes("--all");
+  const name = rest.find((arg) => !arg.startsWith("--"));
+  if (!name && !all) {
+    ctx.log.error("Usage: wopr skill update <name|--all> [--check] [--force]");
+    return;
+  }
+  const names = name ? [name] : await listUpdatableSkills();
+  if (names.length === 0) {
+    ctx.log.info("No skills with a recorded install source.");
+    return;
+  }
+
+  for (const skill of names) {
+    try {
+      if (check) {
+        const result = await checkSkillUpdate(skill);
+        const modified = result.modified ? " (locally modified)" : "";
+        ctx.log.info(
+          result.updateAvailable
+            ? `${skill}: update available ${revision(result.currentVersion, result.currentCommit)} -> ${revision(result.latestVersion, result.latestCommit)}${modified}`
+            : `${skill}: up to date (${revision(result.currentVersion, result.currentCommit)})${modified}`,
+        );
+        continue;
+      }
+      const result = await updateSkill(skill, { force, installedBy: "cli" });
+      if (!result.updated) {
+        ctx.log.info(`${skill}: up to date (${revision(result.toVersion, result.toCommit)})`);
+        continue;
+      }
+      const { added, removed, modified } = result.changes;
+      ctx.log.info(
+        `${skill}: updated ${revision(result.fromVersion, result.fromCommit)} -> ${revision(result.toVersion, result.toCommit)} ` +
+          `(${modified.length} modified, ${added.length} added, ${removed.length} removed)`,
+      );
+      for (const file of added) ctx.log.info(`  + ${file}`);
+      for (const file of modified) ctx.log.info(`  ~ ${file}`);
+      for (const file of removed) ctx.log.info(`  - ${file}`);
+    } catch (err: unknown) {
+      ctx.log.error(`${skill}: ${err instanceof Error ? err.message : String(err)}`);
+    }
   }
 }
 
@@ -106,19 +363,61 @@ function cmdCreate(ctx: WOPRPluginContext, rest: string[]): void {
   }
 }
 
-function cmdRemove(ctx: WOPRPluginContext, rest: string[]): void {
+function cmdPack(ctx: WOPRPluginContext, rest: string[]): void {
+  const outIndex = rest.indexOf("--out");
+  const out = outIndex === -1 ? undefined : rest[outIndex + 1];
+  const name = rest.find((arg, i) => !arg.startsWith("--") && (outIndex === -1 || i !== outIndex + 1));
+  if (!name || (outIndex !== -1 && !out)) {
+    ctx.log.error("Usage: wopr skill pack <name> [--out <file>]");
+    return;
+  }
+  try {
+    const { path, sha256 } = packSkill(name, out);
+    ctx.log.info(`Packed ${name} to ${path}`);
+    ctx.log.info(`sha256: ${sha256}`);
+  } catch (err: unknown) {
+    ctx.log.error(`Failed to pack skill: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+async function cmdRemove(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
   if (!rest[0]) {
     ctx.log.error("Usage: wopr skill remove <name>");
     return;
   }
   try {
-    removeSkill(rest[0]);
-    ctx.log.info(`Removed: ${rest[0]}`);
+    await removeSkill(rest[0]);
+    ctx.log.info(`Removed: ${rest[0]} (restore it with: wopr skill restore ${rest[0]})`);
   } catch (err: unknown) {
     ctx.log.error(`Failed to remove skill: ${err instanceof Error ? err.message : String(err)}`);
   }
 }
 
+async function cmdRestore(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  if (!rest[0]) {
+    ctx.log.error("Usage: wopr skill restore <name>");
+    return;
+  }
+  try {
+    const skill = await restoreSkill(rest[0]);
+    ctx.log.info(`Restored: ${skill.name}`);
+  } catch (err: unknown) {
+    ctx.log.error(`Failed to restore skill: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function cmdTrash(ctx: WOPRPluginContext): void {
+  const entries = listTrashedSkills();
+  if (entries.length === 0) {
+    ctx.log.info("The trash is empty.");
+    return;
+  }
+  ctx.log.info("Removed skills:");
+  for (const entry of entries) {
+    ctx.log.info(`  ${entry.name} (removed ${entry.removedAt})`);
+  }
+}
+
 async function cmdEnable(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
   if (!rest[0]) {
     ctx.log.error("Usage: wopr skill enable <name>");
@@ -145,25 +444,86 @@ async function cmdDisable(ctx: WOPRPluginContext, rest: string[]): Promise<void>
   }
 }
 
+async function cmdApprove(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  if (!rest[0]) {
+    ctx.log.error("Usage: wopr skill approve <name>");
+    return;
+  }
+  const found = await approveSkillAsync(rest[0]);
+  if (found) {
+    ctx.log.info(`Approved: ${rest[0]}`);
+  } else {
+    ctx.log.error(`Skill not found: ${rest[0]}`);
+  }
+}
+
+function flagValue(args: string[], flag: string): number | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = Number(args[index + 1]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+async function cmdStats(ctx: WOPRPluginContext, rest: string[]): Promise<void> {
+  const stats = await getSkillUsageStats({ days: flagValue(rest, "--days"), limit: flagValue(rest, "--limit") });
+  ctx.log.info(`Skill usage over the last ${stats.windowDays} days:`);
+
+  ctx.log.info("Most used:");
+  if (stats.mostUsed.length === 0) ctx.log.info("  (none)");
+  for (const s of stats.mostUsed) ctx.log.info(`  ${s.name}: ${s.useCount} use(s), last ${s.lastUsedAt}`);
+
+  ctx.log.info("Stale (not used in this window):");
+  if (stats.stale.length === 0) ctx.log.info("  (none)");
+  for (const s of stats.stale) ctx.log.info(`  ${s.name}: last used ${s.lastUsedAt ?? "unknown"}`);
+
+  ctx.log.info("Never used:");
+  if (stats.neverUsed.length === 0) ctx.log.info("  (none)");
+  for (const s of stats.neverUsed) ctx.log.info(`  ${s.name} (${s.source})`);
+}
+
 async function handleSkillCommand(ctx: WOPRPluginContext, args: string[]): Promise<void> {
   const subcommand = args[0];
   const rest = args.slice(1);
 
   switch (subcommand) {
     case "list":
-      await cmdList(ctx);
+      await cmdList(ctx, rest);
       break;
     case "search":
       await cmdSearch(ctx, rest);
       break;
     case "install":
-      cmdInstall(ctx, rest);
+      await cmdInstall(ctx, rest);
+      break;
+    case "sync":
+      await cmdSync(ctx, rest);
+      break;
+    case "lock":
+      await cmdLock(ctx, rest);
+      break;
+    case "job":
+      cmdJob(ctx, rest);
+      break;
+    case "cancel":
+      cmdCancel(ctx, rest);
+      break;
+    case "update":
+      await cmdUpdate(ctx, rest);
       break;
     case "create":
       cmdCreate(ctx, rest);
       break;
+    case "pack":
+      cmdPack(ctx, rest);
+      break;
     case "remove":
-      cmdRemove(ctx, rest);
+      await cmdRemove(ctx, rest);
+      break;
+    case "restore":
+      await cmdRestore(ctx, rest);
+      break;
+    case "trash":
+      cmdTrash(ctx);
       break;
     case "enable":
       await cmdEnable(ctx, rest);
@@ -171,6 +531,12 @@ async function handleSkillCommand(ctx: WOPRPluginContext, args: string[]): Promi
     case "disable":
       await cmdDisable(ctx, rest);
       break;
+    case "approve":
+      await cmdApprove(ctx, rest);
+      break;
+    case "stats":
+      await cmdStats(ctx, rest);
+      break;
     case "cache":
       if (rest[0] === "clear") {
         clearSkillCache();
@@ -234,7 +600,8 @@ async function handleRegistry(ctx: WOPRPluginContext, args: string[]): Promise<v
 export const skillCommands: PluginCommand[] = [
   {
     name: "skill",
-    description: "Manage skills: list, search, install, create, remove, enable, disable",
+    description:
+      "Manage skills: list, search, install, lock, sync, job, cancel, update, create, pack, remove, restore, trash, enable, disable, approve, stats",
     usage: USAGE,
     handler: handleSkillCommand,
   },
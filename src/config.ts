@@ -0,0 +1,239 @@
+/**
+ * Plugin configuration for wopr-plugin-skills.
+ *
+ * Values come from ctx.getConfig(); every field is optional and resolved
+ * against defaults here so callers never deal with partial config.
+ */
+
+import type { ConfigSchema } from "@wopr-network/plugin-types";
+
+export interface SkillsPluginConfig {
+  /** Budget for the skills prompt in characters */
+  promptMaxChars?: number;
+  /** Cap on the skills prompt size in approximate tokens (~4 characters each) */
+  promptMaxTokens?: number;
+  /** Descriptions longer than this are shortened in the prompt */
+  promptMaxDescriptionChars?: number;
+  /** Skills always listed first and never dropped for budget reasons before unpinned ones */
+  pinnedSkills?: string[];
+  /** "all" lists every enabled skill; "relevance" lists pinned skills plus the top matches for the current message */
+  skillSelection?: SkillSelectionMode;
+  /** Number of matching skills injected in relevance mode */
+  relevanceTopK?: number;
+  /** Renderer for the skills prompt: "xml", "markdown", "json" or one registered by another plugin */
+  promptFormat?: string;
+  /** Per-session format overrides */
+  sessionPromptFormats?: { session: string; format: string }[];
+  /** Instructions after the skill list; supports {{skillCount}} and {{omittedCount}} */
+  promptTrailer?: string;
+  /** Days raw usage events are kept before being compacted into daily buckets */
+  usageEventRetentionDays?: number;
+  /** Days daily usage buckets are kept */
+  usageRollupRetentionDays?: number;
+  /** Install jobs running longer than this are killed */
+  installTimeoutSeconds?: number;
+  /** Git hosts skills may be installed from; empty allows any host */
+  allowedSourceHosts?: string[];
+  /** Days removed skills are kept in the trash before being deleted */
+  trashRetentionDays?: number;
+}
+
+export type SkillSelectionMode = "all" | "relevance";
+
+export interface ResolvedSkillsConfig {
+  /** Effective prompt budget in characters; undefined means unlimited */
+  promptMaxChars?: number;
+  promptMaxDescriptionChars: number;
+  pinnedSkills: string[];
+  skillSelection: SkillSelectionMode;
+  relevanceTopK: number;
+  promptFormat: string;
+  /** Session name -> format */
+  sessionPromptFormats: Record<string, string>;
+  promptTrailer?: string;
+  usageEventRetentionDays: number;
+  usageRollupRetentionDays: number;
+  installTimeoutSeconds: number;
+  allowedSourceHosts: string[];
+  trashRetentionDays: number;
+}
+
+export const CHARS_PER_TOKEN = 4;
+const DEFAULT_MAX_DESCRIPTION_CHARS = 1024;
+const DEFAULT_RELEVANCE_TOP_K = 8;
+export const DEFAULT_PROMPT_FORMAT = "xml";
+export const DEFAULT_USAGE_EVENT_RETENTION_DAYS = 30;
+export const DEFAULT_USAGE_ROLLUP_RETENTION_DAYS = 365;
+export const DEFAULT_INSTALL_TIMEOUT_SECONDS = 600;
+export const DEFAULT_TRASH_RETENTION_DAYS = 7;
+
+export const skillsConfigSchema: ConfigSchema = {
+  title: "Skills",
+  description: "Skill discovery and prompt injection settings",
+  fields: [
+    {
+      name: "promptMaxTokens",
+      type: "number",
+      label: "Skills prompt budget (tokens)",
+      description: "Approximate token budget for the injected skills list. Leave empty for no limit.",
+      setupFlow: "none",
+    },
+    {
+      name: "promptMaxChars",
+      type: "number",
+      label: "Skills prompt budget (characters)",
+      description: "Character budget for the injected skills list. The smaller of the two budgets wins.",
+      setupFlow: "none",
+    },
+    {
+      name: "promptMaxDescriptionChars",
+      type: "number",
+      label: "Max description length",
+      default: DEFAULT_MAX_DESCRIPTION_CHARS,
+      description: "Longer skill descriptions are shortened in the prompt",
+      setupFlow: "none",
+    },
+    {
+      name: "pinnedSkills",
+      type: "array",
+      label: "Pinned skills",
+      description: "Skills always listed first in the prompt",
+      items: { name: "skill", type: "text", label: "Skill name" },
+      setupFlow: "none",
+    },
+    {
+      name: "skillSelection",
+      type: "select",
+      label: "Skill selection",
+      default: "all",
+      options: [
+        { value: "all", label: "All enabled skills" },
+        { value: "relevance", label: "Most relevant to the current message" },
+      ],
+      description: "In relevance mode the remaining skills stay reachable through skills.search and skills.list",
+      setupFlow: "none",
+    },
+    {
+      name: "relevanceTopK",
+      type: "number",
+      label: "Relevant skills per turn",
+      default: DEFAULT_RELEVANCE_TOP_K,
+      setupFlow: "none",
+    },
+    {
+      name: "promptFormat",
+      type: "select",
+      label: "Prompt format",
+      default: "xml",
+      options: [
+        { value: "xml", label: "XML (<available_skills>)" },
+        { value: "markdown", label: "Markdown table" },
+        { value: "json", label: "Compact JSON" },
+      ],
+      description: "Plugins can register more formats through the skills extension",
+      setupFlow: "none",
+    },
+    {
+      name: "sessionPromptFormats",
+      type: "array",
+      label: "Per-session prompt formats",
+      items: {
+        name: "override",
+        type: "object",
+        label: "Override",
+        fields: [
+          { name: "session", type: "text", label: "Session" },
+          { name: "format", type: "text", label: "Format" },
+        ],
+      },
+      setupFlow: "none",
+    },
+    {
+      name: "promptTrailer",
+      type: "textarea",
+      label: "Prompt trailer",
+      description: "Instructions after the skill list. {{skillCount}} and {{omittedCount}} are replaced.",
+      setupFlow: "none",
+    },
+    {
+      name: "usageEventRetentionDays",
+      type: "number",
+      label: "Usage event retention (days)",
+      default: DEFAULT_USAGE_EVENT_RETENTION_DAYS,
+      description: "Older per-invocation usage events are compacted into daily totals",
+      setupFlow: "none",
+    },
+    {
+      name: "usageRollupRetentionDays",
+      type: "number",
+      label: "Daily usage retention (days)",
+      default: DEFAULT_USAGE_ROLLUP_RETENTION_DAYS,
+      setupFlow: "none",
+    },
+    {
+      name: "installTimeoutSeconds",
+      type: "number",
+      label: "Install timeout (seconds)",
+      default: DEFAULT_INSTALL_TIMEOUT_SECONDS,
+      description: "Background install, update and sync jobs running longer than this are killed and marked failed",
+      setupFlow: "none",
+    },
+    {
+      name: "allowedSourceHosts",
+      type: "array",
+      label: "Allowed skill source hosts",
+      description: "Git hosts skills may be installed from, e.g. github.com or git.example.com. Empty allows any host.",
+      items: { name: "host", type: "text", label: "Host" },
+      setupFlow: "none",
+    },
+    {
+      name: "trashRetentionDays",
+      type: "number",
+      label: "Trash retention (days)",
+      default: DEFAULT_TRASH_RETENTION_DAYS,
+      description: "Removed skills can be restored until they have been in the trash this long",
+      setupFlow: "none",
+    },
+  ],
+};
+
+function positive(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : undefined;
+}
+
+function nonEmpty(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+export function resolveSkillsConfig(raw: unknown): ResolvedSkillsConfig {
+  const config = (raw && typeof raw === "object" ? raw : {}) as SkillsPluginConfig;
+
+  const maxTokens = positive(config.promptMaxTokens);
+  const budgets = [positive(config.promptMaxChars), maxTokens && maxTokens * CHARS_PER_TOKEN].filter(
+    (b): b is number => b !== undefined,
+  );
+
+  return {
+    promptMaxChars: budgets.length > 0 ? Math.min(...budgets) : undefined,
+    promptMaxDescriptionChars: positive(config.promptMaxDescriptionChars) ?? DEFAULT_MAX_DESCRIPTION_CHARS,
+    pinnedSkills: Array.isArray(config.pinnedSkills)
+      ? config.pinnedSkills.filter((s): s is string => typeof s === "string")
+      : [],
+    skillSelection: config.skillSelection === "relevance" ? "relevance" : "all",
+    relevanceTopK: positive(config.relevanceTopK) ?? DEFAULT_RELEVANCE_TOP_K,
+    promptFormat: nonEmpty(config.promptFormat) ?? DEFAULT_PROMPT_FORMAT,
+    sessionPromptFormats: Object.fromEntries(
+      (Array.isArray(config.sessionPromptFormats) ? config.sessionPromptFormats : [])
+        .filter((o) => nonEmpty(o?.session) && nonEmpty(o?.format))
+        .map((o) => [o.session, o.format.trim()]),
+    ),
+    promptTrailer: nonEmpty(config.promptTrailer),
+    usageEventRetentionDays: positive(config.usageEventRetentionDays) ?? DEFAULT_USAGE_EVENT_RETENTION_DAYS,
+    usageRollupRetentionDays: positive(config.usageRollupRetentionDays) ?? DEFAULT_USAGE_ROLLUP_RETENTION_DAYS,
+    installTimeoutSeconds: positive(config.installTimeoutSeconds) ?? DEFAULT_INSTALL_TIMEOUT_SECONDS,
+    allowedSourceHosts: Array.isArray(config.allowedSourceHosts)
+      ? config.allowedSourceHosts.map(nonEmpty).filter((h): h is string => h !== undefined)
+      : [],
+    trashRetentionDays: positive(config.trashRetentionDays) ?? DEFAULT_TRASH_RETENTION_DAYS,
+  };
+}
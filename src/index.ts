@@ -1,28 +1,76 @@
 import type { WOPRPlugin, WOPRPluginContext } from "@wopr-network/plugin-types";
 import { registerSkillsA2ATools, setA2AContext, unregisterSkillsA2ATools } from "./a2a-tools.js";
 import { skillCommands } from "./commands.js";
+import { resolveSkillsConfig, type SkillsPluginConfig, skillsConfigSchema } from "./config.js";
 import { setLogger } from "./logger.js";
 import { createSkillsRouter } from "./routes.js";
+import { syncSkillCommands, unregisterSkillCommands, watchSkillCommands } from "./skill-commands.js";
 import {
+  cancelInstallJob,
+  configureInstallJobs,
+  getInstallJob,
+  resetInstallJobs,
+  startInstallJob,
+} from "./skill-install-jobs.js";
+import { watchSkillLockDrift } from "./skill-lock.js";
+import { selectRelevantSkills } from "./skill-relevance.js";
+import {
+  registerSkillsRenderer,
+  resetSkillsRenderers,
+  resolvePromptFormat,
+  resolveSkillsRenderer,
+  setSessionPromptFormat,
+} from "./skill-renderers.js";
+import { configureSkillSources } from "./skill-source.js";
+import { clearSkillStaging, configureSkillTrash, purgeSkillTrash } from "./skill-staging.js";
+import { checkSkillUpdate, updateSkill } from "./skill-update.js";
+import { watchSkillFileReads } from "./skill-usage.js";
+import { compactSkillUsageEvents } from "./skill-usage-repository.js";
+import {
+  closeSkillIndex,
   disableSkillAsync,
+  discoverSkillEntries,
   discoverSkills,
   enableSkillAsync,
-  formatSkillsXml,
+  installSkillCollection,
+  installSkillFromArchive,
   installSkillFromGitHub,
+  installSkillFromPath,
   installSkillFromUrl,
+  invalidateSkillIndex,
+  packSkill,
+  readAllSkillStatesAsync,
+  refreshSkillIndex,
+  selectPromptSkills,
 } from "./skills.js";
-import { migrateRegistriesToSQL, migrateSkillsToSQL } from "./skills-migrate.js";
+import { migrateInstallProvenance, migrateRegistriesToSQL, migrateSkillsToSQL } from "./skills-migrate.js";
+import { buildBudgetedSkillsPrompt } from "./skills-prompt.js";
 import { initSkillsStorage, resetSkillsStorageInit, setPluginContext } from "./skills-repository.js";
 import { skillsPluginSchema } from "./skills-schema.js";
 
 export interface SkillsExtension {
   install: typeof installSkillFromGitHub;
   installFromUrl: typeof installSkillFromUrl;
+  installFromPath: typeof installSkillFromPath;
+  installFromArchive: typeof installSkillFromArchive;
+  installCollection: typeof installSkillCollection;
+  pack: typeof packSkill;
   enable: typeof enableSkillAsync;
   disable: typeof disableSkillAsync;
   list: typeof discoverSkills;
+  refresh: typeof refreshSkillIndex;
+  invalidate: typeof invalidateSkillIndex;
+  registerRenderer: typeof registerSkillsRenderer;
+  setSessionPromptFormat: typeof setSessionPromptFormat;
+  startInstall: typeof startInstallJob;
+  getInstallJob: typeof getInstallJob;
+  cancelInstall: typeof cancelInstallJob;
+  update: typeof updateSkill;
+  checkUpdate: typeof checkSkillUpdate;
 }
 
+const USAGE_COMPACTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
 let ctx: WOPRPluginContext | null = null;
 const cleanups: Array<() => void> = [];
 
@@ -39,6 +87,7 @@ const plugin: WOPRPlugin = {
     tags: ["skills", "automation", "discovery"],
     icon: "puzzle",
     requires: {},
+    configSchema: skillsConfigSchema,
     lifecycle: {
       shutdownBehavior: "graceful",
     },
@@ -62,23 +111,79 @@ const plugin: WOPRPlugin = {
     // 2. Run migration (idempotent)
     await migrateSkillsToSQL(context);
     await migrateRegistriesToSQL();
+    await migrateInstallProvenance();
+    const compactUsage = () => {
+      const { usageEventRetentionDays, usageRollupRetentionDays } = resolveSkillsConfig(
+        context.getConfig<SkillsPluginConfig>(),
+      );
+      compactSkillUsageEvents({
+        eventRetentionDays: usageEventRetentionDays,
+        rollupRetentionDays: usageRollupRetentionDays,
+      }).catch((error: unknown) => context.log.warn("[skills] Usage compaction failed:", error));
+    };
+    compactUsage();
+    const compactionTimer = setInterval(compactUsage, USAGE_COMPACTION_INTERVAL_MS);
+    compactionTimer.unref?.();
+    cleanups.push(() => clearInterval(compactionTimer));
+    const { installTimeoutSeconds, allowedSourceHosts, trashRetentionDays } = resolveSkillsConfig(
+      context.getConfig<SkillsPluginConfig>(),
+    );
+    configureInstallJobs({ timeoutMs: installTimeoutSeconds * 1000 });
+    configureSkillSources({ allowedHosts: allowedSourceHosts });
+    configureSkillTrash({ retentionDays: trashRetentionDays });
+    try {
+      clearSkillStaging();
+      purgeSkillTrash();
+    } catch (error: unknown) {
+      context.log.warn("[skills] Cleaning up the staging area and trash failed:", error);
+    }
+    cleanups.push(watchSkillLockDrift());
 
     // 3. Register context provider for skills prompt injection
     context.registerContextProvider({
       name: "skills",
       priority: 10,
       enabled: true,
-      async getContext() {
-        const { skills, warnings } = discoverSkills();
+      async getContext(session, message) {
+        const { entries, warnings } = discoverSkillEntries();
         for (const w of warnings) {
-          context.log.warn(`[skills] ${w.skillPath}: ${w.message}`);
+          const location = w.line ? `:${w.line}:${w.column ?? 1}` : "";
+          context.log.warn(`[skills] ${w.skillPath}${location}: ${w.message}`);
         }
+        if (entries.length === 0) return null;
+
+        const states = await readAllSkillStatesAsync();
+        const { skills, filtered } = selectPromptSkills(entries, states);
         if (skills.length === 0) return null;
-        const skillsXml = formatSkillsXml(skills);
+
+        const resolved = resolveSkillsConfig(context.getConfig<SkillsPluginConfig>());
+        const config = { ...resolved, promptFormat: resolvePromptFormat(session, resolved) };
+        const candidates =
+          config.skillSelection === "relevance"
+            ? selectRelevantSkills(skills, message?.content ?? "", config.relevanceTopK, config.pinnedSkills)
+            : skills;
+
+        const { content, included, omittedCount } = buildBudgetedSkillsPrompt(
+          candidates,
+          states,
+          config,
+          resolveSkillsRenderer(config.promptFormat),
+          skills.length - candidates.length,
+        );
         return {
-          content: skillsXml,
+          content,
           role: "system" as const,
-          metadata: { source: "skills", priority: 10, skillCount: skills.length },
+          metadata: {
+            source: "skills",
+            priority: 10,
+            selection: config.skillSelection,
+            format: config.promptFormat,
+            skillCount: included.length,
+            omittedCount,
+            filteredCount:
+              filtered.disabled.length + filtered.modelInvocationDisabled.length + filtered.quarantined.length,
+            filtered,
+          },
         };
       },
     });
@@ -88,16 +193,37 @@ const plugin: WOPRPlugin = {
     registerSkillsA2ATools();
     cleanups.push(() => unregisterSkillsA2ATools());
 
-    // 5. Expose REST router as extension for daemon to mount
+    // 5. Register slash commands for tool-dispatch skills and keep them in sync
+    await syncSkillCommands(context);
+    cleanups.push(watchSkillCommands(context));
+    cleanups.push(() => unregisterSkillCommands());
+
+    // 6. Count SKILL.md reads reported by the host towards skill usage
+    cleanups.push(watchSkillFileReads(context));
+
+    // 7. Expose REST router as extension for daemon to mount
     const router = createSkillsRouter();
     context.registerExtension("skills:router", router);
     cleanups.push(() => context.unregisterExtension("skills:router"));
     context.registerExtension("skills", {
       install: installSkillFromGitHub,
       installFromUrl: installSkillFromUrl,
+      installFromPath: installSkillFromPath,
+      installFromArchive: installSkillFromArchive,
+      installCollection: installSkillCollection,
+      pack: packSkill,
       enable: enableSkillAsync,
       disable: disableSkillAsync,
       list: discoverSkills,
+      refresh: refreshSkillIndex,
+      invalidate: invalidateSkillIndex,
+      registerRenderer: registerSkillsRenderer,
+      setSessionPromptFormat,
+      startInstall: startInstallJob,
+      getInstallJob,
+      cancelInstall: cancelInstallJob,
+      update: updateSkill,
+      checkUpdate: checkSkillUpdate,
     } satisfies SkillsExtension);
     cleanups.push(() => context.unregisterExtension("skills"));
 
@@ -110,6 +236,11 @@ const plugin: WOPRPlugin = {
       fn();
     }
     cleanups.length = 0;
+    closeSkillIndex();
+    resetSkillsRenderers();
+    resetInstallJobs();
+    configureSkillSources({});
+    configureSkillTrash({});
     resetSkillsStorageInit();
     ctx = null;
   },
@@ -8,4 +8,10 @@ import { join } from "node:path";
 export const WOPR_HOME = process.env.WOPR_HOME || join(homedir(), ".wopr");
 export const SKILLS_DIR = join(WOPR_HOME, "skills");
 export const PROJECT_SKILLS_DIR = join(process.cwd(), ".wopr", "skills");
+/** Team lockfile pinning installed skills to a commit and content hash */
+export const SKILLS_LOCK_FILE = join(process.cwd(), ".wopr", "skills.lock");
+/** Workspace manifest declaring the skills a project needs */
+export const SKILLS_MANIFEST_FILE = join(process.cwd(), ".wopr", "skills.json");
 export const REGISTRIES_FILE = join(WOPR_HOME, "registries.json");
+/** Install record kept in each skill directory installed from a source */
+export const INSTALL_RECORD_FILE = ".wopr-source.json";
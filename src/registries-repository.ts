@@ -1,4 +1,5 @@
 import { logger } from "./logger.js";
+import { skillError } from "./skill-errors.js";
 import { getPluginContext, initSkillsStorage } from "./skills-repository.js";
 import type { RegistryRecord } from "./skills-schema.js";
 
@@ -23,7 +24,7 @@ export async function addRegistry(name: string, url: string): Promise<RegistryRe
   const repo = registriesRepo();
   const existing = await repo.findFirst({ id: name } as Parameters<typeof repo.findFirst>[0]);
   if (existing) {
-    throw new Error(`Registry "${name}" already exists`);
+    throw skillError("conflict", `Registry "${name}" already exists`);
   }
   const record: RegistryRecord = {
     id: name,
@@ -1,5 +1,6 @@
 import { logger } from "./logger.js";
-import { updateRegistryFetchStatus } from "./registries-repository.js";
+import { listRegistries, updateRegistryFetchStatus } from "./registries-repository.js";
+import type { RegistrySkillSpec } from "./skill-source.js";
 import type { RegistryRecord } from "./skills-schema.js";
 
 const FETCH_TIMEOUT_MS = 10_000;
@@ -11,6 +12,8 @@ export interface RegistrySkillEntry {
   version?: string;
   category?: string;
   tags?: string[];
+  /** Expected sha256 when the source is an archive */
+  sha256?: string;
   registry: string;
 }
 
@@ -23,6 +26,7 @@ export interface RegistryManifest {
     version?: string;
     category?: string;
     tags?: string[];
+    sha256?: string;
   }>;
 }
 
@@ -78,6 +82,7 @@ export async function fetchAllRegistries(
           version: skill.version,
           category: skill.category,
           tags: skill.tags,
+          sha256: skill.sha256,
           registry: reg.id,
         });
       }
@@ -91,3 +96,60 @@ export async function fetchAllRegistries(
 
   return { skills: allSkills, errors: allErrors };
 }
+
+const normalizeVersion = (version: string) => version.replace(/^v(?=\d)/, "");
+
+/** Compare dotted versions, numerically where both parts are numbers ("1.10.0" > "1.9.2") */
+export function compareVersions(a: string, b: string): number {
+  const pa = normalizeVersion(a).split(/[.+-]/);
+  const pb = normalizeVersion(b).split(/[.+-]/);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const x = pa[i] ?? "0";
+    const y = pb[i] ?? "0";
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Pick the registry entry a skill name refers to. A name offered by several
+ * registries is ambiguous unless `registry` narrows it down; `version` picks
+ * one listed version, and otherwise the highest listed version wins.
+ */
+export function findRegistrySkill(
+  skills: RegistrySkillEntry[],
+  name: string,
+  options: { registry?: string; version?: string; hint?: string } = {},
+): RegistrySkillEntry {
+  const { registry, version } = options;
+  const named = skills.filter((s) => s.name === name && (!registry || s.registry === registry));
+  if (named.length === 0) {
+    throw new Error(`Skill "${name}" not found in ${registry ? `registry "${registry}"` : "any registry"}`);
+  }
+  const matches = version
+    ? named.filter((s) => s.version && normalizeVersion(s.version) === normalizeVersion(version))
+    : named;
+  if (matches.length === 0) {
+    const available = [...new Set(named.map((s) => s.version).filter(Boolean))].join(", ") || "none listed";
+    throw new Error(`Skill "${name}" has no version ${version} (available: ${available})`);
+  }
+  const registries = [...new Set(matches.map((s) => s.registry))];
+  if (registries.length > 1) {
+    const hint = options.hint ?? `install it as <registry>/${name}`;
+    throw new Error(`Skill "${name}" is in several registries (${registries.join(", ")}); ${hint}`);
+  }
+  return matches.reduce((best, s) => (compareVersions(s.version ?? "", best.version ?? "") > 0 ? s : best));
+}
+
+/** Resolve a `name`, `registry/name` or `name@version` spec against the configured registries */
+export async function resolveRegistrySkill(spec: RegistrySkillSpec): Promise<RegistrySkillEntry> {
+  const { skills, errors } = await fetchAllRegistries(await listRegistries());
+  try {
+    return findRegistrySkill(skills, spec.name, spec);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const failed = errors.map((e) => e.registry);
+    throw new Error(failed.length > 0 ? `${message} (could not fetch: ${failed.join(", ")})` : message);
+  }
+}
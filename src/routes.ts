@@ -6,18 +6,43 @@
 import { Hono } from "hono";
 import { addRegistry, listRegistries, removeRegistry } from "./registries-repository.js";
 import { fetchAllRegistries } from "./registry-fetcher.js";
+import { skillErrorCode } from "./skill-errors.js";
 import {
+  cancelInstallJob,
+  getInstallJob,
+  listInstallJobs,
+  startInstallJob,
+  startSyncJob,
+  startUpdateJob,
+} from "./skill-install-jobs.js";
+import { planSkillSync, readSkillManifest } from "./skill-manifest.js";
+import { isSkillCollectionSource } from "./skill-source.js";
+import { listTrashedSkills } from "./skill-staging.js";
+import { assertSkillUpdatable } from "./skill-update.js";
+import { getSkillUsageStats } from "./skill-usage.js";
+import { getDailySkillUsage, listSkillUsageEvents } from "./skill-usage-repository.js";
+import {
+  approveSkillAsync,
   clearSkillCache,
   createSkill,
   disableSkillAsync,
   discoverSkills,
   enableSkillAsync,
-  installSkillFromGitHub,
-  installSkillFromUrl,
+  isLinkedSkill,
+  isSkillQuarantined,
   readAllSkillStatesAsync,
   removeSkill,
+  restoreSkill,
 } from "./skills.js";
 
+const ERROR_STATUS = { not_found: 404, conflict: 409, invalid: 400 } as const;
+
+/** Status for a failed call: from the error's code when it has one, the route's fallback otherwise */
+function errorStatus(err: unknown, fallback: 400 | 500) {
+  const code = skillErrorCode(err);
+  return code ? ERROR_STATUS[code] : fallback;
+}
+
 export function createSkillsRouter() {
   const skillsRouter = new Hono();
 
@@ -34,11 +59,68 @@ export function createSkillsRouter() {
         category: s.metadata?.emoji ? "custom" : "general",
         version: null,
         metadata: s.metadata ?? null,
+        disableModelInvocation: s.invocation?.disableModelInvocation ?? false,
+        userInvocable: s.invocation?.userInvocable ?? true,
+        quarantined: isSkillQuarantined(s, skillStates[s.name]),
+        quarantineReasons: s.untrusted?.reasons ?? [],
+        provenance: skillStates[s.name]?.provenance ?? null,
+        linked: isLinkedSkill(s),
       })),
       warnings: warnings.length > 0 ? warnings : undefined,
     });
   });
 
+  // Usage analytics: most-used, never-used and stale skills
+  skillsRouter.get("/stats", async (c) => {
+    const days = Number(c.req.query("days") ?? 30);
+    const limit = Number(c.req.query("limit") ?? 10);
+    if (!Number.isFinite(days) || days <= 0 || !Number.isFinite(limit) || limit <= 0) {
+      return c.json({ error: "days and limit must be positive numbers" }, 400);
+    }
+    try {
+      return c.json(await getSkillUsageStats({ days, limit }));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, 500);
+    }
+  });
+
+  // Raw usage events (newest first), filtered by skill, session and time range
+  skillsRouter.get("/usage/events", async (c) => {
+    const limit = Number(c.req.query("limit") ?? 100);
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return c.json({ error: "limit must be a positive number" }, 400);
+    }
+    try {
+      const events = await listSkillUsageEvents({
+        skill: c.req.query("skill"),
+        session: c.req.query("session"),
+        from: c.req.query("from"),
+        to: c.req.query("to"),
+        limit,
+      });
+      return c.json({ events });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, 500);
+    }
+  });
+
+  // Usage per skill per UTC day
+  skillsRouter.get("/usage/daily", async (c) => {
+    try {
+      const buckets = await getDailySkillUsage({
+        skill: c.req.query("skill"),
+        from: c.req.query("from"),
+        to: c.req.query("to"),
+      });
+      return c.json({ buckets });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, 500);
+    }
+  });
+
   // Search registries for available skills
   skillsRouter.get("/available", async (c) => {
     const query = c.req.query("q") || "";
@@ -73,34 +155,63 @@ export function createSkillsRouter() {
       return c.json({ created: true, skill }, 201);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
-      return c.json({ error: message }, 400);
+      return c.json({ error: message }, errorStatus(err, 400));
     }
   });
 
-  // Install skill from source
+  // Install skill from source as a background job; poll GET /jobs/:id for progress
   skillsRouter.post("/install", async (c) => {
     const body = await c.req.json();
-    const { source, name } = body;
+    const { source, name, link, all, include, ignore } = body;
 
-    if (!source) {
+    if (!source || typeof source !== "string") {
       return c.json({ error: "source is required" }, 400);
     }
+    const isGlobList = (value: unknown) =>
+      value === undefined || (Array.isArray(value) && value.every((v) => typeof v === "string"));
+    if (!isGlobList(include) || !isGlobList(ignore)) {
+      return c.json({ error: "include and ignore must be arrays of strings" }, 400);
+    }
+    if ((all === true || isSkillCollectionSource(source)) && typeof name === "string") {
+      return c.json({ error: "name cannot be used when installing several skills" }, 400);
+    }
 
-    try {
-      let skill: ReturnType<typeof installSkillFromGitHub> | ReturnType<typeof installSkillFromUrl>;
-      if (source.startsWith("github:")) {
-        const parts = source.replace("github:", "").split("/");
-        const [owner, repo, ...pathParts] = parts;
-        const skillPath = pathParts.join("/");
-        skill = installSkillFromGitHub(owner, repo, skillPath, name);
-      } else {
-        skill = installSkillFromUrl(source, name);
-      }
-      return c.json({ installed: true, skill }, 201);
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      return c.json({ error: message }, 400);
+    const job = startInstallJob({
+      source,
+      name: typeof name === "string" ? name : undefined,
+      installedBy: "api",
+      ...(link === true ? { link: true } : {}),
+      ...(all === true ? { all: true } : {}),
+      ...(include ? { include } : {}),
+      ...(ignore ? { ignore } : {}),
+    });
+    return c.json({ jobId: job.id, state: job.state }, 202);
+  });
+
+  // List install jobs, newest first
+  skillsRouter.get("/jobs", (c) => {
+    return c.json({ jobs: listInstallJobs() });
+  });
+
+  // Install job status and captured output
+  skillsRouter.get("/jobs/:id", (c) => {
+    const job = getInstallJob(c.req.param("id"));
+    if (!job) {
+      return c.json({ error: "Job not found" }, 404);
     }
+    return c.json({ job });
+  });
+
+  // Cancel a queued or running install job
+  skillsRouter.post("/jobs/:id/cancel", (c) => {
+    const job = cancelInstallJob(c.req.param("id"));
+    if (!job) {
+      return c.json({ error: "Job not found" }, 404);
+    }
+    if (job.state === "succeeded" || job.state === "failed") {
+      return c.json({ error: `Job already ${job.state}`, job }, 409);
+    }
+    return c.json({ cancelled: true, job });
   });
 
   // Uninstall skill (POST-based)
@@ -113,24 +224,24 @@ export function createSkillsRouter() {
     }
 
     try {
-      removeSkill(name);
+      await removeSkill(name);
       return c.json({ removed: true });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
-      return c.json({ error: message }, 400);
+      return c.json({ error: message }, errorStatus(err, 400));
     }
   });
 
   // Remove skill (DELETE-based, kept for backward compatibility)
-  skillsRouter.delete("/:name", (c) => {
+  skillsRouter.delete("/:name", async (c) => {
     const name = c.req.param("name");
 
     try {
-      removeSkill(name);
+      await removeSkill(name);
       return c.json({ removed: true });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
-      return c.json({ error: message }, 400);
+      return c.json({ error: message }, errorStatus(err, 400));
     }
   });
 
@@ -168,6 +279,77 @@ export function createSkillsRouter() {
     }
   });
 
+  // Approve a quarantined skill's current content
+  skillsRouter.post("/:name/approve", async (c) => {
+    const name = c.req.param("name");
+    try {
+      const found = await approveSkillAsync(name);
+
+      if (!found) {
+        return c.json({ error: "Skill not found" }, 404);
+      }
+
+      return c.json({ approved: true });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, 500);
+    }
+  });
+
+  // Removed skills that can still be restored, newest first
+  skillsRouter.get("/trash", (c) => {
+    return c.json({ skills: listTrashedSkills().map(({ id, name, removedAt }) => ({ id, name, removedAt })) });
+  });
+
+  // Restore the most recently removed copy of a skill, with its state
+  skillsRouter.post("/:name/restore", async (c) => {
+    const name = c.req.param("name");
+    try {
+      return c.json({ restored: true, skill: await restoreSkill(name) });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, errorStatus(err, 500));
+    }
+  });
+
+  // Re-fetch a skill from its recorded install source as a background job; { check: true } only reports
+  skillsRouter.post("/:name/update", async (c) => {
+    const name = c.req.param("name");
+    // The body is optional
+    const body: { force?: boolean; check?: boolean } = await c.req.json().catch(() => ({}));
+    const check = body.check === true;
+    const force = body.force === true;
+    try {
+      // A check reports local modifications instead of failing on them
+      await assertSkillUpdatable(name, { force: force || check });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, errorStatus(err, 500));
+    }
+    const job = startUpdateJob(name, { installedBy: "api", ...(check ? { check } : {}), ...(force ? { force } : {}) });
+    return c.json({ jobId: job.id, state: job.state }, 202);
+  });
+
+  // Sync with the workspace manifest as a background job; { dryRun: true } returns the plan instead
+  skillsRouter.post("/sync", async (c) => {
+    // The body is optional
+    const body: { prune?: boolean; dryRun?: boolean } = await c.req.json().catch(() => ({}));
+    const prune = body.prune === true;
+    try {
+      if (body.dryRun) {
+        return c.json({ plan: await planSkillSync({ prune }) });
+      }
+      if (!readSkillManifest()) {
+        return c.json({ error: "No .wopr/skills.json found" }, 404);
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      return c.json({ error: message }, errorStatus(err, 500));
+    }
+    const job = startSyncJob({ installedBy: "api", ...(prune ? { prune } : {}) });
+    return c.json({ jobId: job.id, state: job.state }, 202);
+  });
+
   // Search registries for skills (with required query)
   skillsRouter.get("/search", async (c) => {
     const query = c.req.query("q");
@@ -229,10 +411,7 @@ export function createSkillsRouter() {
       return c.json({ added: true, registry: { name: registry.id, url: registry.url } }, 201);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
-      if (message.includes("already exists")) {
-        return c.json({ error: message }, 409);
-      }
-      return c.json({ error: message }, 500);
+      return c.json({ error: message }, errorStatus(err, 500));
     }
   });
 
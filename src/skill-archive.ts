@@ -0,0 +1,455 @@
+/**
+ * Skill archive packages.
+ *
+ * Skills can be shipped as `.tar.gz` (or plain tar) and `.zip` archives;
+ * `.skill` files are either, told apart by their leading bytes. Archives are
+ * read in memory and extracted entry by entry: absolute paths, paths that
+ * climb out of the destination, duplicate paths, hard links and device files
+ * are refused, and symlinks are created last and must resolve inside the
+ * destination. Entries below a symlink entry are refused too, so no entry can
+ * be written through one. Zip entries are inflated no further than their
+ * declared size. `packSkillArchive` writes the matching
+ * `.tar.gz` form with every file under a single `<name>/` folder.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  readlinkSync,
+  realpathSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { gunzipSync, gzipSync, inflateRawSync } from "node:zlib";
+import { listHashedFiles } from "./skill-hash.js";
+import type { ArchiveSkillSource } from "./skill-source.js";
+
+interface ArchiveEntry {
+  path: string;
+  type: "file" | "directory" | "symlink";
+  mode?: number;
+  data?: Buffer;
+  linkTarget?: string;
+}
+
+/** Limit on download size and on the total size of extracted files, against archive bombs */
+const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+export function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Download an archive over HTTPS */
+export async function downloadSkillArchive(url: string, signal?: AbortSignal): Promise<Buffer> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_ARCHIVE_BYTES) {
+    throw new Error("Archive is too large");
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_ARCHIVE_BYTES) {
+    throw new Error("Archive is too large");
+  }
+  return data;
+}
+
+/** Read a local archive or download a remote one, and check it against the expected sha256 */
+export async function fetchSkillArchive(
+  spec: ArchiveSkillSource,
+  expected?: string,
+  signal?: AbortSignal,
+): Promise<{ data: Buffer; sha256: string }> {
+  const data = spec.url ? await downloadSkillArchive(spec.url, signal) : readFileSync(spec.path ?? "");
+  const sha256 = sha256Hex(data);
+  if (expected && sha256 !== expected) {
+    throw new Error(`Checksum mismatch (expected sha256 ${expected}, got ${sha256})`);
+  }
+  return { data, sha256 };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function cString(buf: Buffer): string {
+  const end = buf.indexOf(0);
+  return buf.toString("utf-8", 0, end === -1 ? buf.length : end);
+}
+
+function parseOctal(buf: Buffer, what: string): number {
+  if (buf[0] & 0x80) {
+    throw new Error(`Unsupported tar ${what} encoding`);
+  }
+  const text = cString(buf).trim();
+  const value = text ? Number.parseInt(text, 8) : 0;
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid tar ${what}`);
+  }
+  return value;
+}
+
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const length = space === -1 ? Number.NaN : Number.parseInt(data.toString("utf-8", pos, space), 10);
+    if (!Number.isFinite(length) || length <= 0) break;
+    const record = data.toString("utf-8", space + 1, pos + length - 1);
+    const eq = record.indexOf("=");
+    if (eq !== -1) fields[record.slice(0, eq)] = record.slice(eq + 1);
+    pos += length;
+  }
+  return fields;
+}
+
+function readTarEntries(tar: Buffer): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  let offset = 0;
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+    const size = parseOctal(header.subarray(124, 136), "size");
+    const type = header[156] === 0 ? "0" : String.fromCharCode(header[156]);
+    const data = tar.subarray(offset + 512, offset + 512 + size);
+    if (data.length < size) {
+      throw new Error("Truncated tar archive");
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "x") {
+      const pax = parsePaxRecords(data);
+      longName = pax.path ?? longName;
+      longLink = pax.linkpath ?? longLink;
+      continue;
+    }
+    if (type === "L" || type === "K") {
+      if (type === "L") longName = cString(data);
+      else longLink = cString(data);
+      continue;
+    }
+    if (type === "g") continue;
+
+    // Only POSIX ustar headers carry a name prefix; GNU ones use the field for other data
+    const prefix = header.toString("latin1", 257, 263) === "ustar\0" ? cString(header.subarray(345, 500)) : "";
+    const baseName = cString(header.subarray(0, 100));
+    const path = longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+    const linkTarget = longLink ?? cString(header.subarray(157, 257));
+    longName = undefined;
+    longLink = undefined;
+
+    if (type === "0" || type === "7") {
+      entries.push({ path, type: "file", mode: parseOctal(header.subarray(100, 108), "mode"), data });
+    } else if (type === "5") {
+      entries.push({ path, type: "directory" });
+    } else if (type === "2") {
+      entries.push({ path, type: "symlink", linkTarget });
+    } else {
+      throw new Error(`Unsupported entry in archive: ${path} (${type === "1" ? "hard link" : `type ${type}`})`);
+    }
+  }
+  return entries;
+}
+
+function readZipEntries(zip: Buffer): ArchiveEntry[] {
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Invalid zip archive: end of central directory not found");
+  }
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Invalid zip archive: bad central directory entry");
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const unixMode = zip.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const path = zip.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+
+    const fileType = unixMode & 0o170000;
+    if (path.endsWith("/") || fileType === 0o040000) {
+      entries.push({ path, type: "directory" });
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${path}`);
+    }
+    if (fileType !== 0 && fileType !== 0o100000 && fileType !== 0o120000) {
+      throw new Error(`Unsupported entry in archive: ${path}`);
+    }
+    total += size;
+    if (total > MAX_ARCHIVE_BYTES) {
+      throw new Error("Archive contents are too large");
+    }
+
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new Error(`Invalid zip archive: bad local header for ${path}`);
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    if (method === 0) {
+      data = raw;
+    } else if (method === 8) {
+      // One byte over the declared size is enough to tell that it lied
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: size + 1 });
+      } catch (error: unknown) {
+        if (error instanceof RangeError) throw new Error(`Invalid zip archive: size mismatch for ${path}`);
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${path}`);
+    }
+    if (data.length !== size) {
+      throw new Error(`Invalid zip archive: size mismatch for ${path}`);
+    }
+
+    if (fileType === 0o120000) {
+      entries.push({ path, type: "symlink", linkTarget: data.toString("utf-8") });
+    } else {
+      entries.push({ path, type: "file", mode: unixMode & 0o777 || undefined, data });
+    }
+  }
+  return entries;
+}
+
+function readArchiveEntries(data: Buffer): ArchiveEntry[] {
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    let tar: Buffer;
+    try {
+      tar = gunzipSync(data, { maxOutputLength: MAX_ARCHIVE_BYTES });
+    } catch (error: unknown) {
+      if (error instanceof RangeError) throw new Error("Archive contents are too large");
+      throw error;
+    }
+    return readTarEntries(tar);
+  }
+  if (data.length >= 4 && (data.readUInt32LE(0) === 0x04034b50 || data.readUInt32LE(0) === 0x06054b50)) {
+    return readZipEntries(data);
+  }
+  if (data.length >= 512 && data.toString("latin1", 257, 262) === "ustar") {
+    return readTarEntries(data);
+  }
+  throw new Error("Unrecognized archive format; expected .tar.gz or .zip");
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/** Normalize an entry path, refusing absolute paths and `..` segments */
+function safeEntryPath(path: string): string {
+  const normalized = path.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized) || normalized.includes("\0")) {
+    throw new Error(`Refusing absolute path in archive: ${path}`);
+  }
+  const segments = normalized.split("/").filter((seg) => seg && seg !== ".");
+  if (segments.includes("..")) {
+    throw new Error(`Refusing path outside the archive root: ${path}`);
+  }
+  return segments.join("/");
+}
+
+/** Extract an archive into `destDir`, which is created if needed */
+export function extractSkillArchive(data: Buffer, destDir: string): void {
+  const entries: Array<ArchiveEntry & { rel: string }> = [];
+  const seen = new Map<string, ArchiveEntry["type"]>();
+  for (const entry of readArchiveEntries(data)) {
+    const rel = safeEntryPath(entry.path);
+    if (!rel) continue;
+    const previous = seen.get(rel);
+    if (previous === "directory" && entry.type === "directory") continue;
+    if (previous) {
+      throw new Error(`Duplicate entry in archive: ${entry.path}`);
+    }
+    seen.set(rel, entry.type);
+    entries.push({ ...entry, rel });
+  }
+  for (const entry of entries) {
+    const segments = entry.rel.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (seen.get(segments.slice(0, i).join("/")) === "symlink") {
+        throw new Error(`Refusing entry inside a symlink: ${entry.path}`);
+      }
+    }
+  }
+
+  mkdirSync(destDir, { recursive: true });
+  const root = realpathSync.native(destDir);
+
+  const links: typeof entries = [];
+  for (const entry of entries) {
+    const target = join(root, entry.rel);
+    if (entry.type === "symlink") {
+      links.push(entry);
+    } else if (entry.type === "directory") {
+      mkdirSync(target, { recursive: true });
+    } else {
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, entry.data ?? Buffer.alloc(0), { mode: ((entry.mode ?? 0o644) & 0o755) | 0o600 });
+    }
+  }
+
+  const created: string[] = [];
+  for (const link of links) {
+    const target = join(root, link.rel);
+    const linkTarget = link.linkTarget ?? "";
+    if (!linkTarget || isAbsolute(linkTarget) || !isInside(root, resolve(dirname(target), linkTarget))) {
+      throw new Error(`Refusing symlink that escapes the archive: ${link.path} -> ${linkTarget}`);
+    }
+    mkdirSync(dirname(target), { recursive: true });
+    if (realpathSync.native(dirname(target)) !== dirname(target)) {
+      throw new Error(`Refusing symlink inside a symlinked directory: ${link.path}`);
+    }
+    symlinkSync(linkTarget, target);
+    created.push(target);
+  }
+  // Chains of links can still point outside even when each target looks local
+  for (const path of created) {
+    let real: string;
+    try {
+      real = realpathSync.native(path);
+    } catch {
+      continue;
+    }
+    if (!isInside(root, real)) {
+      throw new Error(`Refusing symlink that escapes the archive: ${relative(root, path)}`);
+    }
+  }
+}
+
+/** The extracted directory holding SKILL.md: the root itself or its single top-level folder */
+export function findSkillRoot(dir: string): string {
+  if (existsSync(join(dir, "SKILL.md"))) return dir;
+  const items = readdirSync(dir, { withFileTypes: true }).filter(
+    (item) => !item.name.startsWith(".") && item.name !== "__MACOSX",
+  );
+  if (items.length === 1 && items[0].isDirectory() && existsSync(join(dir, items[0].name, "SKILL.md"))) {
+    return join(dir, items[0].name);
+  }
+  throw new Error("No SKILL.md at the archive root or in a single top-level folder");
+}
+
+// ============================================================================
+// Packing
+// ============================================================================
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return `${length}${body}`;
+}
+
+function tarHeader(path: string, type: string, mode: number, size: number, linkTarget = ""): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(path, 0, 100, "utf-8");
+  writeOctal(header, 100, 8, mode);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, 0);
+  header.fill(0x20, 148, 156);
+  header.write(type, 156, 1, "ascii");
+  header.write(linkTarget, 157, 100, "utf-8");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+  const checksum = header.reduce((sum, b) => sum + b, 0);
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+function padded(data: Buffer): Buffer[] {
+  const padding = (512 - (data.length % 512)) % 512;
+  return padding ? [data, Buffer.alloc(padding)] : [data];
+}
+
+/** Tar entry for `path`, preceded by a pax header when the path or link target is too long */
+function tarEntry(path: string, type: string, mode: number, data = Buffer.alloc(0), linkTarget = ""): Buffer[] {
+  const blocks: Buffer[] = [];
+  const long =
+    (Buffer.byteLength(path) > 100 ? paxRecord("path", path) : "") +
+    (Buffer.byteLength(linkTarget) > 100 ? paxRecord("linkpath", linkTarget) : "");
+  if (long) {
+    const pax = Buffer.from(long, "utf-8");
+    blocks.push(tarHeader("PaxHeader", "x", 0o644, pax.length), ...padded(pax));
+  }
+  blocks.push(tarHeader(path, type, mode, data.length, linkTarget), ...padded(data));
+  return blocks;
+}
+
+/**
+ * A `.tar.gz` of a skill directory with its files under `<name>/`. Git
+ * metadata and the install record are left out, and timestamps and owners
+ * are zeroed so packing the same files always gives the same bytes.
+ */
+export function packSkillArchive(dir: string, name: string): Buffer {
+  const blocks: Buffer[] = tarEntry(`${name}/`, "5", 0o755);
+  const dirs = new Set<string>();
+  for (const file of listHashedFiles(dir)) {
+    const parts = file.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      const parent = parts.slice(0, i).join("/");
+      if (dirs.has(parent)) continue;
+      dirs.add(parent);
+      blocks.push(...tarEntry(`${name}/${parent}/`, "5", 0o755));
+    }
+
+    const full = join(dir, file);
+    const stats = lstatSync(full);
+    if (stats.isSymbolicLink()) {
+      const linkTarget = readlinkSync(full);
+      if (isAbsolute(linkTarget) || !isInside(dir, resolve(dirname(full), linkTarget))) {
+        throw new Error(`Symlink points outside the skill: ${file} -> ${linkTarget}`);
+      }
+      blocks.push(...tarEntry(`${name}/${file}`, "2", 0o777, undefined, linkTarget));
+    } else {
+      const mode = stats.mode & 0o111 ? 0o755 : 0o644;
+      blocks.push(...tarEntry(`${name}/${file}`, "0", mode, readFileSync(full)));
+    }
+  }
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
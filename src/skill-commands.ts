@@ -0,0 +1,317 @@
+/**
+ * Slash commands backed by skills that declare `command-dispatch: tool`.
+ *
+ * Specs come from buildSkillCommandSpecs for enabled, non-quarantined skills
+ * and are registered on every channel provider (Discord, Slack, ...) as
+ * channel commands. They are re-synced whenever the skill index changes, a
+ * skill is enabled, disabled or approved, or another plugin finishes init
+ * (which is when channel providers appear). Names already taken on a provider
+ * are reserved. Invoking a command asks the session bound to the channel to
+ * run the skill's declared command-tool with the argument string, shaped by
+ * the skill's command-arg-mode, and replies with the answer.
+ */
+
+import type {
+  ChannelCommand,
+  ChannelCommandContext,
+  ChannelProvider,
+  WOPRPluginContext,
+} from "@wopr-network/plugin-types";
+import { skillCommands } from "./commands.js";
+import { logger } from "./logger.js";
+import { trackSkillUsage } from "./skill-usage.js";
+import {
+  buildSkillCommandSpecs,
+  discoverSkills,
+  isSkillQuarantined,
+  onSkillIndexChange,
+  onSkillStateChange,
+  readAllSkillStatesAsync,
+  type SkillCommandDispatch,
+} from "./skills.js";
+
+export type SkillCommandSpec = ReturnType<typeof buildSkillCommandSpecs>[number];
+
+const SYNC_DEBOUNCE_MS = 250;
+
+const registered = new Map<string, SkillCommandSpec>();
+/** Command names registered per channel provider, with the provider to unregister them from */
+const registeredOn = new Map<string, { provider: ChannelProvider; names: Set<string> }>();
+const STATIC_COMMAND_NAMES = new Set(skillCommands.map((c) => c.name));
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Split an argument string shell-style: whitespace-separated, with quotes and backslash escapes */
+export function splitCommandArgs(raw: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      else current += ch;
+    } else if (quote === '"') {
+      if (ch === '"') {
+        quote = null;
+      } else if (ch === "\\" && i + 1 < raw.length && '"\\$`'.includes(raw[i + 1])) {
+        current += raw[++i];
+      } else {
+        current += ch;
+      }
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inToken = true;
+    } else if (ch === "\\" && i + 1 < raw.length) {
+      current += raw[++i];
+      inToken = true;
+    } else if (/\s/.test(ch)) {
+      if (inToken) {
+        args.push(current);
+        current = "";
+        inToken = false;
+      }
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`unterminated ${quote} quote in arguments`);
+  }
+  if (inToken) args.push(current);
+  return args;
+}
+
+/**
+ * Fill a `command-arg-template` from parsed arguments. `--key=value` and
+ * `key=value` are named args, everything else is positional. In template
+ * strings `$1`, `$2`, ... are positional args, `${key}` named args, `$*` all
+ * positional args joined and `$@` all positional args as an array. A value
+ * that is exactly one placeholder keeps its type and is dropped when the
+ * argument is missing.
+ */
+export function applyArgTemplate(template: unknown, argv: string[]): unknown {
+  const positional: string[] = [];
+  const named: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^(?:--)?([A-Za-z_][\w-]*)=([\s\S]*)$/);
+    if (match) named[match[1]] = match[2];
+    else positional.push(arg);
+  }
+
+  const lookup = (token: string): string | string[] | undefined => {
+    if (token === "@") return positional;
+    if (token === "*") return positional.join(" ");
+    if (/^\d+$/.test(token)) return positional[Number(token) - 1];
+    return named[token.slice(1, -1)];
+  };
+
+  const fill = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const exact = value.match(/^\$(\d+|@|\*|\{[A-Za-z_][\w-]*\})$/);
+      if (exact) return lookup(exact[1]);
+      return value.replace(/\$(\d+|@|\*|\{[A-Za-z_][\w-]*\})/g, (_m, token: string) => {
+        const found = lookup(token);
+        return Array.isArray(found) ? found.join(" ") : (found ?? "");
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(fill).filter((v) => v !== undefined);
+    }
+    if (value && typeof value === "object") {
+      const out: Record<string, unknown> = {};
+      for (const [key, inner] of Object.entries(value)) {
+        const filled = fill(inner);
+        if (filled !== undefined) out[key] = filled;
+      }
+      return out;
+    }
+    return value;
+  };
+
+  return fill(template);
+}
+
+/** Build the tool input for a dispatched skill command according to its arg mode */
+export function buildToolArgs(spec: SkillCommandSpec, rawArgs: string): Record<string, unknown> {
+  const dispatch = spec.dispatch;
+  switch (dispatch?.argMode ?? "raw") {
+    case "argv":
+      return { argv: splitCommandArgs(rawArgs), commandName: spec.name, skillName: spec.skillName };
+    case "json": {
+      if (rawArgs.trim() === "") return {};
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(rawArgs);
+      } catch (err: unknown) {
+        throw new Error(`arguments must be valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("arguments must be a JSON object");
+      }
+      return parsed as Record<string, unknown>;
+    }
+    case "template":
+      return applyArgTemplate(dispatch?.argTemplate ?? {}, splitCommandArgs(rawArgs)) as Record<string, unknown>;
+    default:
+      return { command: rawArgs, commandName: spec.name, skillName: spec.skillName };
+  }
+}
+
+/** The message that asks a session to run the command's tool */
+export function buildToolRequest(spec: SkillCommandSpec & { dispatch: SkillCommandDispatch }, rawArgs: string): string {
+  const input = JSON.stringify(buildToolArgs(spec, rawArgs));
+  return `/${spec.name}: run the ${spec.dispatch.toolName} tool with this input and reply with its result:\n${input}`;
+}
+
+function createSkillCommand(
+  ctx: WOPRPluginContext,
+  spec: SkillCommandSpec & { dispatch: SkillCommandDispatch },
+): ChannelCommand {
+  return {
+    name: spec.name,
+    description: spec.description,
+    handler: async (command: ChannelCommandContext) => {
+      const adapter = ctx
+        .getChannels()
+        .find((a) => a.channel.id === command.channel && a.channel.type === command.channelType);
+      if (!adapter) {
+        const error = "no session is bound to this channel";
+        await trackSkillUsage(spec.skillName, { kind: "slash_command", channel: command.channel, error });
+        await command.reply(`Cannot run /${spec.name}: ${error}`);
+        return;
+      }
+      const usage = { kind: "tool_dispatch" as const, session: adapter.session, channel: command.channel };
+      try {
+        const request = buildToolRequest(spec, command.args.join(" "));
+        const response = await ctx.inject(adapter.session, request, { from: command.sender, channel: adapter.channel });
+        await trackSkillUsage(spec.skillName, usage);
+        if (response) await command.reply(response);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        await trackSkillUsage(spec.skillName, { ...usage, error: message });
+        await command.reply(`/${spec.name} failed: ${message}`);
+      }
+    },
+  };
+}
+
+function sameSpec(a: SkillCommandSpec, b: SkillCommandSpec): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Names on a provider that belong to someone else */
+function takenNames(provider: ChannelProvider): string[] {
+  const ours = registeredOn.get(provider.id)?.names;
+  return provider
+    .getCommands()
+    .map((c) => c.name)
+    .filter((name) => !ours?.has(name));
+}
+
+function unregisterFrom(providerId: string, name: string): void {
+  const entry = registeredOn.get(providerId);
+  if (!entry?.names.delete(name)) return;
+  try {
+    entry.provider.unregisterCommand(name);
+  } catch (error: unknown) {
+    logger.warn(`[skills] Failed to unregister /${name} from ${providerId}:`, error);
+  }
+}
+
+/**
+ * Register commands for enabled, non-quarantined tool-dispatch skills on
+ * every channel provider, replacing any from a previous sync. Returns the
+ * specs for those skills.
+ */
+export async function syncSkillCommands(ctx: WOPRPluginContext): Promise<SkillCommandSpec[]> {
+  const providers = ctx.getChannelProviders();
+  const reserved = new Set(STATIC_COMMAND_NAMES);
+  for (const provider of providers) {
+    for (const name of takenNames(provider)) reserved.add(name);
+  }
+
+  const { skills } = discoverSkills();
+  const states = await readAllSkillStatesAsync();
+  const active = skills.filter((s) => states[s.name]?.enabled !== false && !isSkillQuarantined(s, states[s.name]));
+  const specs = buildSkillCommandSpecs(active, [...reserved]);
+  const next = new Map(
+    specs.flatMap((spec) => (spec.dispatch ? [[spec.name, { ...spec, dispatch: spec.dispatch }] as const] : [])),
+  );
+
+  // Providers that went away take their commands with them
+  const current = new Set(providers.map((p) => p.id));
+  for (const id of registeredOn.keys()) {
+    if (!current.has(id)) registeredOn.delete(id);
+  }
+
+  for (const [name, spec] of registered) {
+    const replacement = next.get(name);
+    if (!replacement || !sameSpec(spec, replacement)) {
+      for (const id of registeredOn.keys()) unregisterFrom(id, name);
+      registered.delete(name);
+    }
+  }
+
+  for (const provider of providers) {
+    const entry = registeredOn.get(provider.id) ?? { provider, names: new Set<string>() };
+    registeredOn.set(provider.id, entry);
+    for (const [name, spec] of next) {
+      if (entry.names.has(name)) continue;
+      try {
+        provider.registerCommand(createSkillCommand(ctx, spec));
+        entry.names.add(name);
+      } catch (error: unknown) {
+        logger.warn(`[skills] Failed to register /${name} on ${provider.id}:`, error);
+      }
+    }
+  }
+  for (const [name, spec] of next) registered.set(name, spec);
+
+  logger.debug(`[skills] ${next.size} skill command(s) registered on ${providers.length} channel provider(s)`);
+  return specs;
+}
+
+/**
+ * Re-sync commands whenever discovery results change, a skill is enabled,
+ * disabled or approved, or a plugin (possibly a channel provider) finishes
+ * init. Returns an unsubscribe function.
+ */
+export function watchSkillCommands(ctx: WOPRPluginContext): () => void {
+  const schedule = () => {
+    if (syncTimer) clearTimeout(syncTimer);
+    syncTimer = setTimeout(() => {
+      syncTimer = null;
+      syncSkillCommands(ctx).catch((error: unknown) => {
+        logger.warn("[skills] Failed to sync skill commands:", error);
+      });
+    }, SYNC_DEBOUNCE_MS);
+    syncTimer.unref?.();
+  };
+  const unsubscribeIndex = onSkillIndexChange(schedule);
+  const unsubscribeState = onSkillStateChange(schedule);
+  const unsubscribePlugins = ctx.events.on("plugin:afterInit", schedule);
+
+  return () => {
+    unsubscribeIndex();
+    unsubscribeState();
+    unsubscribePlugins();
+    if (syncTimer) {
+      clearTimeout(syncTimer);
+      syncTimer = null;
+    }
+  };
+}
+
+/** Remove every command registered by syncSkillCommands */
+export function unregisterSkillCommands(): void {
+  for (const [id, entry] of registeredOn) {
+    for (const name of [...entry.names]) unregisterFrom(id, name);
+  }
+  registeredOn.clear();
+  registered.clear();
+}
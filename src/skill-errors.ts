@@ -0,0 +1,21 @@
+/**
+ * Errors that carry a code for the kind of failure, so callers such as the
+ * HTTP routes can tell a missing skill from a conflicting one without
+ * matching on the message.
+ */
+
+export type SkillErrorCode = "not_found" | "conflict" | "invalid";
+
+export type SkillError = Error & { code: SkillErrorCode };
+
+const CODES = new Set<string>(["not_found", "conflict", "invalid"]);
+
+export function skillError(code: SkillErrorCode, message: string): SkillError {
+  return Object.assign(new Error(message), { code });
+}
+
+/** The code of an error thrown with skillError; undefined for any other error */
+export function skillErrorCode(error: unknown): SkillErrorCode | undefined {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && CODES.has(code) ? (code as SkillErrorCode) : undefined;
+}
@@ -1,8 +1,10 @@
 /**
- * Minimal SKILL.md frontmatter parser used by both registries and the skills plugin.
+ * SKILL.md frontmatter parser used by both registries and the skills plugin.
  * Contains ONLY the parsing logic, no filesystem or state operations.
  */
 
+import { LineCounter, parseDocument } from "yaml";
+
 // ============================================================================
 // Skill Validation Constants (per Agent Skills spec)
 // ============================================================================
@@ -20,6 +22,9 @@ const ALLOWED_FRONTMATTER_FIELDS = new Set([
   "command-dispatch",
   "command-tool",
   "command-arg-mode",
+  "command-arg-template",
+  "disable-model-invocation",
+  "user-invocable",
 ]);
 
 // ============================================================================
@@ -29,6 +34,10 @@ const ALLOWED_FRONTMATTER_FIELDS = new Set([
 export interface SkillValidationWarning {
   skillPath: string;
   message: string;
+  /** 1-based line in SKILL.md, when the warning points at a frontmatter location */
+  line?: number;
+  /** 1-based column in SKILL.md */
+  column?: number;
 }
 
 export interface ParsedFrontmatter {
@@ -41,6 +50,9 @@ export interface ParsedFrontmatter {
   "command-dispatch"?: string;
   "command-tool"?: string;
   "command-arg-mode"?: string;
+  "command-arg-template"?: string | Record<string, unknown>;
+  "disable-model-invocation"?: boolean;
+  "user-invocable"?: boolean;
 }
 
 // ============================================================================
@@ -95,56 +107,161 @@ export function validateFrontmatterFields(keys: string[]): string[] {
 // Frontmatter Parsing
 // ============================================================================
 
+const FRONTMATTER_PATTERN = /^---[ \t]*\n(?:([\s\S]*?)\n)?---[ \t]*(?:\n|$)([\s\S]*)$/;
+
+/** Frontmatter fields that hold a single string value */
+const STRING_FIELDS = [
+  "name",
+  "description",
+  "license",
+  "compatibility",
+  "command-dispatch",
+  "command-tool",
+  "command-arg-mode",
+] as const;
+
+/** Frontmatter fields that hold a boolean flag */
+const BOOLEAN_FIELDS = ["disable-model-invocation", "user-invocable"] as const;
+
 export function parseSkillFrontmatter(content: string): {
   frontmatter: ParsedFrontmatter;
   body: string;
   warnings: SkillValidationWarning[];
 } {
-  const warnings: SkillValidationWarning[] = [];
-  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const match = normalized.match(FRONTMATTER_PATTERN);
 
   if (!match) {
-    return { frontmatter: {}, body: content, warnings };
+    return { frontmatter: {}, body: content, warnings: [] };
   }
 
-  const yamlContent = match[1];
+  const yamlContent = match[1] ?? "";
   const body = match[2];
-  const frontmatter: ParsedFrontmatter = {};
+  const { data, warnings } = parseFrontmatterYaml(yamlContent);
+  const frontmatter = toParsedFrontmatter(data, warnings);
+
+  // Validate frontmatter fields
+  const fieldErrors = validateFrontmatterFields(Object.keys(frontmatter));
+  for (const error of fieldErrors) {
+    warnings.push({ skillPath: "", message: error });
+  }
+
+  return { frontmatter, body, warnings };
+}
+
+/**
+ * Parse the YAML between the `---` fences. On syntax errors the errors are
+ * reported with file positions and the block is re-read with the legacy
+ * one-field-per-line reader, so skills written before YAML parsing (e.g.
+ * unquoted descriptions containing ": ") keep loading.
+ */
+function parseFrontmatterYaml(yamlContent: string): {
+  data: Record<string, unknown>;
+  warnings: SkillValidationWarning[];
+} {
+  const warnings: SkillValidationWarning[] = [];
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yamlContent, { lineCounter, prettyErrors: false, uniqueKeys: true });
+
+  for (const issue of [...doc.errors, ...doc.warnings]) {
+    // Frontmatter starts on line 2 of the file (after the opening fence)
+    const pos = lineCounter.linePos(issue.pos[0]);
+    warnings.push({
+      skillPath: "",
+      message: `invalid frontmatter YAML: ${issue.message}`,
+      line: pos.line + 1,
+      column: pos.col,
+    });
+  }
+
+  if (doc.errors.length > 0) {
+    return { data: parseLegacyFrontmatter(yamlContent), warnings };
+  }
+
+  const value: unknown = doc.toJS();
+  if (value === null || value === undefined) {
+    return { data: {}, warnings };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    warnings.push({ skillPath: "", message: "frontmatter must be a YAML mapping", line: 2, column: 1 });
+    return { data: {}, warnings };
+  }
+  return { data: value as Record<string, unknown>, warnings };
+}
 
-  // Parse YAML-like frontmatter
+/** Pre-YAML reader: splits each line on its first colon */
+function parseLegacyFrontmatter(yamlContent: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
   for (const line of yamlContent.split("\n")) {
     const colonIndex = line.indexOf(":");
     if (colonIndex === -1) continue;
+    data[line.slice(0, colonIndex).trim()] = line.slice(colonIndex + 1).trim();
+  }
+  return data;
+}
 
-    const key = line.slice(0, colonIndex).trim();
-    let value: unknown = line.slice(colonIndex + 1).trim();
+function toParsedFrontmatter(data: Record<string, unknown>, warnings: SkillValidationWarning[]): ParsedFrontmatter {
+  const frontmatter: Record<string, unknown> = { ...data };
 
-    // Try to parse JSON metadata
-    if (key === "metadata") {
-      try {
-        value = JSON.parse(value as string);
-      } catch {
-        // Keep as string if not valid JSON
-      }
+  for (const key of STRING_FIELDS) {
+    const value = data[key];
+    if (value === undefined || value === null) {
+      delete frontmatter[key];
+    } else if (typeof value === "string") {
+      frontmatter[key] = value.trim();
+    } else if (typeof value === "number" || typeof value === "boolean") {
+      frontmatter[key] = String(value);
+    } else {
+      warnings.push({ skillPath: "", message: `frontmatter field "${key}" must be a string` });
+      delete frontmatter[key];
     }
+  }
 
-    // Parse arrays
-    if (key === "allowed-tools") {
-      try {
-        value = JSON.parse(value as string);
-      } catch {
-        value = (value as string).split(",").map((s: string) => s.trim());
-      }
+  for (const key of BOOLEAN_FIELDS) {
+    const value = data[key];
+    if (value === undefined || value === null) {
+      delete frontmatter[key];
+    } else if (typeof value === "boolean") {
+      frontmatter[key] = value;
+    } else if (typeof value === "string" && /^(true|yes|on)$/i.test(value.trim())) {
+      frontmatter[key] = true;
+    } else if (typeof value === "string" && /^(false|no|off)$/i.test(value.trim())) {
+      frontmatter[key] = false;
+    } else {
+      warnings.push({ skillPath: "", message: `frontmatter field "${key}" must be true or false` });
+      delete frontmatter[key];
     }
+  }
 
-    (frontmatter as Record<string, unknown>)[key] = value;
+  // metadata: nested map, or the legacy single-line JSON string
+  if (typeof data.metadata === "string") {
+    try {
+      frontmatter.metadata = JSON.parse(data.metadata);
+    } catch {
+      // Keep as string if not valid JSON
+    }
   }
 
-  // Validate frontmatter fields
-  const fieldErrors = validateFrontmatterFields(Object.keys(frontmatter));
-  for (const error of fieldErrors) {
-    warnings.push({ skillPath: "", message: error });
+  // allowed-tools: YAML list, JSON array string, or comma-separated string
+  const tools = data["allowed-tools"];
+  if (tools === undefined || tools === null) {
+    delete frontmatter["allowed-tools"];
+  } else if (Array.isArray(tools)) {
+    frontmatter["allowed-tools"] = tools.map((t) => String(t).trim()).filter(Boolean);
+  } else if (typeof tools === "string") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(tools);
+    } catch {
+      parsed = tools.split(",");
+    }
+    frontmatter["allowed-tools"] = (Array.isArray(parsed) ? parsed : [parsed])
+      .map((t) => String(t).trim())
+      .filter(Boolean);
+  } else {
+    warnings.push({ skillPath: "", message: `frontmatter field "allowed-tools" must be a list` });
+    delete frontmatter["allowed-tools"];
   }
 
-  return { frontmatter, body, warnings };
+  return frontmatter as ParsedFrontmatter;
 }
@@ -0,0 +1,107 @@
+/**
+ * Git checkouts for skill installs.
+ *
+ * Sources may pin a ref with an `@ref` suffix (tag, branch or full commit
+ * SHA). Unpinned sources shallow-clone the default branch; pinned ones fetch
+ * exactly that ref. Either way the checked-out commit SHA is returned so it
+ * can be recorded with the installed skill.
+ */
+
+import { type RunCommandOptions, runCommand } from "./skill-process.js";
+
+export interface GitCheckout {
+  url: string;
+  /** Tag, branch or full commit SHA; default branch when omitted */
+  ref?: string;
+  /** Only check out this sub-path (sparse checkout) */
+  sparsePath?: string;
+  /** Directory to clone into; must not exist yet */
+  dir: string;
+}
+
+const VALID_REF = /^[A-Za-z0-9._/-]+$/;
+const FULL_SHA = /^[0-9a-f]{40}$/i;
+const MISSING_REF = /couldn't find remote ref|not our ref|unadvertised object|no such remote ref/i;
+
+export function isValidGitRef(ref: string): boolean {
+  return (
+    VALID_REF.test(ref) &&
+    !ref.startsWith("-") &&
+    !ref.startsWith("/") &&
+    !ref.endsWith("/") &&
+    !ref.endsWith(".lock") &&
+    !ref.includes("..") &&
+    !ref.includes("//")
+  );
+}
+
+/** Split a trailing `@ref` off a source spec; the ref is validated */
+export function splitGitRef(spec: string): { base: string; ref?: string } {
+  const at = spec.indexOf("@");
+  if (at === -1) return { base: spec };
+  const ref = spec.slice(at + 1);
+  if (!isValidGitRef(ref)) {
+    throw new Error(`Invalid git ref: ${ref || "(empty)"}`);
+  }
+  return { base: spec.slice(0, at), ref };
+}
+
+/** Clone `url` into `dir` at `ref` and return the checked-out commit SHA */
+export async function checkoutGitSource(
+  checkout: GitCheckout,
+  options: Pick<RunCommandOptions, "signal" | "onOutput"> = {},
+): Promise<string> {
+  const { url, ref, sparsePath, dir } = checkout;
+  const filter = sparsePath ? ["--filter=blob:none"] : [];
+
+  if (!ref) {
+    await runCommand(
+      "git",
+      ["clone", "--depth", "1", ...filter, ...(sparsePath ? ["--sparse"] : []), url, dir],
+      options,
+    );
+    if (sparsePath) await runCommand("git", ["-C", dir, "sparse-checkout", "set", sparsePath], options);
+  } else {
+    await runCommand("git", ["init", "-q", dir], options);
+    await runCommand("git", ["-C", dir, "remote", "add", "origin", url], options);
+    try {
+      await runCommand("git", ["-C", dir, "fetch", "--depth", "1", ...filter, "origin", ref], options);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!options.signal?.aborted && MISSING_REF.test(message)) {
+        throw new Error(`Ref "${ref}" not found in ${url}`);
+      }
+      throw error;
+    }
+    if (sparsePath) await runCommand("git", ["-C", dir, "sparse-checkout", "set", sparsePath], options);
+    await runCommand("git", ["-C", dir, "checkout", "-q", "FETCH_HEAD"], options);
+  }
+
+  const { stdout } = await runCommand("git", ["-C", dir, "rev-parse", "HEAD"], options);
+  return stdout.trim();
+}
+
+/**
+ * Commit SHA that `ref` (default branch when omitted) currently points to on
+ * the remote. Full commit SHAs resolve to themselves.
+ */
+export async function resolveRemoteRef(
+  url: string,
+  ref: string | undefined,
+  options: Pick<RunCommandOptions, "signal"> = {},
+): Promise<string> {
+  if (ref && FULL_SHA.test(ref)) return ref.toLowerCase();
+  const { stdout } = await runCommand("git", ["ls-remote", url, ref ?? "HEAD"], options);
+  const refs = new Map<string, string>();
+  for (const line of stdout.split("\n")) {
+    const [sha, name] = line.trim().split(/\s+/);
+    if (sha && name) refs.set(name, sha);
+  }
+  // Annotated tags list the tag object and the peeled commit ("<tag>^{}")
+  const candidates = ref ? [`refs/tags/${ref}^{}`, `refs/tags/${ref}`, `refs/heads/${ref}`, ref] : ["HEAD"];
+  const sha = candidates.map((name) => refs.get(name)).find(Boolean);
+  if (!sha) {
+    throw new Error(`Ref "${ref ?? "HEAD"}" not found in ${url}`);
+  }
+  return sha;
+}
@@ -0,0 +1,67 @@
+/**
+ * Content hash of an installed skill directory.
+ *
+ * The hash covers every file's relative path and bytes (symlinks by their
+ * target), so any edit, addition or removal changes it. Git metadata and the
+ * install record are left out: they change on every install without changing
+ * the skill.
+ */
+
+import { createHash } from "node:crypto";
+import { lstatSync, readdirSync, readFileSync, readlinkSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { INSTALL_RECORD_FILE } from "./paths.js";
+
+const IGNORED = new Set([".git", INSTALL_RECORD_FILE]);
+
+/** Relative paths (with "/" separators) of the files a skill directory hash covers */
+export function listHashedFiles(dir: string): string[] {
+  const files: string[] = [];
+  const walk = (current: string) => {
+    for (const item of readdirSync(current).sort()) {
+      if (IGNORED.has(item)) continue;
+      const full = join(current, item);
+      const stats = lstatSync(full);
+      if (stats.isDirectory()) walk(full);
+      else if (stats.isFile() || stats.isSymbolicLink()) files.push(relative(dir, full).split(sep).join("/"));
+    }
+  };
+  walk(dir);
+  return files.sort();
+}
+
+/** sha256 over the directory's files, as "sha256:<hex>" */
+export function hashSkillDirectory(dir: string): string {
+  const hash = createHash("sha256");
+  for (const file of listHashedFiles(dir)) {
+    const full = join(dir, file);
+    const stats = lstatSync(full);
+    hash.update(`${stats.isSymbolicLink() ? "link" : "file"}\0${file}\0`);
+    hash.update(stats.isSymbolicLink() ? readlinkSync(full) : readFileSync(full));
+    hash.update("\0");
+  }
+  return `sha256:${hash.digest("hex")}`;
+}
+
+export interface SkillDirectoryChanges {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+function fileDigest(dir: string, file: string): string {
+  const full = join(dir, file);
+  const data = lstatSync(full).isSymbolicLink() ? `link\0${readlinkSync(full)}` : readFileSync(full);
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Files added, removed and modified going from `fromDir` to `toDir` */
+export function diffSkillDirectories(fromDir: string, toDir: string): SkillDirectoryChanges {
+  const before = new Set(listHashedFiles(fromDir));
+  const after = listHashedFiles(toDir);
+  return {
+    added: after.filter((f) => !before.has(f)),
+    removed: [...before].filter((f) => !after.includes(f)),
+    modified: after.filter((f) => before.has(f) && fileDigest(fromDir, f) !== fileDigest(toDir, f)),
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * In-memory index backing skill discovery.
+ *
+ * SKILL.md files are cached by path and revalidated by mtime/size and content
+ * hash. Each source directory gets a non-recursive fs watcher for skill
+ * directories coming and going, plus one non-recursive watcher per skill
+ * directory for edits to its SKILL.md, so only the skills that changed are
+ * invalidated. Dot-directories (`.git`, `.staging`, `.trash`) and
+ * `node_modules` are never watched. Directories that cannot be watched (or
+ * symlinked skills, whose targets live outside the watched tree) fall back to
+ * a stat check on every lookup.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  existsSync,
+  type FSWatcher,
+  lstatSync,
+  readdirSync,
+  readFileSync,
+  realpathSync,
+  statSync,
+  watch,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { logger } from "./logger.js";
+import type { SkillValidationWarning } from "./skill-frontmatter-parser.js";
+import type { SkillEntry } from "./skills.js";
+
+export interface IndexedSkillFile {
+  path: string;
+  realPath: string;
+  /** Skill directory is a symlink, so the source dir watcher does not see edits to it */
+  linked: boolean;
+  source: string;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  entry: SkillEntry | null;
+  warnings: SkillValidationWarning[];
+}
+
+export type SkillFileParser = (
+  filePath: string,
+  content: string,
+  source: string,
+  hash: string,
+) => { entry: SkillEntry | null; warnings: SkillValidationWarning[] };
+
+interface IndexedDir {
+  /** SKILL.md paths found on the last scan; null when the listing must be rebuilt */
+  skillFiles: string[] | null;
+  watcher: FSWatcher | null;
+  /** Watchers for the skill directories below, by directory name */
+  skillWatchers: Map<string, FSWatcher>;
+}
+
+const files = new Map<string, IndexedSkillFile>();
+const dirs = new Map<string, IndexedDir>();
+const listeners = new Set<() => void>();
+let generation = 0;
+
+function isWatched(indexed: IndexedSkillFile): boolean {
+  const skillDir = dirname(indexed.path);
+  const parent = dirs.get(dirname(skillDir));
+  return !indexed.linked && Boolean(parent?.watcher) && Boolean(parent?.skillWatchers.has(basename(skillDir)));
+}
+
+function isIgnoredEntry(name: string): boolean {
+  return name.startsWith(".") || name === "node_modules";
+}
+
+function notifyChange(): void {
+  generation++;
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (error: unknown) {
+      logger.warn("[skill-index] change listener failed:", error);
+    }
+  }
+}
+
+function dropSkillDir(skillDir: string): void {
+  files.delete(join(skillDir, "SKILL.md"));
+}
+
+function closeWatchers(indexed: IndexedDir): void {
+  indexed.watcher?.close();
+  indexed.watcher = null;
+  for (const watcher of indexed.skillWatchers.values()) watcher.close();
+  indexed.skillWatchers.clear();
+}
+
+function watchSkillDir(dir: string, name: string, indexed: IndexedDir): void {
+  const skillDir = join(dir, name);
+  try {
+    const watcher = watch(skillDir, { persistent: false }, (event, filename) => {
+      if (!filename || filename.toString() === "SKILL.md") {
+        dropSkillDir(skillDir);
+        if (event === "rename") indexed.skillFiles = null;
+      }
+      notifyChange();
+    });
+    watcher.on("error", (error: unknown) => {
+      logger.debug(`[skill-index] watcher for ${skillDir} failed, falling back to polling:`, error);
+      watcher.close();
+      if (indexed.skillWatchers.get(name) === watcher) indexed.skillWatchers.delete(name);
+    });
+    indexed.skillWatchers.set(name, watcher);
+  } catch (error: unknown) {
+    logger.debug(`[skill-index] cannot watch ${skillDir}, falling back to polling:`, error);
+  }
+}
+
+/** Watch every real skill directory below `dir` and stop watching the ones that went away */
+function syncSkillDirWatchers(dir: string, indexed: IndexedDir): void {
+  const names = new Set<string>();
+  try {
+    for (const item of readdirSync(dir, { withFileTypes: true })) {
+      // Symlinked skills are revalidated by stat instead
+      if (item.isDirectory() && !isIgnoredEntry(item.name)) names.add(item.name);
+    }
+  } catch {
+    // The root watcher reports the directory going away
+  }
+  for (const [name, watcher] of indexed.skillWatchers) {
+    if (!names.has(name)) {
+      watcher.close();
+      indexed.skillWatchers.delete(name);
+    }
+  }
+  for (const name of names) {
+    if (!indexed.skillWatchers.has(name)) watchSkillDir(dir, name, indexed);
+  }
+}
+
+function startWatcher(dir: string, indexed: IndexedDir): void {
+  try {
+    const watcher = watch(dir, { persistent: false }, (event, filename) => {
+      if (!filename) {
+        indexed.skillFiles = null;
+        for (const path of files.keys()) {
+          if (dirname(dirname(path)) === dir) files.delete(path);
+        }
+        syncSkillDirWatchers(dir, indexed);
+        notifyChange();
+        return;
+      }
+
+      const name = filename.toString();
+      if (isIgnoredEntry(name)) return;
+
+      dropSkillDir(join(dir, name));
+      if (event === "rename") {
+        indexed.skillFiles = null;
+        syncSkillDirWatchers(dir, indexed);
+      }
+      notifyChange();
+    });
+    watcher.on("error", (error: unknown) => {
+      logger.debug(`[skill-index] watcher for ${dir} failed, falling back to polling:`, error);
+      closeWatchers(indexed);
+      indexed.skillFiles = null;
+    });
+    indexed.watcher = watcher;
+    syncSkillDirWatchers(dir, indexed);
+  } catch (error: unknown) {
+    logger.debug(`[skill-index] cannot watch ${dir}, falling back to polling:`, error);
+    closeWatchers(indexed);
+  }
+}
+
+function scanSkillFiles(dir: string): string[] {
+  const skillFiles: string[] = [];
+
+  try {
+    const items = readdirSync(dir, { withFileTypes: true });
+
+    for (const item of items) {
+      if (isIgnoredEntry(item.name)) {
+        continue;
+      }
+
+      let isDirectory = item.isDirectory();
+      const isSymlink = item.isSymbolicLink();
+
+      if (isSymlink) {
+        try {
+          const stats = statSync(join(dir, item.name));
+          isDirectory = stats.isDirectory();
+        } catch {
+          continue;
+        }
+      }
+
+      if (isDirectory) {
+        const skillFile = join(dir, item.name, "SKILL.md");
+        if (existsSync(skillFile)) {
+          skillFiles.push(skillFile);
+        }
+      }
+    }
+  } catch (error: unknown) {
+    logger.warn(`Failed to load skills from ${dir}:`, error);
+  }
+
+  return skillFiles;
+}
+
+/** List the SKILL.md files directly below a source directory, using the cached listing when it is still valid */
+export function listSkillFiles(dir: string): string[] {
+  if (!existsSync(dir)) {
+    const stale = dirs.get(dir);
+    if (stale) {
+      closeWatchers(stale);
+      dirs.delete(dir);
+    }
+    return [];
+  }
+
+  let indexed = dirs.get(dir);
+  if (!indexed) {
+    indexed = { skillFiles: null, watcher: null, skillWatchers: new Map() };
+    dirs.set(dir, indexed);
+    startWatcher(dir, indexed);
+  }
+
+  if (indexed.skillFiles && indexed.watcher) {
+    return indexed.skillFiles;
+  }
+
+  if (indexed.watcher) syncSkillDirWatchers(dir, indexed);
+  indexed.skillFiles = scanSkillFiles(dir);
+  return indexed.skillFiles;
+}
+
+/** Return the indexed entry for a SKILL.md file, re-reading and re-parsing only when it changed */
+export function loadIndexedSkillFile(filePath: string, source: string, parse: SkillFileParser): IndexedSkillFile {
+  const cached = files.get(filePath);
+  if (cached && cached.source === source && isWatched(cached)) {
+    return cached;
+  }
+
+  const stats = statSync(filePath);
+  if (cached && cached.source === source && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached;
+  }
+
+  const content = readFileSync(filePath, "utf-8");
+  const hash = createHash("sha256").update(content).digest("hex");
+  if (cached && cached.source === source && cached.hash === hash) {
+    cached.mtimeMs = stats.mtimeMs;
+    cached.size = stats.size;
+    return cached;
+  }
+
+  let realPath: string;
+  let linked: boolean;
+  try {
+    realPath = realpathSync(filePath);
+    linked = lstatSync(dirname(filePath)).isSymbolicLink();
+  } catch {
+    realPath = filePath;
+    linked = true;
+  }
+
+  const { entry, warnings } = parse(filePath, content, source, hash);
+  const indexed: IndexedSkillFile = {
+    path: filePath,
+    realPath,
+    linked,
+    source,
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+    hash,
+    entry,
+    warnings,
+  };
+  files.set(filePath, indexed);
+  return indexed;
+}
+
+/**
+ * Drop a single skill from the index. Directory listings are rebuilt on the
+ * next lookup so newly created or removed skill directories are picked up
+ * without waiting for the watcher.
+ */
+export function invalidateSkillIndex(name: string): void {
+  for (const [path, indexed] of files) {
+    if (indexed.entry?.skill.name === name || basename(dirname(path)) === name) {
+      files.delete(path);
+    }
+  }
+  for (const indexed of dirs.values()) {
+    indexed.skillFiles = null;
+  }
+  notifyChange();
+}
+
+/** Drop every cached entry and listing; watchers stay active */
+export function refreshSkillIndex(): void {
+  files.clear();
+  for (const indexed of dirs.values()) {
+    indexed.skillFiles = null;
+  }
+  notifyChange();
+}
+
+/** Close all watchers and clear the index (plugin shutdown / tests) */
+export function closeSkillIndex(): void {
+  for (const indexed of dirs.values()) {
+    closeWatchers(indexed);
+  }
+  dirs.clear();
+  files.clear();
+  listeners.clear();
+}
+
+/** Subscribe to index invalidations. Returns an unsubscribe function. */
+export function onSkillIndexChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Monotonic counter bumped on every invalidation, for callers that memoize derived data */
+export function getSkillIndexGeneration(): number {
+  return generation;
+}
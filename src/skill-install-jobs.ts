@@ -0,0 +1,314 @@
+/**
+ * Background skill install jobs.
+ *
+ * Installs, updates and manifest syncs run one at a time off the request
+ * path: a job is queued, runs with its output captured and a timeout, and
+ * ends succeeded, failed or cancelled. Jobs live in memory only; the most
+ * recent finished jobs are kept for status queries.
+ */
+
+import { randomUUID } from "node:crypto";
+import { DEFAULT_INSTALL_TIMEOUT_SECONDS } from "./config.js";
+import { logger } from "./logger.js";
+import { type SkillErrorCode, skillErrorCode } from "./skill-errors.js";
+import { applySkillSync, planSkillSync, type SkillSyncPlan, type SkillSyncResult } from "./skill-manifest.js";
+import type { OutputStream } from "./skill-process.js";
+import { isSkillCollectionSource } from "./skill-source.js";
+import { checkSkillUpdate, type SkillUpdateCheck, type SkillUpdateResult, updateSkill } from "./skill-update.js";
+import { installSkillCollection, installSkillFromSource, readInstallRecord, type Skill } from "./skills.js";
+
+export type InstallJobState = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type InstallJobKind = "install" | "update" | "sync";
+
+export interface InstallJobRequest {
+  source: string;
+  name?: string;
+  /** Recorded as the skill's installedBy */
+  installedBy?: string;
+  /** Symlink a local directory source instead of copying it */
+  link?: boolean;
+  /** Install every skill under the source path; implied by a `.../*` source */
+  all?: boolean;
+  /** Globs selecting which skills of a collection to install */
+  include?: string[];
+  /** Globs for skills of a collection to skip */
+  ignore?: string[];
+}
+
+export interface UpdateJobRequest {
+  /** Only check whether an update is available */
+  check?: boolean;
+  /** Overwrite local modifications */
+  force?: boolean;
+  installedBy?: string;
+}
+
+export interface SyncJobRequest {
+  /** Remove managed skills that are not in the manifest */
+  prune?: boolean;
+  installedBy?: string;
+}
+
+export interface InstallJob
+  extends Omit<InstallJobRequest, "source">,
+    Omit<UpdateJobRequest, "installedBy">,
+    SyncJobRequest {
+  id: string;
+  kind: InstallJobKind;
+  /** Install source; absent for update and sync jobs */
+  source?: string;
+  state: InstallJobState;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Name of the installed skill once the job succeeded */
+  skill?: string;
+  /** Names of the installed skills, for collection installs */
+  skills?: string[];
+  /** Commit SHA that was installed */
+  commit?: string;
+  /** Outcome of an update job */
+  update?: SkillUpdateResult;
+  /** Outcome of an update job run with `check` */
+  updateCheck?: SkillUpdateCheck;
+  /** What a sync job planned, and what applying the plan did */
+  sync?: { plan: SkillSyncPlan; result: SkillSyncResult };
+  error?: string;
+  /** Kind of failure, for errors that carry one */
+  errorCode?: SkillErrorCode;
+  stdout: string;
+  stderr: string;
+}
+
+const DEFAULT_INSTALL_TIMEOUT_MS = DEFAULT_INSTALL_TIMEOUT_SECONDS * 1000;
+const MAX_OUTPUT_CHARS = 64 * 1024;
+const MAX_FINISHED_JOBS = 50;
+
+interface JobRunOptions {
+  signal: AbortSignal;
+  installedBy?: string;
+  onOutput: (stream: OutputStream, chunk: string) => void;
+}
+
+interface JobEntry {
+  job: InstallJob;
+  /** Does the work, filling in the job's results, and returns a line for the log */
+  run: (job: InstallJob, options: JobRunOptions) => Promise<string>;
+  controller: AbortController;
+  done: Promise<void>;
+  finish: () => void;
+}
+
+const jobs = new Map<string, JobEntry>();
+const queue: string[] = [];
+let running = false;
+let timeoutMs = DEFAULT_INSTALL_TIMEOUT_MS;
+
+const LABELS: Record<InstallJobKind, string> = { install: "Install", update: "Update", sync: "Sync" };
+
+function isFinished(state: InstallJobState): boolean {
+  return state === "succeeded" || state === "failed" || state === "cancelled";
+}
+
+function snapshot(job: InstallJob): InstallJob {
+  return { ...job };
+}
+
+function appendOutput(job: InstallJob, stream: OutputStream, chunk: string): void {
+  const output = job[stream] + chunk;
+  job[stream] = output.length > MAX_OUTPUT_CHARS ? output.slice(-MAX_OUTPUT_CHARS) : output;
+}
+
+function settle(entry: JobEntry, state: InstallJobState, error?: string, errorCode?: SkillErrorCode): void {
+  entry.job.state = state;
+  entry.job.finishedAt = new Date().toISOString();
+  if (error) entry.job.error = error;
+  if (errorCode) entry.job.errorCode = errorCode;
+  entry.finish();
+  pruneFinishedJobs();
+}
+
+function pruneFinishedJobs(): void {
+  const finished = [...jobs.values()].filter((e) => isFinished(e.job.state));
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(entry.job.id);
+  }
+}
+
+async function runJob(entry: JobEntry): Promise<void> {
+  const { job, controller } = entry;
+  const label = LABELS[job.kind];
+  job.state = "running";
+  job.startedAt = new Date().toISOString();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`)),
+    timeoutMs,
+  );
+
+  try {
+    const summary = await entry.run(job, {
+      signal: controller.signal,
+      installedBy: job.installedBy,
+      onOutput: (stream, chunk) => appendOutput(job, stream, chunk),
+    });
+    settle(entry, "succeeded");
+    logger.info(`[skills] ${label} job ${job.id} ${summary}`);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    const cancelled = controller.signal.aborted && !(controller.signal.reason instanceof Error);
+    settle(entry, cancelled ? "cancelled" : "failed", cancelled ? undefined : message, skillErrorCode(err));
+    if (!cancelled) logger.warn(`[skills] ${label} job ${job.id} failed: ${message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function drainQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    for (let id = queue.shift(); id; id = queue.shift()) {
+      const entry = jobs.get(id);
+      if (entry?.job.state === "queued") await runJob(entry);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/** Set the per-job timeout */
+export function configureInstallJobs(options: { timeoutMs?: number }): void {
+  timeoutMs = options.timeoutMs && options.timeoutMs > 0 ? options.timeoutMs : DEFAULT_INSTALL_TIMEOUT_MS;
+}
+
+function enqueue(
+  fields: Omit<InstallJob, "id" | "state" | "createdAt" | "stdout" | "stderr">,
+  run: JobEntry["run"],
+): InstallJob {
+  let finish = () => {};
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  const job: InstallJob = {
+    id: randomUUID(),
+    ...fields,
+    state: "queued",
+    createdAt: new Date().toISOString(),
+    stdout: "",
+    stderr: "",
+  };
+  jobs.set(job.id, { job, run, controller: new AbortController(), done, finish });
+  queue.push(job.id);
+  const queued = snapshot(job);
+  void drainQueue();
+  return queued;
+}
+
+/** Queue an install and return immediately */
+export function startInstallJob(request: InstallJobRequest): InstallJob {
+  const fields = {
+    kind: "install" as const,
+    source: request.source,
+    ...(request.name ? { name: request.name } : {}),
+    ...(request.installedBy ? { installedBy: request.installedBy } : {}),
+    ...(request.link ? { link: true } : {}),
+    ...(request.all ? { all: true } : {}),
+    ...(request.include?.length ? { include: request.include } : {}),
+    ...(request.ignore?.length ? { ignore: request.ignore } : {}),
+  };
+  return enqueue(fields, async (job, options) => {
+    let installed: Skill;
+    if (request.all || isSkillCollectionSource(request.source)) {
+      const skills = await installSkillCollection(request.source, {
+        ...options,
+        include: request.include,
+        ignore: request.ignore,
+      });
+      job.skills = skills.map((s) => s.name);
+      installed = skills[0];
+    } else {
+      installed = await installSkillFromSource(request.source, request.name, { ...options, link: request.link });
+      job.skill = installed.name;
+    }
+    job.commit = readInstallRecord(installed)?.commit;
+    return `installed "${(job.skills ?? [installed.name]).join('", "')}"`;
+  });
+}
+
+/** Queue an update (or, with `check`, an update check) of an installed skill */
+export function startUpdateJob(name: string, request: UpdateJobRequest = {}): InstallJob {
+  const fields = {
+    kind: "update" as const,
+    name,
+    ...(request.installedBy ? { installedBy: request.installedBy } : {}),
+    ...(request.check ? { check: true } : {}),
+    ...(request.force ? { force: true } : {}),
+  };
+  return enqueue(fields, async (job, options) => {
+    if (request.check) {
+      job.updateCheck = await checkSkillUpdate(name, options);
+      return `checked "${name}"`;
+    }
+    job.update = await updateSkill(name, { ...options, force: request.force });
+    return job.update.updated ? `updated "${name}"` : `found "${name}" up to date`;
+  });
+}
+
+/** Queue a sync with the workspace manifest; the plan is made when the job runs */
+export function startSyncJob(request: SyncJobRequest = {}): InstallJob {
+  const fields = {
+    kind: "sync" as const,
+    ...(request.installedBy ? { installedBy: request.installedBy } : {}),
+    ...(request.prune ? { prune: true } : {}),
+  };
+  return enqueue(fields, async (job, options) => {
+    const plan = await planSkillSync({ prune: request.prune });
+    job.sync = { plan, result: await applySkillSync(plan, options) };
+    return `applied ${job.sync.result.applied.length} change(s) with ${job.sync.result.errors.length} error(s)`;
+  });
+}
+export function getInstallJob(id: string): InstallJob | null {
+  const entry = jobs.get(id);
+  return entry ? snapshot(entry.job) : null;
+}
+
+/** Jobs newest first */
+export function listInstallJobs(): InstallJob[] {
+  return [...jobs.values()].map((e) => snapshot(e.job)).reverse();
+}
+
+/**
+ * Cancel a queued or running job. Running jobs have their process killed and
+ * end as cancelled once it exits. Returns null for unknown jobs; finished jobs
+ * are returned unchanged.
+ */
+export function cancelInstallJob(id: string): InstallJob | null {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  if (entry.job.state === "queued") {
+    settle(entry, "cancelled");
+  } else if (entry.job.state === "running") {
+    entry.controller.abort("cancelled");
+  }
+  return snapshot(entry.job);
+}
+
+/** Resolves with the job once it has finished */
+export async function waitForInstallJob(id: string): Promise<InstallJob | null> {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  await entry.done;
+  return snapshot(entry.job);
+}
+
+/** Cancel every unfinished job and forget all jobs (plugin shutdown / tests) */
+export function resetInstallJobs(): void {
+  for (const entry of jobs.values()) {
+    if (entry.job.state === "queued") settle(entry, "cancelled");
+    else if (entry.job.state === "running") entry.controller.abort("cancelled");
+  }
+  jobs.clear();
+  queue.length = 0;
+  timeoutMs = DEFAULT_INSTALL_TIMEOUT_MS;
+}
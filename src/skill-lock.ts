@@ -0,0 +1,204 @@
+/**
+ * Team lockfile for reproducible skill sets.
+ *
+ * `.wopr/skills.lock` in the workspace lists every skill installed from a
+ * source with the source spec, the commit it resolved to (for git sources)
+ * and the content hash of what was installed. `wopr skill lock` writes it from the recorded
+ * provenance, `wopr skill install --frozen` reproduces it, and `wopr skill lock
+ * --check` reports where the managed skills directory drifts from it. Hashing
+ * every locked skill is too slow for the prompt path, so discovery only shows
+ * the result of the last check, which a debounced background task refreshes
+ * when the skill index changes.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { logger } from "./logger.js";
+import { INSTALL_RECORD_FILE, SKILLS_DIR, SKILLS_LOCK_FILE } from "./paths.js";
+import type { SkillValidationWarning } from "./skill-frontmatter-parser.js";
+import { hashSkillDirectory } from "./skill-hash.js";
+import { onSkillIndexChange } from "./skill-index.js";
+import { isArchiveSkillSource, isLocalSkillSource } from "./skill-source.js";
+import { getAllSkillStates } from "./skills-repository.js";
+
+export interface SkillLockEntry {
+  /** Source spec as installed, including any `@ref` */
+  source: string;
+  /** Commit SHA a git source resolved to; absent for archives */
+  commit?: string;
+  /** Hash of the installed directory ("sha256:<hex>") */
+  contentHash: string;
+}
+
+export interface SkillLockfile {
+  lockfileVersion: 1;
+  skills: Record<string, SkillLockEntry>;
+}
+
+const DRIFT_CHECK_DEBOUNCE_MS = 2000;
+
+let lastDrift: { skillsDir: string; warnings: SkillValidationWarning[] } | null = null;
+let driftTimer: ReturnType<typeof setTimeout> | null = null;
+let scheduleDriftCheck: (() => void) | null = null;
+
+/** Read and validate a lockfile; null when it does not exist */
+export function readSkillLock(lockPath: string = SKILLS_LOCK_FILE): SkillLockfile | null {
+  if (!existsSync(lockPath)) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(lockPath, "utf-8"));
+  } catch (error: unknown) {
+    throw new Error(`Invalid skills.lock: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const lock = parsed as Partial<SkillLockfile> | null;
+  if (lock?.lockfileVersion !== 1 || typeof lock.skills !== "object" || lock.skills === null) {
+    throw new Error("Invalid skills.lock: expected lockfileVersion 1 and a skills object");
+  }
+  for (const [name, entry] of Object.entries(lock.skills)) {
+    if (
+      !/^[a-zA-Z0-9._-]+$/.test(name) ||
+      typeof entry?.source !== "string" ||
+      (entry.commit !== undefined && typeof entry.commit !== "string") ||
+      typeof entry.contentHash !== "string"
+    ) {
+      throw new Error(`Invalid skills.lock: bad entry for "${name}"`);
+    }
+  }
+  return lock as SkillLockfile;
+}
+
+/**
+ * Lock every installed skill that has a recorded source. The hash recorded at
+ * install time is used, so a locally modified skill still locks to what its
+ * source produces; such skills and skills without a source are reported.
+ */
+export async function writeSkillLock(
+  options: { lockPath?: string; skillsDir?: string } = {},
+): Promise<{ lock: SkillLockfile; warnings: string[] }> {
+  const { lockPath = SKILLS_LOCK_FILE, skillsDir = SKILLS_DIR } = options;
+  const states = await getAllSkillStates();
+  const lock: SkillLockfile = { lockfileVersion: 1, skills: {} };
+  const warnings: string[] = [];
+
+  for (const name of Object.keys(states).sort()) {
+    const dir = join(skillsDir, name);
+    if (!existsSync(dir)) continue;
+    const provenance = states[name].provenance;
+    const archive = provenance?.installSource ? isArchiveSkillSource(provenance.installSource) : false;
+    if (provenance?.installSource && isLocalSkillSource(provenance.installSource) && !archive) {
+      warnings.push(`${name}: installed from a local directory, not locked`);
+      continue;
+    }
+    if (!provenance?.installSource || (!provenance.installCommit && !archive)) {
+      warnings.push(`${name}: no recorded install source, not locked`);
+      continue;
+    }
+    const current = hashSkillDirectory(dir);
+    if (provenance.contentHash && provenance.contentHash !== current) {
+      warnings.push(`${name}: has local modifications, locked to its installed source`);
+    }
+    lock.skills[name] = {
+      source: provenance.installSource,
+      ...(provenance.installCommit ? { commit: provenance.installCommit } : {}),
+      contentHash: provenance.contentHash ?? current,
+    };
+  }
+
+  mkdirSync(dirname(lockPath), { recursive: true });
+  writeFileSync(lockPath, `${JSON.stringify(lock, null, 2)}\n`);
+  scheduleDriftCheck?.();
+  return { lock, warnings };
+}
+
+function computeLockDrift(lockPath: string, skillsDir: string): SkillValidationWarning[] {
+  let lock: SkillLockfile | null;
+  try {
+    lock = readSkillLock(lockPath);
+  } catch (error: unknown) {
+    return [{ skillPath: lockPath, message: error instanceof Error ? error.message : String(error) }];
+  }
+  if (!lock) return [];
+
+  const warnings: SkillValidationWarning[] = [];
+  for (const [name, entry] of Object.entries(lock.skills)) {
+    const dir = join(skillsDir, name);
+    if (!existsSync(dir)) {
+      warnings.push({ skillPath: lockPath, message: `"${name}" is in skills.lock but not installed` });
+      continue;
+    }
+    const current = hashSkillDirectory(dir);
+    if (current !== entry.contentHash) {
+      warnings.push({
+        skillPath: join(dir, "SKILL.md"),
+        message: `"${name}" differs from skills.lock (expected ${entry.contentHash}, found ${current})`,
+      });
+    }
+  }
+
+  const installed = existsSync(skillsDir) ? readdirSync(skillsDir, { withFileTypes: true }) : [];
+  for (const item of installed) {
+    if (item.name.startsWith(".") || lock.skills[item.name]) continue;
+    if (existsSync(join(skillsDir, item.name, INSTALL_RECORD_FILE))) {
+      warnings.push({
+        skillPath: join(skillsDir, item.name, "SKILL.md"),
+        message: `"${item.name}" is installed but not in skills.lock`,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Hash the managed skills against the lockfile and return the drift. The
+ * result is kept for getSkillLockDrift.
+ */
+export function checkSkillLockDrift(
+  skillsDir: string = SKILLS_DIR,
+  lockPath: string = SKILLS_LOCK_FILE,
+): SkillValidationWarning[] {
+  const warnings = computeLockDrift(lockPath, skillsDir);
+  lastDrift = { skillsDir, warnings };
+  return warnings;
+}
+
+/** Drift found by the last check of skillsDir, without hashing anything */
+export function getSkillLockDrift(skillsDir: string = SKILLS_DIR): SkillValidationWarning[] {
+  return lastDrift?.skillsDir === skillsDir ? lastDrift.warnings : [];
+}
+
+/**
+ * Check drift in the background shortly after startup and after the skill index
+ * changes or the lockfile is rewritten. Returns an unsubscribe function.
+ */
+export function watchSkillLockDrift(options: { lockPath?: string; skillsDir?: string } = {}): () => void {
+  const { lockPath = SKILLS_LOCK_FILE, skillsDir = SKILLS_DIR } = options;
+  const schedule = () => {
+    if (driftTimer) clearTimeout(driftTimer);
+    driftTimer = setTimeout(() => {
+      driftTimer = null;
+      try {
+        checkSkillLockDrift(skillsDir, lockPath);
+      } catch (error: unknown) {
+        logger.warn("[skills] Failed to check skills.lock drift:", error);
+      }
+    }, DRIFT_CHECK_DEBOUNCE_MS);
+    driftTimer.unref?.();
+  };
+  scheduleDriftCheck = schedule;
+  const unsubscribeIndex = onSkillIndexChange(schedule);
+  schedule();
+
+  return () => {
+    unsubscribeIndex();
+    if (scheduleDriftCheck === schedule) scheduleDriftCheck = null;
+    if (driftTimer) {
+      clearTimeout(driftTimer);
+      driftTimer = null;
+    }
+  };
+}
+
+/** Forget the last drift check (tests) */
+export function resetSkillLockDrift(): void {
+  lastDrift = null;
+}
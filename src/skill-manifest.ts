@@ -0,0 +1,251 @@
+/**
+ * Declarative workspace skill manifest.
+ *
+ * `.wopr/skills.json` declares the skills a project needs, by source spec or
+ * registry name, and whether each should be enabled:
+ *
+ *   {
+ *     "skills": {
+ *       "pdf": "github:owner/repo/skills/pdf@v1",
+ *       "docx": { "source": "github:owner/repo/skills/docx", "enabled": false },
+ *       "brand-voice": { "registry": "wopr-official" },
+ *       "slides": "wopr-official/slides@2.1.0"
+ *     }
+ *   }
+ *
+ * An entry without a source spec is looked up by name in the configured
+ * registries. Entry names are install names: they match the skill's directory
+ * under SKILLS_DIR, not its frontmatter name, which may differ. Syncing plans the changes first (installs, enable/disable and,
+ * optionally, removal of installed skills the manifest does not list) and
+ * then applies them.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { basename } from "node:path";
+import { SKILLS_MANIFEST_FILE } from "./paths.js";
+import { listRegistries } from "./registries-repository.js";
+import { fetchAllRegistries, findRegistrySkill, type RegistrySkillEntry } from "./registry-fetcher.js";
+import { skillError } from "./skill-errors.js";
+import {
+  isArchiveSkillSource,
+  isLocalSkillSource,
+  parseArchiveSkillSource,
+  parseLocalSkillSource,
+  parseRegistrySkillSpec,
+  parseSkillSource,
+} from "./skill-source.js";
+import {
+  disableSkillAsync,
+  discoverSkills,
+  enableSkillAsync,
+  type InstallOptions,
+  installSkillFromSource,
+  readAllSkillStatesAsync,
+  readInstallRecord,
+  removeSkill,
+  type Skill,
+} from "./skills.js";
+
+export interface SkillManifestEntry {
+  /** Source spec, or a registry name (`name`, `registry/name`, `name@version`); defaults to the entry name */
+  source?: string;
+  /** Only resolve the skill from this registry */
+  registry?: string;
+  /** Defaults to true */
+  enabled?: boolean;
+}
+
+export interface SkillManifest {
+  skills: Record<string, SkillManifestEntry>;
+}
+
+export type SkillSyncAction = "install" | "enable" | "disable" | "remove";
+
+export interface SkillSyncPlan {
+  install: Array<{ name: string; source: string; registry?: string; version?: string; sha256?: string }>;
+  enable: string[];
+  disable: string[];
+  remove: string[];
+  /** Manifest entries that could not be resolved */
+  errors: Array<{ name: string; error: string }>;
+}
+
+export interface SkillSyncResult {
+  applied: Array<{ action: SkillSyncAction; name: string }>;
+  errors: Array<{ action: SkillSyncAction; name: string; error: string }>;
+}
+
+const VALID_NAME = /^[a-zA-Z0-9._-]+$/;
+
+/** Read and validate a manifest; null when it does not exist */
+export function readSkillManifest(manifestPath: string = SKILLS_MANIFEST_FILE): SkillManifest | null {
+  if (!existsSync(manifestPath)) return null;
+  let parsed: { skills?: unknown };
+  try {
+    parsed = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  } catch (error: unknown) {
+    throw skillError("invalid", `Invalid skills.json: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed?.skills !== "object" || parsed.skills === null || Array.isArray(parsed.skills)) {
+    throw skillError("invalid", "Invalid skills.json: expected a skills object");
+  }
+
+  const skills: Record<string, SkillManifestEntry> = {};
+  for (const [name, raw] of Object.entries(parsed.skills as Record<string, unknown>)) {
+    const entry = (typeof raw === "string" ? { source: raw } : raw) as SkillManifestEntry | null;
+    if (
+      !VALID_NAME.test(name) ||
+      typeof entry !== "object" ||
+      entry === null ||
+      (entry.source !== undefined && typeof entry.source !== "string") ||
+      (entry.registry !== undefined && typeof entry.registry !== "string") ||
+      (entry.enabled !== undefined && typeof entry.enabled !== "boolean")
+    ) {
+      throw skillError("invalid", `Invalid skills.json: bad entry for "${name}"`);
+    }
+    skills[name] = entry;
+  }
+  return { skills };
+}
+
+function isSourceSpec(source: string): boolean {
+  return source.includes(":");
+}
+
+/** Installed managed skills by the directory they live in */
+function installedByDirectory(skills: Skill[]): Map<string, Skill> {
+  return new Map(skills.filter((s) => s.source === "managed").map((s) => [basename(s.baseDir), s]));
+}
+
+/** Work out what syncing the manifest would change, without changing anything */
+export async function planSkillSync(options: { manifestPath?: string; prune?: boolean } = {}): Promise<SkillSyncPlan> {
+  const manifest = readSkillManifest(options.manifestPath);
+  if (!manifest) {
+    throw skillError("not_found", "No .wopr/skills.json found");
+  }
+  const { skills } = discoverSkills();
+  const installed = installedByDirectory(skills);
+  const states = await readAllSkillStatesAsync();
+  const plan: SkillSyncPlan = { install: [], enable: [], disable: [], remove: [], errors: [] };
+
+  let registrySkills: RegistrySkillEntry[] | null = null;
+  const resolveFromRegistry = async (source: string, registry?: string) => {
+    if (!registrySkills) {
+      registrySkills = (await fetchAllRegistries(await listRegistries())).skills;
+    }
+    const spec = parseRegistrySkillSpec(source);
+    const entry = findRegistrySkill(registrySkills, spec.name, {
+      registry: spec.registry ?? registry,
+      version: spec.version,
+      hint: 'set "registry"',
+    });
+    return {
+      source: entry.source,
+      registry: entry.registry,
+      ...(entry.version ? { version: entry.version } : {}),
+      ...(entry.sha256 ? { sha256: entry.sha256 } : {}),
+    };
+  };
+
+  for (const name of Object.keys(manifest.skills).sort()) {
+    const entry = manifest.skills[name];
+    const enabled = entry.enabled !== false;
+
+    const skill = installed.get(name);
+    if (!skill) {
+      try {
+        const source = entry.source ?? name;
+        if (isArchiveSkillSource(source)) {
+          parseArchiveSkillSource(source);
+          plan.install.push({ name, source });
+        } else if (isLocalSkillSource(source)) {
+          parseLocalSkillSource(source);
+          plan.install.push({ name, source });
+        } else if (isSourceSpec(source)) {
+          parseSkillSource(source);
+          plan.install.push({ name, source });
+        } else {
+          plan.install.push({ name, ...(await resolveFromRegistry(source, entry.registry)) });
+        }
+      } catch (error: unknown) {
+        plan.errors.push({ name, error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      if (!enabled) plan.disable.push(name);
+      continue;
+    }
+
+    const current = states[skill.name]?.enabled !== false;
+    if (enabled && !current) plan.enable.push(name);
+    if (!enabled && current) plan.disable.push(name);
+  }
+
+  if (options.prune) {
+    for (const skill of skills) {
+      const dir = basename(skill.baseDir);
+      if (skill.source === "managed" && !manifest.skills[dir] && readInstallRecord(skill)) {
+        plan.remove.push(dir);
+      }
+    }
+  }
+  return plan;
+}
+
+/** True when the plan has nothing to do */
+export function isEmptySyncPlan(plan: SkillSyncPlan): boolean {
+  return plan.install.length + plan.enable.length + plan.disable.length + plan.remove.length === 0;
+}
+
+/**
+ * Apply a plan; failures are collected per action and do not stop the rest,
+ * but an aborted signal stops the sync before its next action.
+ * Enabled state is keyed by the skill's name, so toggles look it up from the
+ * install directory once installs are done.
+ */
+export async function applySkillSync(
+  plan: SkillSyncPlan,
+  options: Pick<InstallOptions, "installedBy" | "signal" | "onOutput"> = {},
+): Promise<SkillSyncResult> {
+  const result: SkillSyncResult = { applied: [], errors: [] };
+  const run = async (action: SkillSyncAction, name: string, fn: () => Promise<unknown> | unknown) => {
+    options.signal?.throwIfAborted();
+    try {
+      await fn();
+      result.applied.push({ action, name });
+      return true;
+    } catch (error: unknown) {
+      result.errors.push({ action, name, error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  };
+
+  const toggle = (setEnabled: (name: string) => Promise<boolean>, name: string) => async () => {
+    const skillName = installedByDirectory(discoverSkills().skills).get(name)?.name ?? name;
+    if (!(await setEnabled(skillName))) throw skillError("not_found", `Skill "${name}" not found`);
+  };
+
+  const failedInstalls = new Set<string>();
+  for (const { name, source, registry, version, sha256 } of plan.install) {
+    const ok = await run("install", name, () =>
+      installSkillFromSource(source, name, {
+        installedBy: options.installedBy,
+        signal: options.signal,
+        onOutput: options.onOutput,
+        registry,
+        version,
+        sha256,
+      }),
+    );
+    if (!ok) failedInstalls.add(name);
+  }
+  for (const name of plan.enable) {
+    await run("enable", name, toggle(enableSkillAsync, name));
+  }
+  for (const name of plan.disable) {
+    if (!failedInstalls.has(name)) await run("disable", name, toggle(disableSkillAsync, name));
+  }
+  for (const name of plan.remove) {
+    await run("remove", name, () => removeSkill(name));
+  }
+  return result;
+}
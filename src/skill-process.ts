@@ -0,0 +1,94 @@
+/**
+ * Async child processes for skill installs.
+ *
+ * Installs used to shell out with execFileSync, which blocked the daemon's
+ * event loop for the whole clone or package install. runCommand spawns the
+ * process instead, captures its output and kills it when the signal aborts:
+ * SIGTERM first, SIGKILL if it is still running after a grace period. The
+ * promise only settles once the process has exited, so callers can clean up
+ * its working directory without it still writing there.
+ */
+
+import { spawn } from "node:child_process";
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface RunCommandOptions {
+  cwd?: string;
+  /** Aborting kills the process and rejects with the abort reason once it has exited */
+  signal?: AbortSignal;
+  /** How long a process may take to exit after SIGTERM before it gets SIGKILL */
+  killGraceMs?: number;
+  /** Called with every chunk of output as it arrives */
+  onOutput?: (stream: OutputStream, chunk: string) => void;
+}
+
+export interface RunCommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+const ERROR_OUTPUT_CHARS = 500;
+const DEFAULT_KILL_GRACE_MS = 5000;
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error("Command cancelled");
+}
+
+/** Run a command without a shell. Rejects when it cannot start, exits non-zero or is aborted. */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunCommandOptions = {},
+): Promise<RunCommandResult> {
+  const { signal, onOutput } = options;
+  if (signal?.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd, stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let settled = false;
+    let aborted: Error | null = null;
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(killTimer);
+      signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve({ stdout, stderr });
+    };
+    // Settles from the close handler, once the process is gone
+    const onAbort = () => {
+      aborted = abortError(signal as AbortSignal);
+      child.kill("SIGTERM");
+      killTimer = setTimeout(() => child.kill("SIGKILL"), options.killGraceMs ?? DEFAULT_KILL_GRACE_MS);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    child.stdout.setEncoding("utf-8").on("data", (chunk: string) => {
+      stdout += chunk;
+      onOutput?.("stdout", chunk);
+    });
+    child.stderr.setEncoding("utf-8").on("data", (chunk: string) => {
+      stderr += chunk;
+      onOutput?.("stderr", chunk);
+    });
+    child.on("error", (error) => finish(error));
+    child.on("close", (code, exitSignal) => {
+      if (aborted) {
+        finish(aborted);
+        return;
+      }
+      if (code === 0) {
+        finish();
+        return;
+      }
+      const status = code === null ? `was killed by ${exitSignal}` : `exited with code ${code}`;
+      const detail = stderr.trim().slice(-ERROR_OUTPUT_CHARS);
+      finish(new Error(`${command} ${status}${detail ? `: ${detail}` : ""}`));
+    });
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Local lexical relevance ranking for skills (BM25 over name, description and
+ * tags). Runs fully offline; used by the context provider's "relevance"
+ * selection mode and the skills.search A2A tool.
+ */
+
+import type { Skill } from "./skills.js";
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** Field weights are applied by repeating a field's terms in the document */
+const NAME_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "can",
+  "do",
+  "for",
+  "from",
+  "how",
+  "i",
+  "in",
+  "is",
+  "it",
+  "me",
+  "my",
+  "of",
+  "on",
+  "or",
+  "please",
+  "should",
+  "that",
+  "the",
+  "this",
+  "to",
+  "use",
+  "when",
+  "with",
+  "you",
+]);
+
+export interface ScoredSkill {
+  skill: Skill;
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function skillTerms(skill: Skill): string[] {
+  const name = tokenize(skill.name);
+  const tags = (skill.metadata?.tags ?? []).flatMap((t) => tokenize(t));
+  return [
+    ...Array.from({ length: NAME_WEIGHT }, () => name).flat(),
+    ...Array.from({ length: TAG_WEIGHT }, () => tags).flat(),
+    ...tokenize(skill.description),
+  ];
+}
+
+/** Score skills against a query with BM25; only skills with a positive score are returned, best first */
+export function scoreSkills(skills: Skill[], query: string): ScoredSkill[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || skills.length === 0) return [];
+
+  const docs = skills.map((skill) => {
+    const terms = skillTerms(skill);
+    const freq = new Map<string, number>();
+    for (const term of terms) freq.set(term, (freq.get(term) ?? 0) + 1);
+    return { skill, length: terms.length, freq };
+  });
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const docFreq = new Map<string, number>();
+  for (const term of queryTerms) {
+    docFreq.set(term, docs.filter((d) => d.freq.has(term)).length);
+  }
+
+  const scored: ScoredSkill[] = [];
+  for (const doc of docs) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.freq.get(term);
+      if (!tf) continue;
+      const n = docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+      score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / avgLength));
+    }
+    if (score > 0) scored.push({ skill: doc.skill, score });
+  }
+
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the skills to inject for a message: every pinned skill plus the top-K
+ * most relevant ones. An empty or stopword-only message selects nothing but
+ * the pinned skills.
+ */
+export function selectRelevantSkills(
+  skills: Skill[],
+  query: string,
+  topK: number,
+  pinnedSkills: string[] = [],
+): Skill[] {
+  const pinned = new Set(pinnedSkills);
+  const selected = new Set(skills.filter((s) => pinned.has(s.name)));
+
+  for (const { skill } of scoreSkills(skills, query).slice(0, topK)) {
+    selected.add(skill);
+  }
+
+  return skills.filter((s) => selected.has(s));
+}
@@ -0,0 +1,151 @@
+/**
+ * Skills prompt renderers.
+ *
+ * The context provider renders the selected skills with a named renderer:
+ * built-in "xml" (the original <available_skills> block), "markdown" (a
+ * table) and "json" (compact). Other plugins can add their own through the
+ * `skills` extension. The format is chosen per session override, then plugin
+ * config, then "xml".
+ */
+
+import { DEFAULT_PROMPT_FORMAT } from "./config.js";
+import { logger } from "./logger.js";
+import { sanitizeSkillText } from "./skill-sanitize.js";
+import { type FormatSkillsOptions, formatSkillsTrailer, formatSkillsXml, type Skill } from "./skills.js";
+
+export interface SkillsRenderer {
+  name: string;
+  render(skills: Skill[], options: FormatSkillsOptions): string;
+}
+
+function markdownCell(text: string): string {
+  return sanitizeSkillText(text).text.replace(/\r?\n/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+const builtinRenderers: SkillsRenderer[] = [
+  { name: "xml", render: (skills, options) => formatSkillsXml(skills, options) },
+  {
+    name: "markdown",
+    render(skills, options) {
+      if (skills.length === 0) return "";
+      const rows = skills.map((s) => {
+        const emoji = s.metadata?.emoji ? `${s.metadata.emoji} ` : "";
+        return `| ${markdownCell(s.name)} | ${markdownCell(emoji + s.description)} | \`${markdownCell(s.path).replace(/`/g, "")}\` |`;
+      });
+      return `
+## Available skills
+
+| Skill | Description | Location |
+| --- | --- | --- |
+${rows.join("\n")}
+
+${formatSkillsTrailer(skills.length, options)}`;
+    },
+  },
+  {
+    name: "json",
+    render(skills, options) {
+      if (skills.length === 0) return "";
+      const list = skills.map((s) => ({
+        name: sanitizeSkillText(s.name).text,
+        description: sanitizeSkillText(s.description).text,
+        location: sanitizeSkillText(s.path).text,
+      }));
+      return `
+available_skills: ${JSON.stringify(list)}
+
+${formatSkillsTrailer(skills.length, options)}`;
+    },
+  },
+];
+
+const renderers = new Map<string, SkillsRenderer>(builtinRenderers.map((r) => [r.name, r]));
+const sessionFormats = new Map<string, string>();
+/** Unknown formats already warned about, so a misconfigured format warns once, not on every turn */
+const warnedFormats = new Set<string>();
+
+/** Register a renderer (replacing one with the same name). Returns an unregister function. */
+export function registerSkillsRenderer(renderer: SkillsRenderer): () => void {
+  if (!renderer?.name || typeof renderer.render !== "function") {
+    throw new Error("A skills renderer needs a name and a render function");
+  }
+  const previous = renderers.get(renderer.name);
+  renderers.set(renderer.name, renderer);
+  warnedFormats.delete(renderer.name);
+  logger.debug(`[skills] Registered prompt renderer "${renderer.name}"`);
+
+  return () => {
+    if (renderers.get(renderer.name) !== renderer) return;
+    const builtin = builtinRenderers.find((r) => r.name === renderer.name);
+    if (previous) renderers.set(renderer.name, previous);
+    else if (builtin) renderers.set(renderer.name, builtin);
+    else renderers.delete(renderer.name);
+  };
+}
+
+export function listSkillsRenderers(): string[] {
+  return [...renderers.keys()];
+}
+
+/** Override the prompt format for one session; pass null to clear the override */
+export function setSessionPromptFormat(session: string, format: string | null): void {
+  if (format) sessionFormats.set(session, format);
+  else sessionFormats.delete(session);
+}
+
+/** Session override, then the configured per-session format, then the configured default */
+export function resolvePromptFormat(
+  session: string | undefined,
+  config: { promptFormat: string; sessionPromptFormats: Record<string, string> },
+): string {
+  if (session) {
+    const override = sessionFormats.get(session) ?? config.sessionPromptFormats[session];
+    if (override) return override;
+  }
+  return config.promptFormat;
+}
+
+/**
+ * Resolve a format to a renderer once per turn, before budgeting renders it
+ * repeatedly. Unknown formats fall back to XML with a single warning per
+ * format name; a renderer that throws falls back to XML for the rest of the
+ * turn, warning once.
+ */
+export function resolveSkillsRenderer(format: string): SkillsRenderer {
+  const renderer = renderers.get(format);
+  if (!renderer) {
+    if (!warnedFormats.has(format)) {
+      warnedFormats.add(format);
+      logger.warn(`[skills] Unknown prompt format "${format}", using ${DEFAULT_PROMPT_FORMAT}`);
+    }
+    return { name: DEFAULT_PROMPT_FORMAT, render: formatSkillsXml };
+  }
+  let failed = false;
+  return {
+    name: renderer.name,
+    render(skills, options) {
+      if (!failed) {
+        try {
+          return renderer.render(skills, options);
+        } catch (error: unknown) {
+          failed = true;
+          logger.warn(`[skills] Prompt renderer "${format}" failed, using ${DEFAULT_PROMPT_FORMAT}:`, error);
+        }
+      }
+      return formatSkillsXml(skills, options);
+    },
+  };
+}
+
+/** Render with the named renderer, falling back to XML when it is unknown or throws */
+export function renderSkillsPrompt(skills: Skill[], format: string, options: FormatSkillsOptions = {}): string {
+  return resolveSkillsRenderer(format).render(skills, options);
+}
+
+/** Restore the built-in renderers and clear session overrides (plugin shutdown / tests) */
+export function resetSkillsRenderers(): void {
+  renderers.clear();
+  for (const renderer of builtinRenderers) renderers.set(renderer.name, renderer);
+  sessionFormats.clear();
+  warnedFormats.clear();
+}
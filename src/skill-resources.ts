@@ -0,0 +1,125 @@
+/**
+ * Read access to a skill's SKILL.md body and bundled files (scripts/,
+ * references/, assets/, ...) for agents without file-system access.
+ *
+ * Every path is resolved against the skill's baseDir and checked after
+ * resolving symlinks, so a request can never read outside the skill directory.
+ * Dot-files and dot-directories (the install record, `.git`) are neither
+ * listed nor readable.
+ */
+
+import { lstatSync, readdirSync, readFileSync, realpathSync, statSync } from "node:fs";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { parseSkillFrontmatter } from "./skill-frontmatter-parser.js";
+import type { Skill } from "./skills.js";
+
+/** Resource files larger than this are refused */
+export const MAX_RESOURCE_BYTES = 256 * 1024;
+const MAX_LISTED_FILES = 200;
+const MAX_LIST_DEPTH = 4;
+
+export interface SkillResourceFile {
+  path: string;
+  size: number;
+}
+
+export interface SkillResourceContent {
+  path: string;
+  size: number;
+  encoding: "utf-8" | "base64";
+  content: string;
+}
+
+function isInside(root: string, target: string): boolean {
+  return target === root || target.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+function hasDotSegment(path: string): boolean {
+  return path.split(/[\\/]/).some((segment) => segment.startsWith("."));
+}
+
+/** SKILL.md content without its frontmatter */
+export function readSkillBody(skill: Skill): string {
+  const { body } = parseSkillFrontmatter(readFileSync(skill.path, "utf-8"));
+  return body.trim();
+}
+
+/** Files bundled with a skill, as paths relative to its baseDir (SKILL.md itself excluded) */
+export function listSkillResources(skill: Skill): { files: SkillResourceFile[]; truncated: boolean } {
+  const root = realpathSync(skill.baseDir);
+  const files: SkillResourceFile[] = [];
+  let truncated = false;
+
+  const walk = (dir: string, depth: number) => {
+    let items: string[];
+    try {
+      items = readdirSync(dir).sort();
+    } catch {
+      return;
+    }
+    for (const item of items) {
+      if (item.startsWith(".") || item === "node_modules") continue;
+      if (files.length >= MAX_LISTED_FILES) {
+        truncated = true;
+        return;
+      }
+      const full = join(dir, item);
+      let real: string;
+      try {
+        real = realpathSync(full);
+      } catch {
+        continue;
+      }
+      if (!isInside(root, real)) continue;
+
+      const stats = statSync(real);
+      if (stats.isDirectory()) {
+        if (depth < MAX_LIST_DEPTH && !lstatSync(full).isSymbolicLink()) walk(full, depth + 1);
+      } else if (stats.isFile()) {
+        const rel = relative(skill.baseDir, full).split(sep).join("/");
+        if (rel !== "SKILL.md") files.push({ path: rel, size: stats.size });
+      }
+    }
+  };
+
+  walk(skill.baseDir, 0);
+  return { files, truncated };
+}
+
+/**
+ * Read one bundled file by path relative to the skill's baseDir. Text files
+ * are returned as UTF-8, anything containing NUL bytes as base64.
+ */
+export function readSkillResource(skill: Skill, relPath: string): SkillResourceContent {
+  if (!relPath || isAbsolute(relPath) || hasDotSegment(relPath)) {
+    throw new Error(`Invalid resource path: ${relPath}`);
+  }
+
+  const root = realpathSync(skill.baseDir);
+  let real: string;
+  try {
+    real = realpathSync(resolve(skill.baseDir, relPath));
+  } catch {
+    throw new Error(`Resource not found: ${relPath}`);
+  }
+  if (!isInside(root, real) || real === root || hasDotSegment(relative(root, real))) {
+    throw new Error(`Invalid resource path: ${relPath}`);
+  }
+
+  const stats = statSync(real);
+  if (!stats.isFile()) {
+    throw new Error(`Resource not found: ${relPath}`);
+  }
+  if (stats.size > MAX_RESOURCE_BYTES) {
+    throw new Error(`Resource too large: ${relPath} (${stats.size} bytes, limit ${MAX_RESOURCE_BYTES})`);
+  }
+
+  const data = readFileSync(real);
+  const binary = data.includes(0);
+  return {
+    path: relPath,
+    size: stats.size,
+    encoding: binary ? "base64" : "utf-8",
+    content: binary ? data.toString("base64") : data.toString("utf-8"),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Sanitizing skill text before it reaches the system prompt.
+ *
+ * Skill names, descriptions and paths come from files that may have been
+ * installed from a registry, so they are treated as untrusted: terminal
+ * control sequences and invisible direction/zero-width characters are
+ * stripped, XML metacharacters are escaped, and instruction-like content is
+ * flagged so discovery can quarantine the skill until it is approved.
+ */
+
+// Control characters are spliced in with String.fromCharCode so the patterns hold no control-character literals
+const ESC = String.fromCharCode(0x1b);
+const BEL = String.fromCharCode(0x07);
+const charRange = (from: number, to: number) => `${String.fromCharCode(from)}-${String.fromCharCode(to)}`;
+
+// ANSI CSI / OSC sequences, then any remaining C0/C1 control characters except tab and newline
+const ANSI_PATTERN = new RegExp(
+  `${ESC}\\[[0-?]*[ -/]*[@-~]|${ESC}\\][^${BEL}${ESC}]*(?:${BEL}|${ESC}\\\\)|${ESC}[@-_]`,
+  "g",
+);
+const CONTROL_PATTERN = new RegExp(`[${charRange(0x00, 0x08)}${charRange(0x0b, 0x1f)}${charRange(0x7f, 0x9f)}]`, "g");
+// Bidi overrides/isolates and zero-width characters that can hide or reorder text
+const INVISIBLE_PATTERN = /[\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/g;
+
+const SUSPICIOUS_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  {
+    pattern: /<\/?\s*(available_skills|skill|name|description|location|system|instructions?)\s*>/i,
+    reason: "prompt markup tag",
+  },
+  { pattern: /<\|\s*(im_start|im_end|system|user|assistant|endoftext)\s*\|>/i, reason: "chat template token" },
+  { pattern: /\[\/?(INST|SYS)\]|<<\/?SYS>>/, reason: "chat template token" },
+  { pattern: /(^|\n)\s*(#+\s*)?(system|assistant|human|user|developer)\s*:/i, reason: "role marker" },
+  {
+    pattern:
+      /\b(ignore|disregard|forget)\b.{0,40}\b(previous|prior|above|earlier|all)\b.{0,40}\b(instructions?|rules|prompts?)\b/i,
+    reason: "instruction override",
+  },
+  { pattern: /\byou are now\b|\bnew instructions\b/i, reason: "instruction override" },
+];
+
+export interface SanitizedText {
+  text: string;
+  /** True when control sequences or invisible characters were removed */
+  stripped: boolean;
+}
+
+/** Remove ANSI escape sequences, control characters and invisible bidi/zero-width characters */
+export function sanitizeSkillText(text: string): SanitizedText {
+  const cleaned = text.replace(ANSI_PATTERN, "").replace(CONTROL_PATTERN, "").replace(INVISIBLE_PATTERN, "");
+  return { text: cleaned, stripped: cleaned !== text };
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Sanitize and escape a value for interpolation into the skills prompt */
+export function toPromptText(text: string): string {
+  return escapeXml(sanitizeSkillText(text).text);
+}
+
+/** Reasons a piece of skill text looks like a prompt injection attempt; empty when it looks benign */
+export function findSuspiciousContent(text: string): string[] {
+  const reasons = new Set<string>();
+  if (sanitizeSkillText(text).stripped) {
+    reasons.add("control or invisible characters");
+  }
+  for (const { pattern, reason } of SUSPICIOUS_PATTERNS) {
+    if (pattern.test(text)) reasons.add(reason);
+  }
+  return [...reasons];
+}
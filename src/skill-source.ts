@@ -0,0 +1,303 @@
+/**
+ * Skill source specs.
+ *
+ * Supported forms, each with an optional `@ref` suffix:
+ *   github:owner/repo[/path]
+ *   gitlab:owner/repo[/path]
+ *   gitea:host[:port]/owner/repo[/path]
+ *   git+https://host/group/repo.git[//path]
+ *   git+ssh://user@host[:port]/group/repo.git[//path]
+ *   https://host/group/repo.git[//path]
+ *
+ * `path` selects a directory inside the repository (installed with a sparse
+ * checkout); without it the whole repository is the skill. A path ending in
+ * `*` (e.g. `github:owner/repo/skills/*`) names a collection: every skill
+ * under that directory. When an allowlist of hosts is configured, sources on
+ * other hosts are refused.
+ *
+ * Local directories are given as `path:<dir>` (relative to the working
+ * directory, or starting with `~`) or `file://<absolute dir>`.
+ *
+ * Archives (`.tar.gz`, `.tgz`, `.zip` or `.skill`) are given the same way as
+ * local files, or as an `https://` URL, with an optional `#sha256=<hex>`
+ * checksum suffix.
+ *
+ * Anything else without a scheme is a registry name: `name` or
+ * `registry/name`, optionally with an `@version` suffix.
+ */
+
+import { homedir } from "node:os";
+import { basename, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { splitGitRef } from "./skill-git.js";
+
+export interface GitSkillSource {
+  /** The spec as given */
+  source: string;
+  /** Host name, lower-cased and without port */
+  host: string;
+  /** Clone URL */
+  url: string;
+  /** Repository name, the default skill name for whole-repository installs */
+  repo: string;
+  /** Directory inside the repository to install */
+  subPath?: string;
+  ref?: string;
+  /** The path ended in `*`: install every skill under subPath */
+  collection?: boolean;
+}
+
+export interface LocalSkillSource {
+  /** The spec as given */
+  source: string;
+  /** Absolute directory path */
+  path: string;
+}
+
+export interface ArchiveSkillSource {
+  /** The spec as given */
+  source: string;
+  /** HTTPS download URL, for remote archives */
+  url?: string;
+  /** Absolute file path, for local archives */
+  path?: string;
+  /** Host name of a remote archive, lower-cased */
+  host?: string;
+  /** Expected sha256 of the archive, lower-case hex */
+  sha256?: string;
+  /** File name without its archive extension, the default skill name */
+  name: string;
+}
+
+export interface RegistrySkillSpec {
+  /** The spec as given */
+  source: string;
+  name: string;
+  /** Registry id, from a `registry/name` spec */
+  registry?: string;
+  /** Requested version, from a `name@version` spec */
+  version?: string;
+}
+
+const SHORTHAND_HOSTS: Record<string, string> = {
+  "github:": "github.com",
+  "gitlab:": "gitlab.com",
+};
+const VALID_SEGMENT = /^[a-zA-Z0-9._-]+$/;
+const VALID_HOST = /^[a-zA-Z0-9.-]+(:\d+)?$/;
+const REGISTRY_SPEC = /^(?:([a-zA-Z0-9._-]+)\/)?([a-zA-Z0-9._-]+)(?:@([a-zA-Z0-9._+-]+))?$/;
+const ARCHIVE_EXTENSION = /\.(tar\.gz|tgz|zip|skill)$/i;
+const URL_SCHEMES: Record<string, string> = {
+  "git+https:": "https",
+  "git+ssh:": "ssh",
+  "https:": "https",
+  "ssh:": "ssh",
+};
+
+let allowedHosts: string[] = [];
+
+/** Restrict installs to these hosts; an empty list allows every host */
+export function configureSkillSources(options: { allowedHosts?: string[] }): void {
+  allowedHosts = (options.allowedHosts ?? []).map((h) => h.trim().toLowerCase()).filter(Boolean);
+}
+
+function pathSegments(path: string, what: string): string[] {
+  const segments = path.split("/").filter(Boolean);
+  if (segments.some((seg) => !VALID_SEGMENT.test(seg) || seg === "." || seg === "..")) {
+    throw new Error(`Invalid ${what}`);
+  }
+  return segments;
+}
+
+/** Split a trailing `*` off a skill path */
+function splitCollection(path: string): { path: string; collection: boolean } {
+  if (path === "*" || path.endsWith("/*")) return { path: path.slice(0, -1), collection: true };
+  return { path, collection: false };
+}
+
+function checkHost<T extends { host?: string }>(spec: T): T {
+  if (allowedHosts.length > 0 && !allowedHosts.includes(spec.host ?? "")) {
+    throw new Error(`Host "${spec.host}" is not in the allowed skill source hosts`);
+  }
+  return spec;
+}
+
+function parseShorthand(source: string, host: string, spec: string): GitSkillSource {
+  const { base, ref } = splitGitRef(spec);
+  const [owner, repo, ...rest] = base.split("/").filter(Boolean);
+  if (!owner || !repo || !VALID_SEGMENT.test(owner) || !VALID_SEGMENT.test(repo)) {
+    throw new Error("Invalid owner or repo name");
+  }
+  const { path, collection } = splitCollection(rest.join("/"));
+  const subPath = pathSegments(path, "skill path").join("/");
+  const name = repo.replace(/\.git$/, "");
+  return checkHost({
+    source,
+    host: host.replace(/:\d+$/, "").toLowerCase(),
+    url: `https://${host}/${owner}/${name}.git`,
+    repo: name,
+    ...(subPath ? { subPath } : {}),
+    ...(ref ? { ref } : {}),
+    ...(collection ? { collection } : {}),
+  });
+}
+
+function parseGitUrl(source: string): GitSkillSource {
+  const schemeEnd = source.indexOf("://");
+  const scheme = schemeEnd === -1 ? undefined : URL_SCHEMES[source.slice(0, schemeEnd + 1).toLowerCase()];
+  if (schemeEnd !== -1 && !scheme) {
+    throw new Error("Only HTTPS and SSH git sources are supported for skill installation");
+  }
+  const pathStart = scheme ? source.indexOf("/", schemeEnd + 3) : -1;
+  if (!scheme || pathStart === -1) {
+    throw new Error("Invalid skill source URL");
+  }
+
+  const { base, ref } = splitGitRef(source.slice(pathStart));
+  const subStart = base.indexOf("//");
+  const repoSegments = pathSegments(subStart === -1 ? base : base.slice(0, subStart), "repository path");
+  const { path, collection } = splitCollection(subStart === -1 ? "" : base.slice(subStart + 2));
+  const subPath = pathSegments(path, "skill path").join("/");
+  if (repoSegments.length === 0) {
+    throw new Error("Invalid skill source URL");
+  }
+
+  const url = `${scheme}://${source.slice(schemeEnd + 3, pathStart)}/${repoSegments.join("/")}`;
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    throw new Error("Invalid skill source URL");
+  }
+  return checkHost({
+    source,
+    host,
+    url,
+    repo: repoSegments[repoSegments.length - 1].replace(/\.git$/, ""),
+    ...(subPath ? { subPath } : {}),
+    ...(ref ? { ref } : {}),
+    ...(collection ? { collection } : {}),
+  });
+}
+
+/** Parse a git source spec; throws on malformed specs and hosts outside the allowlist */
+export function parseSkillSource(source: string): GitSkillSource {
+  const spec = source.trim();
+  for (const [prefix, host] of Object.entries(SHORTHAND_HOSTS)) {
+    if (spec.startsWith(prefix)) return parseShorthand(spec, host, spec.slice(prefix.length));
+  }
+  if (spec.startsWith("gitea:")) {
+    const rest = spec.slice("gitea:".length);
+    const slash = rest.indexOf("/");
+    const host = slash === -1 ? "" : rest.slice(0, slash);
+    if (!VALID_HOST.test(host)) {
+      throw new Error("Invalid Gitea host");
+    }
+    return parseShorthand(spec, host, rest.slice(slash + 1));
+  }
+  return parseGitUrl(spec);
+}
+
+/** Whether the spec names a collection of skills (`.../*`) */
+export function isSkillCollectionSource(source: string): boolean {
+  return /\/\*(@[^/@]+)?$/.test(source.trim());
+}
+
+/**
+ * The spec for one directory of a repository source, keeping its ref, e.g.
+ * `github:owner/repo/skills/*@v1` and `skills/pdf` give
+ * `github:owner/repo/skills/pdf@v1`.
+ */
+export function skillSourceForPath(spec: GitSkillSource, path: string): string {
+  const ref = spec.ref ? `@${spec.ref}` : "";
+  const shorthand = /^(github|gitlab|gitea):/.exec(spec.source);
+  if (!shorthand) {
+    return `${spec.url}${path ? `//${path}` : ""}${ref}`;
+  }
+  const url = new URL(spec.url);
+  const repoPath = url.pathname.replace(/^\//, "").replace(/\.git$/, "");
+  const host = shorthand[1] === "gitea" ? `${url.host}/` : "";
+  return `${shorthand[1]}:${host}${repoPath}${path ? `/${path}` : ""}${ref}`;
+}
+
+export function isLocalSkillSource(source: string): boolean {
+  const spec = source.trim();
+  return spec.startsWith("path:") || spec.toLowerCase().startsWith("file://");
+}
+
+/** Parse a `path:` or `file://` spec into an absolute directory path */
+export function parseLocalSkillSource(source: string): LocalSkillSource {
+  const spec = source.trim();
+  let path: string;
+  if (spec.startsWith("path:")) {
+    path = spec.slice("path:".length).replace(/^~(?=$|\/)/, homedir());
+  } else {
+    try {
+      path = fileURLToPath(spec);
+    } catch {
+      throw new Error("Invalid file:// skill source");
+    }
+  }
+  if (!path.trim()) {
+    throw new Error("Invalid local skill path");
+  }
+  return { source: spec, path: resolve(path) };
+}
+
+function splitChecksum(spec: string): { location: string; sha256?: string } {
+  const hash = spec.indexOf("#");
+  if (hash === -1) return { location: spec };
+  const match = /^sha256=([0-9a-f]{64})$/i.exec(spec.slice(hash + 1));
+  if (!match) {
+    throw new Error("Invalid archive checksum; expected #sha256=<64 hex digits>");
+  }
+  return { location: spec.slice(0, hash), sha256: match[1].toLowerCase() };
+}
+
+/** Whether the spec names an archive file rather than a git repository or directory */
+export function isArchiveSkillSource(source: string): boolean {
+  const spec = source.trim();
+  const location = spec.split("#")[0];
+  if (isLocalSkillSource(location)) return ARCHIVE_EXTENSION.test(location);
+  if (!/^https?:\/\//i.test(location)) return false;
+  return ARCHIVE_EXTENSION.test(location.split("?")[0]);
+}
+
+/** Parse an archive spec; throws on malformed specs and hosts outside the allowlist */
+export function parseArchiveSkillSource(source: string): ArchiveSkillSource {
+  const spec = source.trim();
+  const { location, sha256 } = splitChecksum(spec);
+  const checksum = sha256 ? { sha256 } : {};
+
+  if (isLocalSkillSource(location)) {
+    const { path } = parseLocalSkillSource(location);
+    return { source: spec, path, name: basename(path).replace(ARCHIVE_EXTENSION, ""), ...checksum };
+  }
+  let url: URL;
+  try {
+    url = new URL(location);
+  } catch {
+    throw new Error("Invalid archive URL");
+  }
+  if (url.protocol !== "https:") {
+    throw new Error("Only HTTPS archive sources are supported for skill installation");
+  }
+  const name = basename(url.pathname).replace(ARCHIVE_EXTENSION, "");
+  return checkHost({ source: spec, url: url.href, host: url.hostname.toLowerCase(), name, ...checksum });
+}
+
+/** Whether the spec is a registry name (`name` or `registry/name`, with an optional `@version`) */
+export function isRegistrySkillSpec(source: string): boolean {
+  return REGISTRY_SPEC.test(source.trim());
+}
+
+/** Parse a registry name spec into its name, registry and version */
+export function parseRegistrySkillSpec(source: string): RegistrySkillSpec {
+  const spec = source.trim();
+  const match = REGISTRY_SPEC.exec(spec);
+  if (!match || [match[1], match[2]].some((seg) => seg === "." || seg === "..")) {
+    throw new Error(`Invalid registry skill name: ${spec}`);
+  }
+  const [, registry, name, version] = match;
+  return { source: spec, name, ...(registry ? { registry } : {}), ...(version ? { version } : {}) };
+}
@@ -0,0 +1,147 @@
+/**
+ * Staging and trash areas inside SKILLS_DIR.
+ *
+ * Changes to the skills directory are prepared under `.staging` and moved
+ * into place with a rename, which is atomic on one filesystem, so an
+ * interrupted install or update never leaves a half-written skill behind.
+ * Removed skills are moved to `.trash/<id>` together with a metadata file
+ * (including their state) and can be restored until they are purged after the
+ * retention period. Both directories start with a dot, so discovery skips them.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "./config.js";
+import { logger } from "./logger.js";
+import { SKILLS_DIR } from "./paths.js";
+import { skillError } from "./skill-errors.js";
+import type { SkillStateRecord } from "./skills-schema.js";
+
+export interface TrashedSkill {
+  /** Directory name under `.trash` */
+  id: string;
+  name: string;
+  removedAt: string;
+  /** State at removal, put back on restore */
+  state?: SkillStateRecord;
+}
+
+const TRASH_METADATA_FILE = "trash.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let retentionMs = DEFAULT_TRASH_RETENTION_DAYS * DAY_MS;
+
+function stagingRoot(): string {
+  return join(SKILLS_DIR, ".staging");
+}
+
+function trashRoot(): string {
+  return join(SKILLS_DIR, ".trash");
+}
+
+function exists(path: string): boolean {
+  try {
+    lstatSync(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Set how long removed skills are kept */
+export function configureSkillTrash(options: { retentionDays?: number }): void {
+  retentionMs = (options.retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS) * DAY_MS;
+}
+
+/** A fresh, not yet created path under `.staging`, on the same filesystem as the skills */
+export function createStagingDir(): string {
+  mkdirSync(stagingRoot(), { recursive: true });
+  return join(stagingRoot(), `${Date.now()}-${randomBytes(4).toString("hex")}`);
+}
+
+/** Remove whatever an interrupted install or update left in the staging area */
+export function clearSkillStaging(): void {
+  rmSync(stagingRoot(), { recursive: true, force: true });
+  if (!existsSync(SKILLS_DIR)) return;
+  // Staging directories used before `.staging` existed
+  for (const entry of readdirSync(SKILLS_DIR)) {
+    if (entry.startsWith(".tmp-") || entry.startsWith(".old-")) {
+      rmSync(join(SKILLS_DIR, entry), { recursive: true, force: true });
+    }
+  }
+}
+
+/** Move an installed skill (or the link to a linked one) into the trash */
+export function moveToTrash(name: string, state?: SkillStateRecord): TrashedSkill {
+  const entry: TrashedSkill = {
+    id: `${Date.now()}-${name}`,
+    name,
+    removedAt: new Date().toISOString(),
+    ...(state ? { state } : {}),
+  };
+  const entryDir = join(trashRoot(), entry.id);
+  mkdirSync(entryDir, { recursive: true });
+  try {
+    writeFileSync(join(entryDir, TRASH_METADATA_FILE), `${JSON.stringify(entry, null, 2)}\n`);
+    renameSync(join(SKILLS_DIR, name), join(entryDir, "skill"));
+  } catch (error: unknown) {
+    rmSync(entryDir, { recursive: true, force: true });
+    throw error;
+  }
+  return entry;
+}
+
+/** Trashed skills, newest first; entries without their files are skipped */
+export function listTrashedSkills(): TrashedSkill[] {
+  if (!existsSync(trashRoot())) return [];
+  const entries: TrashedSkill[] = [];
+  for (const id of readdirSync(trashRoot())) {
+    try {
+      const entry = JSON.parse(readFileSync(join(trashRoot(), id, TRASH_METADATA_FILE), "utf-8")) as TrashedSkill;
+      if (entry.id === id && exists(join(trashRoot(), id, "skill"))) entries.push(entry);
+    } catch {
+      // Not a trash entry, or one whose move never finished; purging removes it
+    }
+  }
+  return entries.sort((a, b) => b.removedAt.localeCompare(a.removedAt));
+}
+
+/** The most recently removed copy of a skill */
+export function findTrashedSkill(name: string): TrashedSkill | null {
+  return listTrashedSkills().find((e) => e.name === name) ?? null;
+}
+
+/** Move a trashed skill back into SKILLS_DIR under its name and drop the trash entry */
+export function restoreFromTrash(entry: TrashedSkill): void {
+  const targetDir = join(SKILLS_DIR, entry.name);
+  if (exists(targetDir)) {
+    throw skillError("conflict", `Skill "${entry.name}" already exists`);
+  }
+  renameSync(join(trashRoot(), entry.id, "skill"), targetDir);
+  rmSync(join(trashRoot(), entry.id), { recursive: true, force: true });
+}
+
+/** Permanently delete trash entries older than the retention period; returns their ids */
+export function purgeSkillTrash(now: number = Date.now()): string[] {
+  if (!existsSync(trashRoot())) return [];
+  const valid = new Map(listTrashedSkills().map((e) => [e.id, e]));
+  const purged: string[] = [];
+  for (const id of readdirSync(trashRoot())) {
+    const entry = valid.get(id);
+    if (entry && now - Date.parse(entry.removedAt) < retentionMs) continue;
+    rmSync(join(trashRoot(), id), { recursive: true, force: true });
+    purged.push(id);
+  }
+  if (purged.length > 0) logger.debug(`[skills] Purged ${purged.length} trashed skill(s)`);
+  return purged;
+}
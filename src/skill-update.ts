@@ -0,0 +1,297 @@
+/**
+ * Updates for skills installed from a git source or a registry.
+ *
+ * The recorded install source is re-fetched at its ref into the staging
+ * area and swapped in with renames, so a failed update leaves the
+ * installed copy untouched. Skills installed from a registry are checked
+ * against the registry's highest listed version and reinstalled from that
+ * entry's source (git or archive) when it is newer. A skill whose files no
+ * longer match the hash recorded at install time has local modifications and
+ * is only overwritten when forced. Enabled state and usage are kept;
+ * provenance is updated.
+ */
+
+import { existsSync, renameSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { logger } from "./logger.js";
+import { SKILLS_DIR } from "./paths.js";
+import { compareVersions, resolveRegistrySkill } from "./registry-fetcher.js";
+import { extractSkillArchive, fetchSkillArchive, findSkillRoot } from "./skill-archive.js";
+import { skillError } from "./skill-errors.js";
+import { checkoutGitSource, resolveRemoteRef } from "./skill-git.js";
+import { diffSkillDirectories, hashSkillDirectory, type SkillDirectoryChanges } from "./skill-hash.js";
+import type { RunCommandOptions } from "./skill-process.js";
+import {
+  isArchiveSkillSource,
+  isLocalSkillSource,
+  isRegistrySkillSpec,
+  parseArchiveSkillSource,
+  parseSkillSource,
+} from "./skill-source.js";
+import { createStagingDir } from "./skill-staging.js";
+import { invalidateSkillIndex, type SkillInstallRecord, writeInstallRecord } from "./skills.js";
+import { getAllSkillStates, getSkillState, recordSkillProvenance } from "./skills-repository.js";
+import type { SkillStateRecord } from "./skills-schema.js";
+
+export interface SkillUpdateCheck {
+  name: string;
+  source: string;
+  currentCommit?: string;
+  /** Commit the update would install; absent when it comes from an archive */
+  latestCommit?: string;
+  /** Registry the skill was installed from */
+  registry?: string;
+  currentVersion?: string;
+  /** Highest version the registry lists */
+  latestVersion?: string;
+  updateAvailable: boolean;
+  /** Files differ from what was installed */
+  modified: boolean;
+}
+
+export interface SkillUpdateResult {
+  name: string;
+  updated: boolean;
+  fromCommit?: string;
+  /** Absent when the skill was (re)installed from an archive */
+  toCommit?: string;
+  fromVersion?: string;
+  toVersion?: string;
+  changes: SkillDirectoryChanges;
+}
+
+export type UpdateOptions = Pick<RunCommandOptions, "signal" | "onOutput"> & {
+  /** Overwrite local modifications, and re-fetch even when already up to date */
+  force?: boolean;
+  installedBy?: string;
+};
+
+const NO_CHANGES: SkillDirectoryChanges = { added: [], removed: [], modified: [] };
+
+/** Where an update would come from, and whether it is newer than what is installed */
+interface UpdateTarget {
+  source: string;
+  version?: string;
+  latestVersion?: string;
+  /** Expected archive sha256 from the registry entry */
+  sha256?: string;
+  latestCommit?: string;
+  updateAvailable: boolean;
+}
+
+/** Archives are only updatable through the registry that lists them; local directories never are */
+function isUpdatableSource(source: string, registry?: string): boolean {
+  return isArchiveSkillSource(source) ? Boolean(registry) : !isLocalSkillSource(source);
+}
+
+async function loadInstalled(name: string): Promise<{ state: SkillStateRecord; dir: string; source: string }> {
+  const state = await getSkillState(name);
+  const dir = join(SKILLS_DIR, name);
+  if (!existsSync(dir)) {
+    throw skillError("not_found", `Skill "${name}" not found`);
+  }
+  if (!state?.installSource) {
+    throw skillError("conflict", `Skill "${name}" has no recorded install source`);
+  }
+  if (isArchiveSkillSource(state.installSource) && !state.installRegistry) {
+    throw skillError("conflict", `Skill "${name}" was installed from an archive; reinstall it to pick up changes`);
+  }
+  if (isLocalSkillSource(state.installSource) && !isArchiveSkillSource(state.installSource)) {
+    throw skillError(
+      "conflict",
+      `Skill "${name}" was installed from a local directory; reinstall it to pick up changes`,
+    );
+  }
+  return { state, dir, source: state.installSource };
+}
+
+function isModified(state: SkillStateRecord, dir: string): boolean {
+  return state.contentHash !== undefined && hashSkillDirectory(dir) !== state.contentHash;
+}
+
+/**
+ * Work out what an update installs. Registry skills move to the registry's
+ * highest version when it is newer (or, without versions to compare, when
+ * the entry's source changed); git sources also update when their ref
+ * points to a new commit.
+ */
+async function resolveUpdateTarget(
+  name: string,
+  state: SkillStateRecord,
+  source: string,
+  options: Pick<RunCommandOptions, "signal">,
+): Promise<UpdateTarget> {
+  let target: UpdateTarget = { source, version: state.installVersion, updateAvailable: false };
+  if (state.installRegistry) {
+    const entry = await resolveRegistrySkill({ source: name, name, registry: state.installRegistry });
+    const newer =
+      entry.version && state.installVersion
+        ? compareVersions(entry.version, state.installVersion) > 0
+        : entry.source !== source;
+    target = { ...target, latestVersion: entry.version };
+    if (newer) {
+      if (isRegistrySkillSpec(entry.source) || !isUpdatableSource(entry.source, state.installRegistry)) {
+        throw new Error(`Registry entry for "${name}" has no installable source: ${entry.source}`);
+      }
+      target = { ...target, source: entry.source, version: entry.version, sha256: entry.sha256, updateAvailable: true };
+    }
+  }
+  if (isArchiveSkillSource(target.source)) return target;
+
+  const spec = parseSkillSource(target.source);
+  const latestCommit = await resolveRemoteRef(spec.url, spec.ref, options);
+  return { ...target, latestCommit, updateAvailable: target.updateAvailable || latestCommit !== state.installCommit };
+}
+
+/** Installed skills that have a recorded git or registry source and can be updated */
+export async function listUpdatableSkills(): Promise<string[]> {
+  const states = await getAllSkillStates();
+  return Object.keys(states)
+    .filter((name) => {
+      const provenance = states[name].provenance;
+      const source = provenance?.installSource;
+      return source && isUpdatableSource(source, provenance?.installRegistry) && existsSync(join(SKILLS_DIR, name));
+    })
+    .sort();
+}
+
+/**
+ * Compare the installed commit with the one the recorded source points to
+ * now, and for registry installs the installed version with the registry's
+ */
+export async function checkSkillUpdate(
+  name: string,
+  options: Pick<RunCommandOptions, "signal"> = {},
+): Promise<SkillUpdateCheck> {
+  const { state, dir, source } = await loadInstalled(name);
+  const target = await resolveUpdateTarget(name, state, source, options);
+  return {
+    name,
+    source,
+    currentCommit: state.installCommit,
+    latestCommit: target.latestCommit,
+    ...(state.installRegistry
+      ? { registry: state.installRegistry, currentVersion: state.installVersion, latestVersion: target.latestVersion }
+      : {}),
+    updateAvailable: target.updateAvailable,
+    modified: isModified(state, dir),
+  };
+}
+
+/**
+ * Fetch a git or archive source into `tmpDir` and write its install record;
+ * returns the directory holding SKILL.md
+ */
+async function stageUpdate(
+  target: UpdateTarget,
+  tmpDir: string,
+  options: UpdateOptions,
+): Promise<{ stagedDir: string; record: SkillInstallRecord }> {
+  if (isArchiveSkillSource(target.source)) {
+    const spec = parseArchiveSkillSource(target.source);
+    const expected = spec.sha256 ?? target.sha256?.toLowerCase();
+    const { data, sha256 } = await fetchSkillArchive(spec, expected, options.signal);
+    extractSkillArchive(data, tmpDir);
+    const stagedDir = findSkillRoot(tmpDir);
+    const record = writeInstallRecord(stagedDir, {
+      source: spec.source,
+      url: spec.url ?? spec.path ?? spec.source,
+      sha256,
+    });
+    return { stagedDir, record };
+  }
+
+  const { url, ref, subPath } = parseSkillSource(target.source);
+  const commit = await checkoutGitSource({ url, ref, sparsePath: subPath, dir: tmpDir }, options);
+  const stagedDir = subPath ? join(tmpDir, subPath) : tmpDir;
+  if (!existsSync(join(stagedDir, "SKILL.md"))) {
+    throw new Error(`No SKILL.md at ${subPath ?? "the repository root"} in ${url}${ref ? `@${ref}` : ""}`);
+  }
+  const record = writeInstallRecord(stagedDir, { source: target.source, url, ...(ref ? { ref } : {}), commit });
+  return { stagedDir, record };
+}
+
+async function loadUpdatable(name: string, force?: boolean): ReturnType<typeof loadInstalled> {
+  const installed = await loadInstalled(name);
+  if (isModified(installed.state, installed.dir) && !force) {
+    throw skillError("conflict", `Skill "${name}" has local modifications; use --force to overwrite them`);
+  }
+  return installed;
+}
+
+/**
+ * Throw the error updateSkill would fail with before fetching anything, for
+ * callers that run the update later
+ */
+export async function assertSkillUpdatable(name: string, options: Pick<UpdateOptions, "force"> = {}): Promise<void> {
+  await loadUpdatable(name, options.force);
+}
+
+/**
+ * Re-fetch a skill from its recorded source, or from a newer registry entry,
+ * and swap it in
+ */
+export async function updateSkill(name: string, options: UpdateOptions = {}): Promise<SkillUpdateResult> {
+  const { state, dir, source } = await loadUpdatable(name, options.force);
+
+  const fromCommit = state.installCommit;
+  const fromVersion = state.installVersion;
+  let target: UpdateTarget = { source, version: fromVersion, updateAvailable: true };
+  if (state.installRegistry || !options.force) {
+    target = await resolveUpdateTarget(name, state, source, options);
+    if (!target.updateAvailable && !options.force) {
+      return {
+        name,
+        updated: false,
+        fromCommit,
+        toCommit: target.latestCommit,
+        fromVersion,
+        toVersion: fromVersion,
+        changes: NO_CHANGES,
+      };
+    }
+  }
+
+  const tmpDir = createStagingDir();
+  const backupDir = createStagingDir();
+  let record: SkillInstallRecord;
+  let changes: SkillDirectoryChanges;
+  try {
+    let stagedDir: string;
+    ({ stagedDir, record } = await stageUpdate(target, tmpDir, options));
+    changes = diffSkillDirectories(dir, stagedDir);
+
+    renameSync(dir, backupDir);
+    try {
+      renameSync(stagedDir, dir);
+    } catch (error: unknown) {
+      renameSync(backupDir, dir);
+      throw error;
+    }
+  } catch (error: unknown) {
+    rmSync(tmpDir, { recursive: true, force: true });
+    if (options.signal?.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to update skill "${name}": ${message}`);
+  }
+  rmSync(tmpDir, { recursive: true, force: true });
+  rmSync(backupDir, { recursive: true, force: true });
+  invalidateSkillIndex(name);
+
+  try {
+    await recordSkillProvenance(name, {
+      installSource: target.source,
+      installUrl: record.url,
+      installCommit: record.commit,
+      installRegistry: state.installRegistry,
+      installVersion: target.version,
+      contentHash: hashSkillDirectory(dir),
+      installedAt: record.installedAt,
+      installedBy: options.installedBy ?? state.installedBy,
+    });
+  } catch (error: unknown) {
+    logger.warn(`Failed to record install provenance for "${name}":`, error);
+  }
+
+  return { name, updated: true, fromCommit, toCommit: record.commit, fromVersion, toVersion: target.version, changes };
+}
@@ -0,0 +1,177 @@
+import { randomUUID } from "node:crypto";
+import { DEFAULT_USAGE_EVENT_RETENTION_DAYS, DEFAULT_USAGE_ROLLUP_RETENTION_DAYS } from "./config.js";
+import { logger } from "./logger.js";
+import { getPluginContext, initSkillsStorage } from "./skills-repository.js";
+import type { SkillUsageDailyRecord, SkillUsageEventRecord } from "./skills-schema.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function usageEventsRepo() {
+  const ctx = getPluginContext();
+  if (!ctx) {
+    throw new Error("Plugin context not initialized");
+  }
+  return ctx.storage.getRepository<SkillUsageEventRecord>("skills", "skill_usage_events");
+}
+
+function usageDailyRepo() {
+  const ctx = getPluginContext();
+  if (!ctx) {
+    throw new Error("Plugin context not initialized");
+  }
+  return ctx.storage.getRepository<SkillUsageDailyRecord>("skills", "skill_usage_daily");
+}
+
+export type NewSkillUsageEvent = Omit<SkillUsageEventRecord, "id" | "timestamp"> & { timestamp?: string };
+
+export interface SkillUsageEventQuery {
+  skill?: string;
+  session?: string;
+  /** Inclusive ISO timestamp */
+  from?: string;
+  /** Exclusive ISO timestamp */
+  to?: string;
+  limit?: number;
+}
+
+export interface SkillUsageBucket {
+  day: string;
+  skill: string;
+  count: number;
+  errors: number;
+}
+
+export interface CompactionOptions {
+  /** Raw events older than this are rolled up into daily buckets */
+  eventRetentionDays?: number;
+  /** Daily buckets older than this are deleted */
+  rollupRetentionDays?: number;
+  now?: number;
+}
+
+function toDay(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+function timeRange(from?: string, to?: string): Record<string, string> | undefined {
+  if (!from && !to) return undefined;
+  return { ...(from ? { $gte: from } : {}), ...(to ? { $lt: to } : {}) };
+}
+
+/** Append one usage event */
+export async function recordSkillUsageEvent(event: NewSkillUsageEvent): Promise<SkillUsageEventRecord> {
+  await initSkillsStorage();
+  const record: SkillUsageEventRecord = {
+    ...event,
+    id: randomUUID(),
+    timestamp: event.timestamp ?? new Date().toISOString(),
+  };
+  await usageEventsRepo().insert(record);
+  return record;
+}
+
+/** Raw usage events, newest first. Only events newer than the retention window are kept. */
+export async function listSkillUsageEvents(query: SkillUsageEventQuery = {}): Promise<SkillUsageEventRecord[]> {
+  await initSkillsStorage();
+  const repo = usageEventsRepo();
+  const filter: Record<string, unknown> = {};
+  if (query.skill) filter.skill = query.skill;
+  if (query.session) filter.session = query.session;
+  const range = timeRange(query.from, query.to);
+  if (range) filter.timestamp = range;
+
+  const rows = await repo.findMany(filter as Parameters<typeof repo.findMany>[0]);
+  rows.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return query.limit && query.limit > 0 ? rows.slice(0, query.limit) : rows;
+}
+
+/**
+ * Usage per skill per UTC day in [from, to), combining compacted daily
+ * buckets with raw events that have not been compacted yet.
+ */
+export async function getDailySkillUsage(
+  query: Omit<SkillUsageEventQuery, "session" | "limit"> = {},
+): Promise<SkillUsageBucket[]> {
+  await initSkillsStorage();
+  const buckets = new Map<string, SkillUsageBucket>();
+  const add = (day: string, skill: string, count: number, errors: number) => {
+    const key = `${day}:${skill}`;
+    const bucket = buckets.get(key) ?? { day, skill, count: 0, errors: 0 };
+    bucket.count += count;
+    bucket.errors += errors;
+    buckets.set(key, bucket);
+  };
+
+  const dailyRepo = usageDailyRepo();
+  const dailyFilter: Record<string, unknown> = {};
+  if (query.skill) dailyFilter.skill = query.skill;
+  const dayRange = timeRange(query.from && toDay(query.from), query.to && toDay(query.to));
+  if (dayRange) dailyFilter.day = dayRange;
+  for (const row of await dailyRepo.findMany(dailyFilter as Parameters<typeof dailyRepo.findMany>[0])) {
+    add(row.day, row.skill, row.count, row.errors);
+  }
+
+  for (const event of await listSkillUsageEvents({ skill: query.skill, from: query.from, to: query.to })) {
+    add(toDay(event.timestamp), event.skill, 1, event.outcome === "error" ? 1 : 0);
+  }
+
+  return [...buckets.values()].sort((a, b) => a.day.localeCompare(b.day) || a.skill.localeCompare(b.skill));
+}
+
+/**
+ * Roll raw events older than the event retention window up into daily
+ * buckets, delete them, and drop buckets older than the rollup retention.
+ */
+export async function compactSkillUsageEvents(
+  options: CompactionOptions = {},
+): Promise<{ compacted: number; purgedBuckets: number }> {
+  await initSkillsStorage();
+  const now = options.now ?? Date.now();
+  const eventCutoff = new Date(
+    now - (options.eventRetentionDays ?? DEFAULT_USAGE_EVENT_RETENTION_DAYS) * DAY_MS,
+  ).toISOString();
+  const rollupCutoff = toDay(
+    new Date(now - (options.rollupRetentionDays ?? DEFAULT_USAGE_ROLLUP_RETENTION_DAYS) * DAY_MS).toISOString(),
+  );
+
+  const eventsRepo = usageEventsRepo();
+  const dailyRepo = usageDailyRepo();
+
+  const old = await eventsRepo.findMany({ timestamp: { $lt: eventCutoff } } as Parameters<
+    typeof eventsRepo.findMany
+  >[0]);
+  const rollups = new Map<string, SkillUsageDailyRecord>();
+  for (const event of old) {
+    const day = toDay(event.timestamp);
+    const id = `${day}:${event.skill}`;
+    const rollup = rollups.get(id) ?? { id, day, skill: event.skill, count: 0, errors: 0 };
+    rollup.count++;
+    if (event.outcome === "error") rollup.errors++;
+    rollups.set(id, rollup);
+  }
+
+  for (const rollup of rollups.values()) {
+    const existing = await dailyRepo.findFirst({ id: rollup.id } as Parameters<typeof dailyRepo.findFirst>[0]);
+    if (existing) {
+      await dailyRepo.update(existing.id, {
+        count: existing.count + rollup.count,
+        errors: existing.errors + rollup.errors,
+      });
+    } else {
+      await dailyRepo.insert(rollup);
+    }
+  }
+
+  const compacted =
+    old.length > 0
+      ? await eventsRepo.deleteMany({ timestamp: { $lt: eventCutoff } } as Parameters<typeof eventsRepo.deleteMany>[0])
+      : 0;
+  const purgedBuckets = await dailyRepo.deleteMany({ day: { $lt: rollupCutoff } } as Parameters<
+    typeof dailyRepo.deleteMany
+  >[0]);
+
+  if (compacted > 0 || purgedBuckets > 0) {
+    logger.debug(`[skills] Compacted ${compacted} usage event(s), purged ${purgedBuckets} daily bucket(s)`);
+  }
+  return { compacted, purgedBuckets };
+}
@@ -0,0 +1,168 @@
+/**
+ * Skill usage tracking and analytics.
+ *
+ * Usage is recorded when a skill is read through skills.read, run as a slash
+ * command, or when the host reports that an agent read a SKILL.md file. The
+ * host has no typed file-read hook yet, so file reads are picked up from the
+ * event bus: `file:read` events, and tool-call events for read-like tools,
+ * whose payload carries a path.
+ */
+
+import { realpathSync } from "node:fs";
+import { resolve } from "node:path";
+import type { WOPRPluginContext } from "@wopr-network/plugin-types";
+import { logger } from "./logger.js";
+import { recordSkillUsageEvent } from "./skill-usage-repository.js";
+import { discoverSkills, readAllSkillStatesAsync, recordSkillUsage } from "./skills.js";
+import type { SkillUsageKind } from "./skills-schema.js";
+
+const FILE_READ_EVENT = /(^|:)file:read$/;
+const TOOL_EVENT = /(^|:)tool:(call|afterCall|result)$/;
+const READ_TOOL = /read|view|cat|open/i;
+const PATH_KEYS = ["path", "file_path", "filePath", "file"] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SkillUsageDetails {
+  kind: SkillUsageKind;
+  session?: string;
+  channel?: string;
+  /** Error message when the invocation failed */
+  error?: string;
+}
+
+export interface SkillUsageStatsOptions {
+  /** Window in days; skills last used before it are reported as stale (default 30) */
+  days?: number;
+  /** Maximum number of most-used skills (default 10) */
+  limit?: number;
+  now?: number;
+}
+
+export interface SkillUsageEntry {
+  name: string;
+  source: string;
+  useCount: number;
+  lastUsedAt?: string;
+}
+
+export interface SkillUsageStats {
+  windowDays: number;
+  since: string;
+  mostUsed: SkillUsageEntry[];
+  neverUsed: SkillUsageEntry[];
+  stale: SkillUsageEntry[];
+}
+
+function extractPath(payload: unknown): string | undefined {
+  if (!payload || typeof payload !== "object") return undefined;
+  const record = payload as Record<string, unknown>;
+  for (const key of PATH_KEYS) {
+    if (typeof record[key] === "string") return record[key] as string;
+  }
+  for (const nested of ["args", "input", "params"]) {
+    const found = extractPath(record[nested]);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function isFileRead(type: string, payload: unknown): boolean {
+  if (FILE_READ_EVENT.test(type)) return true;
+  if (!TOOL_EVENT.test(type) || !payload || typeof payload !== "object") return false;
+  const record = payload as Record<string, unknown>;
+  const tool = record.tool ?? record.toolName ?? record.name;
+  return typeof tool === "string" && READ_TOOL.test(tool);
+}
+
+function canonicalPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return resolve(path);
+  }
+}
+
+/**
+ * Record one use of a skill: bumps useCount/lastUsedAt for successful uses and
+ * appends a usage event either way. Failures are logged, never thrown.
+ */
+export async function trackSkillUsage(name: string, details: SkillUsageDetails): Promise<void> {
+  try {
+    if (!details.error) await recordSkillUsage(name);
+    await recordSkillUsageEvent({
+      skill: name,
+      kind: details.kind,
+      session: details.session,
+      channel: details.channel,
+      outcome: details.error ? "error" : "success",
+      error: details.error,
+    });
+  } catch (error: unknown) {
+    logger.warn(`[skills] Failed to record usage for ${name}:`, error);
+  }
+}
+
+function stringField(payload: unknown, key: string): string | undefined {
+  const value = payload && typeof payload === "object" ? (payload as Record<string, unknown>)[key] : undefined;
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Name of the skill whose SKILL.md lives at `filePath`, if any */
+export function findSkillByFilePath(filePath: string): string | undefined {
+  if (!filePath.endsWith("SKILL.md")) return undefined;
+  const target = canonicalPath(filePath);
+  return discoverSkills().skills.find((s) => s.path === filePath || canonicalPath(s.path) === target)?.name;
+}
+
+/** Record usage for SKILL.md reads reported on the host event bus. Returns an unsubscribe function. */
+export function watchSkillFileReads(ctx: WOPRPluginContext): () => void {
+  if (!ctx.events?.on) return () => {};
+
+  return ctx.events.on("*", async (payload, event) => {
+    const data = payload ?? event?.payload;
+    if (!isFileRead(event?.type ?? "", data)) return;
+
+    const path = extractPath(data);
+    const name = path ? findSkillByFilePath(path) : undefined;
+    if (!name) return;
+
+    await trackSkillUsage(name, {
+      kind: "model_read",
+      session: stringField(data, "session"),
+      channel: stringField(data, "channel"),
+    });
+  });
+}
+
+/** Most-used skills in the window, skills never used, and skills not used since the window started */
+export async function getSkillUsageStats(options: SkillUsageStatsOptions = {}): Promise<SkillUsageStats> {
+  const windowDays = options.days && options.days > 0 ? options.days : 30;
+  const limit = options.limit && options.limit > 0 ? options.limit : 10;
+  const now = options.now ?? Date.now();
+  const since = now - windowDays * DAY_MS;
+
+  const { skills } = discoverSkills();
+  const states = await readAllSkillStatesAsync();
+
+  const entries: SkillUsageEntry[] = skills.map((s) => ({
+    name: s.name,
+    source: s.source,
+    useCount: states[s.name]?.useCount ?? 0,
+    lastUsedAt: states[s.name]?.lastUsedAt,
+  }));
+
+  const lastUsed = (e: SkillUsageEntry) => (e.lastUsedAt ? Date.parse(e.lastUsedAt) : Number.NaN);
+
+  return {
+    windowDays,
+    since: new Date(since).toISOString(),
+    mostUsed: entries
+      .filter((e) => e.useCount > 0 && lastUsed(e) >= since)
+      .sort((a, b) => b.useCount - a.useCount || lastUsed(b) - lastUsed(a))
+      .slice(0, limit),
+    neverUsed: entries.filter((e) => e.useCount === 0 && !e.lastUsedAt),
+    stale: entries
+      .filter((e) => (e.useCount > 0 || e.lastUsedAt) && !(lastUsed(e) >= since))
+      .sort((a, b) => (lastUsed(a) || 0) - (lastUsed(b) || 0)),
+  };
+}
@@ -4,7 +4,9 @@ import type { WOPRPluginContext } from "@wopr-network/plugin-types";
 import { logger } from "./logger.js";
 import { REGISTRIES_FILE, WOPR_HOME } from "./paths.js";
 import { addRegistry } from "./registries-repository.js";
-import { initSkillsStorage, setPluginContext } from "./skills-repository.js";
+import { hashSkillDirectory } from "./skill-hash.js";
+import { discoverSkills, readInstallRecord } from "./skills.js";
+import { getAllSkillStates, initSkillsStorage, recordSkillProvenance, setPluginContext } from "./skills-repository.js";
 import type { SkillStateRecord } from "./skills-schema.js";
 
 const SKILLS_STATE_FILE = join(WOPR_HOME, "skills-state.json");
@@ -117,6 +119,38 @@ export async function migrateRegistriesToSQL(): Promise<void> {
   logger.info("[migration] Backup of registries.json complete");
 }
 
+/**
+ * Backfill install provenance for skills installed before it was stored in
+ * skills_state, from the install record in the skill directory — idempotent
+ */
+export async function migrateInstallProvenance(): Promise<void> {
+  await initSkillsStorage();
+  const states = await getAllSkillStates();
+
+  let migratedCount = 0;
+  for (const skill of discoverSkills().skills) {
+    if (states[skill.name]?.provenance) continue;
+    const record = readInstallRecord(skill);
+    if (!record) continue;
+    try {
+      await recordSkillProvenance(skill.name, {
+        installSource: record.source,
+        installUrl: record.url,
+        installCommit: record.commit,
+        contentHash: hashSkillDirectory(skill.baseDir),
+        installedAt: record.installedAt,
+      });
+      migratedCount++;
+    } catch (error: unknown) {
+      logger.error(`[migration] Failed to backfill provenance for "${skill.name}":`, error);
+    }
+  }
+
+  if (migratedCount > 0) {
+    logger.info(`[migration] Backfilled install provenance for ${migratedCount} skill(s)`);
+  }
+}
+
 function backupFile(filePath: string): void {
   if (existsSync(filePath)) {
     renameSync(filePath, `${filePath}.backup`);
@@ -0,0 +1,123 @@
+/**
+ * Budgeted skills prompt: ranks skills and trims the list to fit the
+ * configured size before handing it to the resolved renderer.
+ */
+
+import type { ResolvedSkillsConfig } from "./config.js";
+import type { SkillsRenderer } from "./skill-renderers.js";
+import type { Skill } from "./skills.js";
+import type { SkillStateSummary } from "./skills-repository.js";
+
+/** Lower ranks first; unknown sources sort last */
+const SOURCE_PRECEDENCE: Record<string, number> = {
+  workspace: 0,
+  managed: 1,
+  bundled: 2,
+  extra: 3,
+};
+
+/** Usage decays by half every USAGE_HALF_LIFE_DAYS so recent use outweighs old habits */
+const USAGE_HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SkillsPromptResult {
+  content: string;
+  included: Skill[];
+  omittedCount: number;
+}
+
+function usageScore(state: SkillStateSummary | undefined, now: number): number {
+  if (!state?.useCount || !state.lastUsedAt) return 0;
+  const lastUsed = Date.parse(state.lastUsedAt);
+  if (Number.isNaN(lastUsed)) return 0;
+  const ageDays = Math.max(0, now - lastUsed) / DAY_MS;
+  return state.useCount * 0.5 ** (ageDays / USAGE_HALF_LIFE_DAYS);
+}
+
+/** Order skills by pinned status, decayed usage, then source precedence; ties keep discovery order */
+export function rankSkills(
+  skills: Skill[],
+  states: Record<string, SkillStateSummary>,
+  pinnedSkills: string[] = [],
+  now: number = Date.now(),
+): Skill[] {
+  const pinnedOrder = new Map(pinnedSkills.map((name, i) => [name, i]));
+
+  return skills
+    .map((skill, index) => ({
+      skill,
+      index,
+      pinned: pinnedOrder.get(skill.name) ?? Number.POSITIVE_INFINITY,
+      usage: usageScore(states[skill.name], now),
+      source: SOURCE_PRECEDENCE[skill.source] ?? Object.keys(SOURCE_PRECEDENCE).length,
+    }))
+    .sort((a, b) => a.pinned - b.pinned || b.usage - a.usage || a.source - b.source || a.index - b.index)
+    .map((r) => r.skill);
+}
+
+/** Shorten text to at most maxChars, cutting at a word boundary when one is close */
+export function shortenDescription(text: string, maxChars: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+  const cut = trimmed.slice(0, Math.max(1, maxChars - 1));
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxChars * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Rank, shorten and trim skills to the configured budget. When the full list
+ * does not fit, the largest prefix of the ranked list that fits (including the
+ * "N more skills" footer) is kept. `alreadyOmitted` counts skills the caller
+ * left out beforehand (e.g. relevance selection) so the footer covers them too;
+ * when that leaves no skills at all, only a short pointer at skills.search is
+ * returned. The renderer comes from resolveSkillsRenderer, since the search
+ * renders several times.
+ */
+export function buildBudgetedSkillsPrompt(
+  skills: Skill[],
+  states: Record<string, SkillStateSummary>,
+  config: ResolvedSkillsConfig,
+  renderer: SkillsRenderer,
+  alreadyOmitted = 0,
+): SkillsPromptResult {
+  if (skills.length === 0 && alreadyOmitted > 0) {
+    return {
+      content: `None of the ${alreadyOmitted} available skills matched this message. Find one with the skills.search tool and load it with skills.read.\n`,
+      included: [],
+      omittedCount: alreadyOmitted,
+    };
+  }
+
+  const ranked = rankSkills(skills, states, config.pinnedSkills).map((s) => ({
+    ...s,
+    description: shortenDescription(s.description, config.promptMaxDescriptionChars),
+  }));
+
+  const render = (count: number) =>
+    renderer.render(ranked.slice(0, count), {
+      omittedCount: ranked.length - count + alreadyOmitted,
+      trailer: config.promptTrailer,
+    });
+
+  const full = render(ranked.length);
+  const maxChars = config.promptMaxChars;
+  if (maxChars === undefined || full.length <= maxChars) {
+    return { content: full, included: ranked, omittedCount: alreadyOmitted };
+  }
+
+  let low = 0;
+  let high = ranked.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(mid).length <= maxChars) low = mid;
+    else high = mid - 1;
+  }
+
+  // Always list at least one skill so the footer has something to point from
+  const count = Math.max(1, low);
+  return {
+    content: render(count),
+    included: ranked.slice(0, count),
+    omittedCount: ranked.length - count + alreadyOmitted,
+  };
+}
@@ -5,6 +5,7 @@ import { skillsPluginSchema } from "./skills-schema.js";
 
 let initialized = false;
 let ctx: WOPRPluginContext | null = null;
+const stateListeners = new Set<() => void>();
 
 /** Initialize schema — idempotent, call on first access */
 export async function initSkillsStorage(): Promise<void> {
@@ -28,6 +29,22 @@ export function getPluginContext(): WOPRPluginContext | null {
   return ctx;
 }
 
+/** Subscribe to enable/disable/approve changes. Returns an unsubscribe function. */
+export function onSkillStateChange(listener: () => void): () => void {
+  stateListeners.add(listener);
+  return () => stateListeners.delete(listener);
+}
+
+function notifyStateChange(): void {
+  for (const listener of stateListeners) {
+    try {
+      listener();
+    } catch (error: unknown) {
+      logger.warn("[skills-repository] Skill state listener failed:", error);
+    }
+  }
+}
+
 // ---------- Helper to get repo (ensures init) ----------
 function skillsStateRepo() {
   if (!ctx) {
@@ -46,14 +63,52 @@ export async function getSkillState(name: string): Promise<SkillStateRecord | nu
   return existing ?? null;
 }
 
+/** Where an installed skill came from */
+export type SkillProvenance = Pick<
+  SkillStateRecord,
+  | "installSource"
+  | "installUrl"
+  | "installCommit"
+  | "installRegistry"
+  | "installVersion"
+  | "contentHash"
+  | "installedAt"
+  | "installedBy"
+>;
+
+/** Per-skill state summary returned by getAllSkillStates */
+export type SkillStateSummary = Pick<SkillStateRecord, "enabled" | "lastUsedAt" | "useCount" | "approvedHash"> & {
+  provenance?: SkillProvenance;
+};
+
+function provenanceOf(row: SkillStateRecord): SkillProvenance | undefined {
+  if (!row.installSource) return undefined;
+  return {
+    installSource: row.installSource,
+    installUrl: row.installUrl,
+    installCommit: row.installCommit,
+    installRegistry: row.installRegistry,
+    installVersion: row.installVersion,
+    contentHash: row.contentHash,
+    installedAt: row.installedAt,
+    installedBy: row.installedBy,
+  };
+}
+
 /** Get all skill states */
-export async function getAllSkillStates(): Promise<Record<string, { enabled: boolean }>> {
+export async function getAllSkillStates(): Promise<Record<string, SkillStateSummary>> {
   await initSkillsStorage();
   const repo = skillsStateRepo();
   const rows = await repo.findMany({});
-  const state: Record<string, { enabled: boolean }> = {};
+  const state: Record<string, SkillStateSummary> = {};
   for (const row of rows) {
-    state[row.id] = { enabled: row.enabled };
+    state[row.id] = {
+      enabled: row.enabled,
+      lastUsedAt: row.lastUsedAt,
+      useCount: row.useCount,
+      approvedHash: row.approvedHash,
+      provenance: provenanceOf(row),
+    };
   }
   return state;
 }
@@ -67,7 +122,7 @@ export async function isSkillEnabledAsync(name: string): Promise<boolean> {
 }
 
 /** Get all skill states (async version) */
-export async function readAllSkillStatesAsync(): Promise<Record<string, { enabled: boolean }>> {
+export async function readAllSkillStatesAsync(): Promise<Record<string, SkillStateSummary>> {
   return getAllSkillStates();
 }
 
@@ -94,6 +149,7 @@ export async function enableSkillAsync(name: string): Promise<boolean> {
       useCount: 0,
     });
   }
+  notifyStateChange();
   return true;
 }
 
@@ -118,9 +174,63 @@ export async function disableSkillAsync(name: string): Promise<boolean> {
       useCount: 0,
     });
   }
+  notifyStateChange();
+  return true;
+}
+
+/**
+ * Approve a quarantined skill's current content so it is injected into the
+ * prompt again. Returns false when the skill is not found; approving a skill
+ * that is not flagged is a no-op.
+ */
+export async function approveSkillAsync(name: string): Promise<boolean> {
+  const { discoverSkills } = await import("./skills.js");
+  const { skills } = discoverSkills();
+  const skill = skills.find((s) => s.name === name);
+  if (!skill) return false;
+  if (!skill.untrusted) return true;
+
+  const approvedHash = skill.untrusted.contentHash;
+  await initSkillsStorage();
+  const repo = skillsStateRepo();
+  const existing = await repo.findFirst({ id: name } as Parameters<typeof repo.findFirst>[0]);
+
+  if (existing) {
+    await repo.update(existing.id, { approvedHash });
+  } else {
+    await repo.insert({
+      id: name,
+      enabled: true,
+      installed: true,
+      useCount: 0,
+      approvedHash,
+    });
+  }
+  logger.info(`[skills-repository] Approved skill "${name}" (${approvedHash.slice(0, 12)})`);
+  notifyStateChange();
   return true;
 }
 
+/** Store install provenance, keeping the skill's enabled state and usage stats */
+export async function recordSkillProvenance(name: string, provenance: SkillProvenance): Promise<void> {
+  await initSkillsStorage();
+  const repo = skillsStateRepo();
+  const existing = await repo.findFirst({ id: name } as Parameters<typeof repo.findFirst>[0]);
+
+  if (existing) {
+    await repo.update(existing.id, { ...provenance, installed: true });
+  } else {
+    await repo.insert({
+      id: name,
+      enabled: true,
+      installed: true,
+      useCount: 0,
+      ...provenance,
+    });
+  }
+  logger.debug(`[skills-repository] Recorded provenance for skill "${name}"`);
+}
+
 /** Record skill usage */
 export async function recordSkillUsage(name: string): Promise<void> {
   await initSkillsStorage();
@@ -146,6 +256,19 @@ export async function recordSkillUsage(name: string): Promise<void> {
   logger.debug(`[skills-repository] Recorded usage for skill "${name}"`);
 }
 
+/** Put back a state record saved when the skill was removed */
+export async function restoreSkillState(record: SkillStateRecord): Promise<void> {
+  await initSkillsStorage();
+  const repo = skillsStateRepo();
+  const existing = await repo.findFirst({ id: record.id } as Parameters<typeof repo.findFirst>[0]);
+  if (existing) {
+    await repo.update(existing.id, record);
+  } else {
+    await repo.insert(record);
+  }
+  logger.debug(`[skills-repository] Restored state for skill "${record.id}"`);
+}
+
 /** Remove skill state (for cleanup when skill is uninstalled) */
 export async function removeSkillState(name: string): Promise<void> {
   await initSkillsStorage();
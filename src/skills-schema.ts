@@ -9,6 +9,16 @@ export const skillStateSchema = z.object({
   enabledAt: z.string().optional(), // ISO timestamp when enabled
   lastUsedAt: z.string().optional(), // ISO timestamp of last use
   useCount: z.number(), // Number of times skill has been used
+  approvedHash: z.string().optional(), // SKILL.md content hash approved for a quarantined skill
+  // Install provenance, set when the skill is installed from a source
+  installSource: z.string().optional(), // Source spec as given (e.g. "github:owner/repo/path@v1")
+  installUrl: z.string().optional(), // Resolved clone URL
+  installCommit: z.string().optional(), // Commit SHA that was installed
+  installRegistry: z.string().optional(), // Registry the skill was resolved through
+  installVersion: z.string().optional(), // Registry version that was installed
+  contentHash: z.string().optional(), // Hash of the installed directory ("sha256:<hex>")
+  installedAt: z.string().optional(), // ISO timestamp of the install
+  installedBy: z.string().optional(), // Who triggered the install (e.g. "cli", "api")
 });
 export type SkillStateRecord = z.infer<typeof skillStateSchema>;
 
@@ -22,10 +32,42 @@ export const registrySchema = z.object({
 });
 export type RegistryRecord = z.infer<typeof registrySchema>;
 
+// ---------- skill_usage_events table ----------
+// model_read: the model loaded the skill, by reading its SKILL.md file or through the
+// skills.read tool; tool_dispatch: a skill slash command forwarded to its command-tool;
+// slash_command: a skill slash command that could not be forwarded (no session bound
+// to the channel)
+export const skillUsageKindSchema = z.enum(["model_read", "slash_command", "tool_dispatch"]);
+export type SkillUsageKind = z.infer<typeof skillUsageKindSchema>;
+
+export const skillUsageEventSchema = z.object({
+  id: z.string(), // Random event id (primary key)
+  skill: z.string(), // Skill name
+  timestamp: z.string(), // ISO timestamp of the invocation
+  // A2A tool handlers get no invocation context, so skills.read events leave both unset
+  session: z.string().optional(), // Session that used the skill
+  channel: z.string().optional(), // Channel id, when known
+  kind: skillUsageKindSchema, // How the skill was used
+  outcome: z.enum(["success", "error"]),
+  error: z.string().optional(), // Error message when outcome is "error"
+});
+export type SkillUsageEventRecord = z.infer<typeof skillUsageEventSchema>;
+
+// ---------- skill_usage_daily table ----------
+// Daily rollups of compacted usage events
+export const skillUsageDailySchema = z.object({
+  id: z.string(), // "<day>:<skill>" (primary key)
+  day: z.string(), // UTC day, YYYY-MM-DD
+  skill: z.string(), // Skill name
+  count: z.number(), // Invocations on that day
+  errors: z.number(), // Invocations with outcome "error"
+});
+export type SkillUsageDailyRecord = z.infer<typeof skillUsageDailySchema>;
+
 // ---------- PluginSchema ----------
 export const skillsPluginSchema: PluginSchema = {
   namespace: "skills",
-  version: 2,
+  version: 6,
   tables: {
     skills_state: {
       schema: skillStateSchema,
@@ -37,5 +79,15 @@ export const skillsPluginSchema: PluginSchema = {
       primaryKey: "id",
       indexes: [],
     },
+    skill_usage_events: {
+      schema: skillUsageEventSchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["skill", "timestamp"] }, { fields: ["timestamp"] }, { fields: ["session"] }],
+    },
+    skill_usage_daily: {
+      schema: skillUsageDailySchema,
+      primaryKey: "id",
+      indexes: [{ fields: ["day"] }, { fields: ["skill", "day"] }],
+    },
   },
 };
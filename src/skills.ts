@@ -6,20 +6,25 @@
 
 import { execFileSync } from "node:child_process";
 import {
+  cpSync,
   existsSync,
+  lstatSync,
   mkdirSync,
   readdirSync,
   readFileSync,
-  realpathSync,
   renameSync,
   rmSync,
   statSync,
+  symlinkSync,
   writeFileSync,
 } from "node:fs";
 import { homedir } from "node:os";
 import { basename, dirname, join, resolve } from "node:path";
 import { logger } from "./logger.js";
-import { PROJECT_SKILLS_DIR, SKILLS_DIR, WOPR_HOME } from "./paths.js";
+import { INSTALL_RECORD_FILE, PROJECT_SKILLS_DIR, SKILLS_DIR, WOPR_HOME } from "./paths.js";
+import { resolveRegistrySkill } from "./registry-fetcher.js";
+import { extractSkillArchive, fetchSkillArchive, findSkillRoot, packSkillArchive, sha256Hex } from "./skill-archive.js";
+import { skillError } from "./skill-errors.js";
 import {
   type ParsedFrontmatter,
   parseSkillFrontmatter,
@@ -27,6 +32,31 @@ import {
   validateSkillDescription,
   validateSkillName,
 } from "./skill-frontmatter-parser.js";
+import { checkoutGitSource } from "./skill-git.js";
+import { hashSkillDirectory } from "./skill-hash.js";
+import {
+  type IndexedSkillFile,
+  invalidateSkillIndex,
+  listSkillFiles,
+  loadIndexedSkillFile,
+  refreshSkillIndex,
+} from "./skill-index.js";
+import { getSkillLockDrift, readSkillLock } from "./skill-lock.js";
+import { type RunCommandOptions, runCommand } from "./skill-process.js";
+import { findSuspiciousContent, toPromptText } from "./skill-sanitize.js";
+import {
+  type GitSkillSource,
+  isArchiveSkillSource,
+  isLocalSkillSource,
+  isRegistrySkillSpec,
+  parseArchiveSkillSource,
+  parseLocalSkillSource,
+  parseRegistrySkillSpec,
+  parseSkillSource,
+  skillSourceForPath,
+} from "./skill-source.js";
+import { createStagingDir, findTrashedSkill, moveToTrash, purgeSkillTrash, restoreFromTrash } from "./skill-staging.js";
+import { getSkillState, recordSkillProvenance, removeSkillState, restoreSkillState } from "./skills-repository.js";
 
 // ============================================================================
 // Skill Interfaces
@@ -34,6 +64,7 @@ import {
 
 export interface SkillMetadata {
   emoji?: string;
+  tags?: string[];
   requires?: {
     bins?: string[];
     libs?: string[];
@@ -51,6 +82,37 @@ export interface SkillInstallStep {
   label?: string;
 }
 
+/** Cancellation and output capture for installs, plus provenance details to record */
+export type InstallOptions = Pick<RunCommandOptions, "signal" | "onOutput"> & {
+  /** Who triggered the install (e.g. "cli", "api") */
+  installedBy?: string;
+  /** Registry the source was resolved through */
+  registry?: string;
+  /** Registry version the source was resolved to */
+  version?: string;
+  /** Symlink local directory sources instead of copying them */
+  link?: boolean;
+  /** Expected sha256 of an archive source when the spec has none, e.g. from a registry entry */
+  sha256?: string;
+  /** Content hash the skill must have, e.g. from skills.lock; checked before it is moved into place */
+  contentHash?: string;
+};
+
+/** Where an installed skill came from, stored as INSTALL_RECORD_FILE in its directory */
+export interface SkillInstallRecord {
+  source: string;
+  url: string;
+  /** Requested tag, branch or SHA; absent when the default branch was installed */
+  ref?: string;
+  /** Commit SHA that was checked out; absent for local directory and archive installs */
+  commit?: string;
+  /** sha256 of the archive the skill was extracted from */
+  sha256?: string;
+  installedAt: string;
+}
+
+export { INSTALL_RECORD_FILE };
+
 export interface InstallConsentProvider {
   requestConsent(skillName: string, step: SkillInstallStep, rawCommand: string): Promise<boolean>;
 }
@@ -72,10 +134,29 @@ export function describeInstallStep(step: SkillInstallStep): string {
   }
 }
 
+/**
+ * How a slash command's argument string becomes tool input:
+ * - raw: `{ command: "<args>" }`
+ * - argv: shell-style split into `{ argv: [...] }`
+ * - json: the argument is parsed as a JSON object and passed as-is
+ * - template: positional/named args are mapped through `command-arg-template`
+ */
+export type SkillCommandArgMode = "raw" | "argv" | "json" | "template";
+
+const COMMAND_ARG_MODES = new Set<SkillCommandArgMode>(["raw", "argv", "json", "template"]);
+
 export interface SkillCommandDispatch {
   kind: "tool";
   toolName: string;
-  argMode: "raw";
+  argMode: SkillCommandArgMode;
+  argTemplate?: Record<string, unknown>;
+}
+
+export interface SkillInvocationPolicy {
+  /** Keep the skill out of the model prompt; it can still be run as a slash command */
+  disableModelInvocation?: boolean;
+  /** Expose the skill as a user slash command */
+  userInvocable?: boolean;
 }
 
 export interface Skill {
@@ -87,16 +168,22 @@ export interface Skill {
   metadata?: SkillMetadata;
   allowedTools?: string[];
   commandDispatch?: SkillCommandDispatch;
+  invocation?: SkillInvocationPolicy;
+  /** Set when the name or description looks like a prompt injection attempt */
+  untrusted?: SkillTrustFlags;
+}
+
+export interface SkillTrustFlags {
+  reasons: string[];
+  /** SKILL.md content hash; approving the skill records it so an edited file is flagged again */
+  contentHash: string;
 }
 
 export interface SkillEntry {
   skill: Skill;
   frontmatter: Record<string, unknown>;
   woprMetadata?: SkillMetadata;
-  invocation: {
-    disableModelInvocation?: boolean;
-    userInvocable?: boolean;
-  };
+  invocation: SkillInvocationPolicy;
 }
 
 // ============================================================================
@@ -121,32 +208,46 @@ function resolveWoprMetadata(frontmatter: ParsedFrontmatter): SkillMetadata | un
   );
 }
 
-function resolveSkillInvocationPolicy(_frontmatter: ParsedFrontmatter): {
-  disableModelInvocation?: boolean;
-  userInvocable?: boolean;
-} {
+function resolveSkillInvocationPolicy(frontmatter: ParsedFrontmatter): SkillInvocationPolicy {
   return {
-    disableModelInvocation: false,
-    userInvocable: true,
+    disableModelInvocation: frontmatter["disable-model-invocation"] ?? false,
+    userInvocable: frontmatter["user-invocable"] ?? true,
   };
 }
 
-function resolveCommandDispatch(frontmatter: ParsedFrontmatter): SkillCommandDispatch | undefined {
+function resolveCommandDispatch(frontmatter: ParsedFrontmatter, warnings: string[]): SkillCommandDispatch | undefined {
   const dispatch = frontmatter["command-dispatch"]?.trim().toLowerCase();
   if (dispatch !== "tool") return undefined;
 
   const toolName = frontmatter["command-tool"]?.trim();
   if (!toolName) {
-    logger.warn(`Skill requested tool dispatch but did not provide command-tool`);
+    warnings.push("command-dispatch is tool but command-tool is missing");
     return undefined;
   }
 
-  const argMode = frontmatter["command-arg-mode"]?.trim().toLowerCase();
-  return {
-    kind: "tool",
-    toolName,
-    argMode: !argMode || argMode === "raw" ? "raw" : "raw",
-  };
+  const argMode = (frontmatter["command-arg-mode"]?.trim().toLowerCase() || "raw") as SkillCommandArgMode;
+  if (!COMMAND_ARG_MODES.has(argMode)) {
+    warnings.push(`unknown command-arg-mode "${argMode}" (expected raw, argv, json or template)`);
+    return undefined;
+  }
+
+  if (argMode !== "template") {
+    return { kind: "tool", toolName, argMode };
+  }
+
+  let argTemplate = frontmatter["command-arg-template"];
+  if (typeof argTemplate === "string") {
+    try {
+      argTemplate = JSON.parse(argTemplate) as Record<string, unknown>;
+    } catch {
+      argTemplate = undefined;
+    }
+  }
+  if (!argTemplate || typeof argTemplate !== "object" || Array.isArray(argTemplate)) {
+    warnings.push("command-arg-mode is template but command-arg-template is not a mapping");
+    return undefined;
+  }
+  return { kind: "tool", toolName, argMode, argTemplate };
 }
 
 // ============================================================================
@@ -166,59 +267,33 @@ function loadSkillsFromDir(
   dir: string,
   source: string,
 ): {
-  entries: SkillEntry[];
+  files: IndexedSkillFile[];
   warnings: SkillValidationWarning[];
 } {
-  const entries: SkillEntry[] = [];
+  const files: IndexedSkillFile[] = [];
   const warnings: SkillValidationWarning[] = [];
 
-  if (!existsSync(dir)) {
-    return { entries, warnings };
-  }
-
-  try {
-    const items = readdirSync(dir, { withFileTypes: true });
-
-    for (const item of items) {
-      if (item.name.startsWith(".") || item.name === "node_modules") {
-        continue;
-      }
-
-      let isDirectory = item.isDirectory();
-      const isSymlink = item.isSymbolicLink();
-
-      if (isSymlink) {
-        try {
-          const stats = statSync(join(dir, item.name));
-          isDirectory = stats.isDirectory();
-        } catch {
-          continue;
-        }
-      }
-
-      if (isDirectory) {
-        const skillFile = join(dir, item.name, "SKILL.md");
-        if (!existsSync(skillFile)) {
-          continue;
-        }
-
-        const result = loadSkillFromFile(skillFile, source);
-        if (result.entry) {
-          entries.push(result.entry);
-        }
-        warnings.push(...result.warnings);
+  for (const skillFile of listSkillFiles(dir)) {
+    try {
+      const indexed = loadIndexedSkillFile(skillFile, source, parseSkillFile);
+      if (indexed.entry) {
+        files.push(indexed);
       }
+      warnings.push(...indexed.warnings);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "failed to read skill file";
+      warnings.push({ skillPath: skillFile, message });
     }
-  } catch (error: unknown) {
-    logger.warn(`Failed to load skills from ${dir}:`, error);
   }
 
-  return { entries, warnings };
+  return { files, warnings };
 }
 
-function loadSkillFromFile(
+function parseSkillFile(
   filePath: string,
+  content: string,
   source: string,
+  hash: string,
 ): {
   entry: SkillEntry | null;
   warnings: SkillValidationWarning[];
@@ -226,7 +301,6 @@ function loadSkillFromFile(
   const warnings: SkillValidationWarning[] = [];
 
   try {
-    const content = readFileSync(filePath, "utf-8");
     const { frontmatter, warnings: fmWarnings } = parseSkillFrontmatter(content);
 
     for (const w of fmWarnings) {
@@ -253,6 +327,21 @@ function loadSkillFromFile(
       return { entry: null, warnings };
     }
 
+    const invocation = resolveSkillInvocationPolicy(frontmatter);
+    const dispatchErrors: string[] = [];
+    const commandDispatch = resolveCommandDispatch(frontmatter, dispatchErrors);
+    for (const error of dispatchErrors) {
+      warnings.push({ skillPath: filePath, message: error });
+    }
+
+    const reasons = findSuspiciousContent(`${name}\n${frontmatter.description}`);
+    if (reasons.length > 0) {
+      warnings.push({
+        skillPath: filePath,
+        message: `suspicious content (${reasons.join(", ")}); skill is quarantined until approved with "wopr skill approve ${name}"`,
+      });
+    }
+
     const entry: SkillEntry = {
       skill: {
         name,
@@ -262,11 +351,13 @@ function loadSkillFromFile(
         source,
         metadata: resolveWoprMetadata(frontmatter),
         allowedTools: frontmatter["allowed-tools"],
-        commandDispatch: resolveCommandDispatch(frontmatter),
+        commandDispatch,
+        invocation,
+        untrusted: reasons.length > 0 ? { reasons, contentHash: hash } : undefined,
       },
       frontmatter: frontmatter as Record<string, unknown>,
       woprMetadata: resolveWoprMetadata(frontmatter),
-      invocation: resolveSkillInvocationPolicy(frontmatter),
+      invocation,
     };
 
     return { entry, warnings };
@@ -277,7 +368,7 @@ function loadSkillFromFile(
   }
 }
 
-function matchesPattern(name: string, patterns: string[]): boolean {
+export function matchesPattern(name: string, patterns: string[]): boolean {
   return patterns.some((pattern) => {
     const escaped = pattern.replace(/[.+^${}()|\\[\]]/g, "\\$&");
     const regex = new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
@@ -285,12 +376,12 @@ function matchesPattern(name: string, patterns: string[]): boolean {
   });
 }
 
-export function discoverSkills(options: DiscoverOptions = {}): {
-  skills: Skill[];
+export function discoverSkillEntries(options: DiscoverOptions = {}): {
+  entries: SkillEntry[];
   warnings: SkillValidationWarning[];
 } {
   const allWarnings: SkillValidationWarning[] = [];
-  const skillMap = new Map<string, Skill>();
+  const entryMap = new Map<string, SkillEntry>();
   const realPathSet = new Set<string>();
 
   const {
@@ -310,10 +401,11 @@ export function discoverSkills(options: DiscoverOptions = {}): {
   ];
 
   for (const { dir, source } of sources) {
-    const { entries, warnings } = loadSkillsFromDir(dir, source);
+    const { files, warnings } = loadSkillsFromDir(dir, source);
     allWarnings.push(...warnings);
 
-    for (const entry of entries) {
+    for (const { entry, realPath } of files) {
+      if (!entry) continue;
       const { skill } = entry;
 
       if (ignoreSkills.length > 0 && matchesPattern(skill.name, ignoreSkills)) {
@@ -323,55 +415,134 @@ export function discoverSkills(options: DiscoverOptions = {}): {
         continue;
       }
 
-      let realPath: string;
-      try {
-        realPath = realpathSync(skill.path);
-      } catch {
-        realPath = skill.path;
-      }
-
       if (realPathSet.has(realPath)) {
         continue;
       }
 
-      const existing = skillMap.get(skill.name);
+      const existing = entryMap.get(skill.name);
       if (existing) {
         allWarnings.push({
           skillPath: skill.path,
-          message: `name collision: "${skill.name}" already loaded from ${existing.path}, skipping`,
+          message: `name collision: "${skill.name}" already loaded from ${existing.skill.path}, skipping`,
         });
         continue;
       }
 
-      skillMap.set(skill.name, skill);
+      entryMap.set(skill.name, entry);
       realPathSet.add(realPath);
     }
   }
 
+  allWarnings.push(...getSkillLockDrift(managedDir));
+
   return {
-    skills: Array.from(skillMap.values()),
+    entries: Array.from(entryMap.values()),
     warnings: allWarnings,
   };
 }
 
+export function discoverSkills(options: DiscoverOptions = {}): {
+  skills: Skill[];
+  warnings: SkillValidationWarning[];
+} {
+  const { entries, warnings } = discoverSkillEntries(options);
+  return {
+    skills: entries.map((e) => e.skill),
+    warnings,
+  };
+}
+
 export function discoverSkillsLegacy(): Skill[] {
   return discoverSkills().skills;
 }
 
+// ============================================================================
+// Prompt Selection
+// ============================================================================
+
+export interface PromptSkillSelection {
+  skills: Skill[];
+  filtered: {
+    disabled: string[];
+    modelInvocationDisabled: string[];
+    quarantined: string[];
+  };
+}
+
+/** A flagged skill stays quarantined until its current content hash has been approved */
+export function isSkillQuarantined(skill: Skill, state?: { approvedHash?: string }): boolean {
+  return Boolean(skill.untrusted) && state?.approvedHash !== skill.untrusted?.contentHash;
+}
+
+/**
+ * Select the skills that may be advertised to the model: drops skills disabled
+ * in skills_state, skills whose frontmatter opts out of model invocation and
+ * quarantined skills.
+ */
+export function selectPromptSkills(
+  entries: SkillEntry[],
+  states: Record<string, { enabled: boolean; approvedHash?: string }>,
+): PromptSkillSelection {
+  const skills: Skill[] = [];
+  const disabled: string[] = [];
+  const modelInvocationDisabled: string[] = [];
+  const quarantined: string[] = [];
+
+  for (const entry of entries) {
+    const { name } = entry.skill;
+    if (states[name]?.enabled === false) {
+      disabled.push(name);
+    } else if (entry.invocation.disableModelInvocation) {
+      modelInvocationDisabled.push(name);
+    } else if (isSkillQuarantined(entry.skill, states[name])) {
+      quarantined.push(name);
+    } else {
+      skills.push(entry.skill);
+    }
+  }
+
+  return { skills, filtered: { disabled, modelInvocationDisabled, quarantined } };
+}
+
 // ============================================================================
 // Skill Formatting
 // ============================================================================
 
-export function formatSkillsXml(skills: Skill[]): string {
+export interface FormatSkillsOptions {
+  /** Skills left out of the list (e.g. for budget reasons); adds a footer pointing at skills.list */
+  omittedCount?: number;
+  /**
+   * Instructions shown after the skill list. `{{skillCount}}` and
+   * `{{omittedCount}}` are replaced; defaults to DEFAULT_SKILLS_TRAILER.
+   */
+  trailer?: string;
+}
+
+export const DEFAULT_SKILLS_TRAILER =
+  "When you need to use a skill, read its full SKILL.md file at the location shown above, or load it with the skills.read tool if you cannot access files.";
+
+/** Trailer instructions plus the omitted-skills footer, shared by every prompt format */
+export function formatSkillsTrailer(skillCount: number, options: FormatSkillsOptions = {}): string {
+  const omittedCount = options.omittedCount ?? 0;
+  const trailer = (options.trailer ?? DEFAULT_SKILLS_TRAILER)
+    .replace(/\{\{\s*skillCount\s*\}\}/g, String(skillCount))
+    .replace(/\{\{\s*omittedCount\s*\}\}/g, String(omittedCount));
+  const footer = omittedCount
+    ? `\n${omittedCount} more skills available via skills.list (find one with skills.search)\n`
+    : "";
+  return `${trailer}\n${footer}`;
+}
+
+export function formatSkillsXml(skills: Skill[], options: FormatSkillsOptions = {}): string {
   if (skills.length === 0) return "";
 
   const skillsXml = skills
     .map((s) => {
-      const emoji = s.metadata?.emoji ? `${s.metadata.emoji} ` : "";
+      const emoji = s.metadata?.emoji ? `${toPromptText(s.metadata.emoji)} ` : "";
       return `  <skill>
-    <name>${s.name}</name>
-    <description>${emoji}${s.description}</description>
-    <location>${s.path}</location>
+    <name>${toPromptText(s.name)}</name>
+    <description>${emoji}${toPromptText(s.description)}</description>
+    <location>${toPromptText(s.path)}</location>
   </skill>`;
     })
     .join("\n");
@@ -381,12 +552,12 @@ export function formatSkillsXml(skills: Skill[]): string {
 ${skillsXml}
 </available_skills>
 
-When you need to use a skill, read its full SKILL.md file at the location shown above.
-`;
+${formatSkillsTrailer(skills.length, options)}`;
 }
 
-export function buildSkillsPrompt(skills: Skill[]): string {
-  return formatSkillsXml(skills);
+/** XML skills prompt; use renderSkillsPrompt from skill-renderers.js for other formats */
+export function buildSkillsPrompt(skills: Skill[], options: FormatSkillsOptions = {}): string {
+  return formatSkillsXml(skills, options);
 }
 
 // ============================================================================
@@ -438,7 +609,7 @@ export function buildSkillCommandSpecs(
   const used = new Set<string>(reservedNames.map((r) => r.toLowerCase()));
 
   return skills
-    .filter((s) => s.commandDispatch)
+    .filter((s) => s.commandDispatch && s.invocation?.userInvocable !== false)
     .map((skill) => {
       const base = sanitizeSkillCommandName(skill.name);
       const unique = resolveUniqueSkillCommandName(base, used);
@@ -486,6 +657,7 @@ export function checkSkillDependencies(skill: Skill): {
 export async function installSkillDependencies(
   skill: Skill,
   consentProvider?: InstallConsentProvider,
+  options: InstallOptions = {},
 ): Promise<boolean> {
   const installSteps = skill.metadata?.install;
   if (!installSteps || installSteps.length === 0) return true;
@@ -519,31 +691,32 @@ export async function installSkillDependencies(
       switch (step.kind) {
         case "brew":
           if (step.formula) {
-            execFileSync("brew", ["install", step.formula], { stdio: "inherit" });
+            await runCommand("brew", ["install", step.formula], options);
           }
           break;
         case "apt":
           if (step.package) {
-            execFileSync("sudo", ["apt-get", "install", "-y", step.package], { stdio: "inherit" });
+            await runCommand("sudo", ["apt-get", "install", "-y", step.package], options);
           }
           break;
         case "npm":
           if (step.package) {
-            execFileSync("npm", ["install", "-g", step.package], { stdio: "inherit" });
+            await runCommand("npm", ["install", "-g", step.package], options);
           }
           break;
         case "pip":
           if (step.package) {
-            execFileSync("pip", ["install", step.package], { stdio: "inherit" });
+            await runCommand("pip", ["install", step.package], options);
           }
           break;
         case "script":
           if (step.script) {
-            execFileSync("/bin/bash", ["-c", step.script], { stdio: "inherit" });
+            await runCommand("/bin/bash", ["-c", step.script], options);
           }
           break;
       }
     } catch (error: unknown) {
+      if (options.signal?.aborted) throw error;
       logger.error(`Failed to install ${step.id}:`, error);
       return false;
     }
@@ -559,14 +732,15 @@ export async function installSkillDependencies(
 export function createSkill(name: string, description?: string): Skill {
   const targetDir = join(SKILLS_DIR, name);
   if (existsSync(targetDir)) {
-    throw new Error(`Skill "${name}" already exists`);
+    throw skillError("conflict", `Skill "${name}" already exists`);
   }
 
-  mkdirSync(targetDir, { recursive: true });
+  const stagedDir = createStagingDir();
+  mkdirSync(stagedDir);
   const desc = description || `WOPR skill: ${name}`;
   const skillPath = join(targetDir, "SKILL.md");
   writeFileSync(
-    skillPath,
+    join(stagedDir, "SKILL.md"),
     `---
 name: ${name}
 description: ${desc}
@@ -575,6 +749,8 @@ description: ${desc}
 # ${name}
 `,
   );
+  renameSync(stagedDir, targetDir);
+  invalidateSkillIndex(name);
 
   return {
     name,
@@ -585,99 +761,518 @@ description: ${desc}
   };
 }
 
-export function removeSkill(name: string): void {
-  const targetDir = join(SKILLS_DIR, name);
-  if (!existsSync(targetDir)) {
-    throw new Error(`Skill "${name}" not found`);
+/** Whether anything, including a dangling symlink, is at `path` */
+function pathExists(path: string): boolean {
+  try {
+    lstatSync(path);
+    return true;
+  } catch {
+    return false;
   }
-  rmSync(targetDir, { recursive: true, force: true });
+}
 
-  import("./skills-repository.js").then(({ removeSkillState }) => {
-    removeSkillState(name).catch((err: unknown) => {
-      logger.warn(`Failed to remove skill state for "${name}":`, err);
-    });
-  });
+/**
+ * Move an installed skill to the trash and drop its state. The state goes
+ * into the trash with the files; if it cannot be removed the files are put
+ * back, so the skill is either fully installed or fully removed.
+ */
+export async function removeSkill(name: string): Promise<void> {
+  // lstat, not existsSync: a linked skill whose target is gone must still be removable
+  if (!/^[a-zA-Z0-9._-]+$/.test(name) || !pathExists(join(SKILLS_DIR, name))) {
+    throw skillError("not_found", `Skill "${name}" not found`);
+  }
+  const state = await getSkillState(name);
+  const entry = moveToTrash(name, state ?? undefined);
+  try {
+    await removeSkillState(name);
+  } catch (error: unknown) {
+    restoreFromTrash(entry);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to remove skill "${name}": ${message}`);
+  }
+  invalidateSkillIndex(name);
+  try {
+    purgeSkillTrash();
+  } catch (error: unknown) {
+    logger.warn("Failed to purge the skill trash:", error);
+  }
 }
 
-export function installSkillFromGitHub(owner: string, repo: string, skillPath: string, name?: string): Skill {
-  const validGhName = /^[a-zA-Z0-9._-]+$/;
-  const validPathSegment = /^[a-zA-Z0-9._-]+$/;
-  if (!validGhName.test(owner) || !validGhName.test(repo)) {
-    throw new Error("Invalid GitHub owner or repo name");
+/** Bring back the most recently removed copy of a skill, with its state */
+export async function restoreSkill(name: string): Promise<Skill> {
+  const entry = findTrashedSkill(name);
+  if (!entry) {
+    throw skillError("not_found", `Skill "${name}" is not in the trash`);
   }
-  const pathSegments = skillPath.split("/").filter(Boolean);
-  if (pathSegments.length === 0 || pathSegments.some((seg) => !validPathSegment.test(seg) || seg === "..")) {
-    throw new Error("Invalid skill path");
+  if (pathExists(join(SKILLS_DIR, name))) {
+    throw skillError("conflict", `Skill "${name}" already exists`);
   }
-  const normalizedSkillPath = pathSegments.join("/");
+  if (entry.state) {
+    await restoreSkillState(entry.state);
+  }
+  try {
+    restoreFromTrash(entry);
+  } catch (error: unknown) {
+    if (entry.state) await removeSkillState(name);
+    throw error;
+  }
+  invalidateSkillIndex(name);
 
-  const skillName = name || pathSegments[pathSegments.length - 1];
-  if (!validGhName.test(skillName)) {
+  const targetDir = join(SKILLS_DIR, name);
+  const skill = discoverSkillsLegacy().find((s) => s.baseDir === targetDir);
+  if (!skill) {
+    throw new Error("Skill restored but not discoverable");
+  }
+  return skill;
+}
+
+/** Install from a parsed git source: the whole repository, or one directory of it via sparse checkout */
+export async function installSkillFromGit(
+  spec: GitSkillSource,
+  name?: string,
+  options: InstallOptions = {},
+): Promise<Skill> {
+  if (spec.collection) {
+    throw new Error(`"${spec.source}" names several skills; install them with --all`);
+  }
+  const skillName = name || (spec.subPath ? basename(spec.subPath) : spec.repo);
+  if (!/^[a-zA-Z0-9._-]+$/.test(skillName)) {
     throw new Error("Invalid skill name");
   }
   const targetDir = join(SKILLS_DIR, skillName);
 
   if (existsSync(targetDir)) {
-    throw new Error(`Skill "${skillName}" already exists`);
+    throw skillError("conflict", `Skill "${skillName}" already exists`);
   }
 
-  const tmpDir = join(SKILLS_DIR, `.tmp-${Date.now()}`);
+  const tmpDir = createStagingDir();
+  let record: SkillInstallRecord;
   try {
-    execFileSync(
-      "git",
-      ["clone", "--depth", "1", "--filter=blob:none", "--sparse", `https://github.com/${owner}/${repo}.git`, tmpDir],
-      { stdio: "pipe" },
-    );
-    execFileSync("git", ["-C", tmpDir, "sparse-checkout", "set", normalizedSkillPath], { stdio: "pipe" });
-    renameSync(join(tmpDir, normalizedSkillPath), targetDir);
+    const { url, ref, subPath } = spec;
+    const commit = await checkoutGitSource({ url, ref, sparsePath: subPath, dir: tmpDir }, options);
+    const sourceDir = subPath ? join(tmpDir, subPath) : tmpDir;
+    if (!existsSync(sourceDir)) {
+      throw new Error(`Path "${subPath}" not found in ${url}${ref ? `@${ref}` : ""}`);
+    }
+    verifyContentHash(sourceDir, options.contentHash);
+    record = writeInstallRecord(sourceDir, { source: spec.source, url, ...(ref ? { ref } : {}), commit });
+    renameSync(sourceDir, targetDir);
     rmSync(tmpDir, { recursive: true, force: true });
-  } catch {
+  } catch (error: unknown) {
+    rmSync(tmpDir, { recursive: true, force: true });
+    if (options.signal?.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to install skill from ${spec.host}: ${message}`);
+  }
+  return finishInstall(skillName, record, options);
+}
+
+/** Options for installing several skills from one repository */
+export type CollectionInstallOptions = InstallOptions & {
+  /** Only install skills whose name matches one of these globs */
+  include?: string[];
+  /** Skip skills whose name matches one of these globs */
+  ignore?: string[];
+};
+
+/** Directories under `dir` holding a SKILL.md, relative to `root`; skills do not nest */
+function findSkillDirs(root: string, dir: string, found: string[] = []): string[] {
+  if (existsSync(join(dir, "SKILL.md"))) {
+    found.push(dir.slice(root.length + 1));
+    return found;
+  }
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== "node_modules") {
+      findSkillDirs(root, join(dir, entry.name), found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Install every skill under a directory of a git source (`.../skills/*`, or
+ * any git source with --all) from a single checkout. Each directory holding a
+ * SKILL.md is a skill named after the directory; include/ignore globs pick a
+ * subset. Name collisions, within the repository or with installed skills,
+ * and invalid skills are all reported before anything is installed, and the
+ * skills are moved into place together, so either all of them are installed
+ * or none. Each skill records its own source spec, so it can be updated and
+ * locked on its own.
+ */
+export async function installSkillCollection(source: string, options: CollectionInstallOptions = {}): Promise<Skill[]> {
+  const spec = parseSkillSource(source);
+  const tmpDir = createStagingDir();
+  const installed: Array<{ name: string; record: SkillInstallRecord }> = [];
+  try {
+    const { url, ref, subPath } = spec;
+    const commit = await checkoutGitSource({ url, ref, sparsePath: subPath, dir: tmpDir }, options);
+    const collectionDir = subPath ? join(tmpDir, subPath) : tmpDir;
+    if (!existsSync(collectionDir)) {
+      throw new Error(`Path "${subPath}" not found in ${url}${ref ? `@${ref}` : ""}`);
+    }
+
+    const byName = new Map<string, string[]>();
+    for (const path of findSkillDirs(tmpDir, collectionDir)) {
+      const name = path ? basename(path) : spec.repo;
+      if (options.ignore?.length && matchesPattern(name, options.ignore)) continue;
+      if (options.include?.length && !matchesPattern(name, options.include)) continue;
+      byName.set(name, [...(byName.get(name) ?? []), path]);
+    }
+    if (byName.size === 0) {
+      const filtered = options.include?.length || options.ignore?.length ? " matching the include/ignore patterns" : "";
+      throw new Error(`No skills${filtered} under ${subPath || "the repository root"}`);
+    }
+
+    const problems: string[] = [];
+    for (const [name, paths] of byName) {
+      if (paths.length > 1) {
+        problems.push(`"${name}" is defined more than once (${paths.join(", ")})`);
+      } else if (!/^[a-zA-Z0-9._-]+$/.test(name)) {
+        problems.push(`"${name}" is not a valid skill name`);
+      } else if (existsSync(join(SKILLS_DIR, name))) {
+        problems.push(`"${name}" is already installed`);
+      } else {
+        try {
+          validateLocalSkillDir(join(tmpDir, paths[0]), paths[0] || "the repository root");
+        } catch (error: unknown) {
+          problems.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+    if (problems.length > 0) {
+      throw new Error(`Nothing installed: ${problems.join("; ")}`);
+    }
+
+    const staged = [...byName].sort(([a], [b]) => a.localeCompare(b));
+    const records = staged.map(([, [path]]) =>
+      writeInstallRecord(join(tmpDir, path), {
+        source: skillSourceForPath(spec, path),
+        url,
+        ...(ref ? { ref } : {}),
+        commit,
+      }),
+    );
+    // The repository root itself can only be a lone skill, so moving it out cannot disturb others
+    staged.forEach(([name, [path]], i) => {
+      renameSync(join(tmpDir, path), join(SKILLS_DIR, name));
+      installed.push({ name, record: records[i] });
+    });
+  } catch (error: unknown) {
+    for (const { name } of installed) {
+      rmSync(join(SKILLS_DIR, name), { recursive: true, force: true });
+    }
     rmSync(tmpDir, { recursive: true, force: true });
-    throw new Error("Failed to install skill from GitHub");
+    if (options.signal?.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to install skills from ${spec.host}: ${message}`);
+  }
+  rmSync(tmpDir, { recursive: true, force: true });
+
+  const skills: Skill[] = [];
+  try {
+    for (const { name, record } of installed) {
+      skills.push(await finishInstall(name, record, options));
+    }
+  } catch (error: unknown) {
+    // Undo the whole collection, including the state recorded for the skills finished so far
+    for (const { name } of installed) {
+      rmSync(join(SKILLS_DIR, name), { recursive: true, force: true });
+      await removeSkillState(name).catch((stateError: unknown) => {
+        logger.warn(`Failed to remove the state of "${name}" after a failed install:`, stateError);
+      });
+      invalidateSkillIndex(name);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to install skills from ${spec.host}: ${message}`);
+  }
+  return skills;
+}
+
+/** Refresh the index, record provenance and return the newly installed skill */
+async function finishInstall(skillName: string, record: SkillInstallRecord, options: InstallOptions): Promise<Skill> {
+  const targetDir = join(SKILLS_DIR, skillName);
+  invalidateSkillIndex(skillName);
+
+  try {
+    await recordSkillProvenance(skillName, {
+      installSource: record.source,
+      installUrl: record.url,
+      installCommit: record.commit,
+      installRegistry: options.registry,
+      installVersion: options.version,
+      contentHash: hashSkillDirectory(targetDir),
+      installedAt: record.installedAt,
+      installedBy: options.installedBy,
+    });
+  } catch (error: unknown) {
+    logger.warn(`Failed to record install provenance for "${skillName}":`, error);
   }
 
-  const skill = discoverSkillsLegacy().find((s) => s.name === skillName);
+  // The frontmatter name wins over the directory name, so match on the directory
+  const skill = discoverSkillsLegacy().find((s) => s.baseDir === targetDir);
   if (!skill) {
     throw new Error("Skill installed but not discoverable");
   }
   return skill;
 }
 
-export function installSkillFromUrl(source: string, name?: string): Skill {
-  const skillName = name || basename(source).replace(/\.git$/, "");
-  const validName = /^[a-zA-Z0-9._-]+$/;
-  if (!validName.test(skillName)) {
+/** Throw when a staged skill's content hash differs from the expected one */
+function verifyContentHash(dir: string, expected: string | undefined): void {
+  if (!expected) return;
+  const actual = hashSkillDirectory(dir);
+  if (actual !== expected) {
+    throw new Error(`content hash ${actual} does not match the expected ${expected}`);
+  }
+}
+
+/** Throw unless `dir` holds a SKILL.md that discovery would load */
+function validateLocalSkillDir(dir: string, label = dir): void {
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    throw new Error(`Directory not found: ${dir}`);
+  }
+  const skillFile = join(dir, "SKILL.md");
+  if (!existsSync(skillFile)) {
+    throw new Error(`No SKILL.md found in ${label}`);
+  }
+  const { entry, warnings } = parseSkillFile(skillFile, readFileSync(skillFile, "utf-8"), "managed", "");
+  if (!entry) {
+    const reasons = warnings.map((w) => w.message).join("; ") || "missing description";
+    throw new Error(`Invalid SKILL.md in ${label}: ${reasons}`);
+  }
+}
+
+/**
+ * Install from a local directory (`path:` or `file://`). The directory is
+ * copied into SKILLS_DIR, or with `link` symlinked so edits show up
+ * immediately; linked skills get no install record in their directory.
+ */
+export async function installSkillFromPath(
+  source: string,
+  name?: string,
+  options: InstallOptions = {},
+): Promise<Skill> {
+  const { path: sourceDir } = parseLocalSkillSource(source);
+  validateLocalSkillDir(sourceDir);
+  const skillName = name || basename(sourceDir);
+  if (!/^[a-zA-Z0-9._-]+$/.test(skillName)) {
     throw new Error("Invalid skill name");
   }
   const targetDir = join(SKILLS_DIR, skillName);
 
   if (existsSync(targetDir)) {
-    throw new Error(`Skill "${skillName}" already exists`);
+    throw skillError("conflict", `Skill "${skillName}" already exists`);
   }
 
-  try {
-    const parsed = new URL(source);
-    if (parsed.protocol !== "https:") {
-      throw new Error("Only HTTPS URLs are supported for skill installation");
+  let record: SkillInstallRecord;
+  if (options.link) {
+    const stagedLink = createStagingDir();
+    symlinkSync(sourceDir, stagedLink, "dir");
+    renameSync(stagedLink, targetDir);
+    record = { source, url: sourceDir, installedAt: new Date().toISOString() };
+  } else {
+    const tmpDir = createStagingDir();
+    try {
+      cpSync(sourceDir, tmpDir, {
+        recursive: true,
+        verbatimSymlinks: true,
+        filter: (src) => basename(src) !== ".git",
+      });
+      record = writeInstallRecord(tmpDir, { source, url: sourceDir });
+      renameSync(tmpDir, targetDir);
+    } catch (error: unknown) {
+      rmSync(tmpDir, { recursive: true, force: true });
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to install skill from ${sourceDir}: ${message}`);
     }
-  } catch (e: unknown) {
-    const error = e as Error;
-    if (error.message.includes("HTTPS")) throw error;
-    throw new Error("Invalid skill source URL");
   }
+  return finishInstall(skillName, record, options);
+}
 
+/**
+ * Install from a `.tar.gz`, `.zip` or `.skill` archive, local or over HTTPS.
+ * The archive is checked against the expected sha256 (from the spec, or the
+ * registry entry via options) before it is extracted into a staging directory
+ * and moved into SKILLS_DIR. Without a name the skill is named after the
+ * archive's top-level folder, or the archive file.
+ */
+export async function installSkillFromArchive(
+  source: string,
+  name?: string,
+  options: InstallOptions = {},
+): Promise<Skill> {
+  const spec = parseArchiveSkillSource(source);
+  const location = spec.url ?? spec.path ?? spec.source;
+  const expected = spec.sha256 ?? options.sha256?.toLowerCase();
+
+  const tmpDir = createStagingDir();
+  let skillName: string;
+  let record: SkillInstallRecord;
   try {
-    execFileSync("git", ["clone", source, targetDir], { stdio: "inherit" });
+    const { data, sha256 } = await fetchSkillArchive(spec, expected, options.signal);
+    extractSkillArchive(data, tmpDir);
+    const rootDir = findSkillRoot(tmpDir);
+    validateLocalSkillDir(rootDir, "the archive");
+
+    skillName = name || (rootDir === tmpDir ? spec.name : basename(rootDir));
+    if (!/^[a-zA-Z0-9._-]+$/.test(skillName)) {
+      throw new Error("Invalid skill name");
+    }
+    const targetDir = join(SKILLS_DIR, skillName);
+    if (existsSync(targetDir)) {
+      throw skillError("conflict", `Skill "${skillName}" already exists`);
+    }
+    verifyContentHash(rootDir, options.contentHash);
+    record = writeInstallRecord(rootDir, { source: spec.source, url: location, sha256 });
+    renameSync(rootDir, targetDir);
   } catch (error: unknown) {
-    rmSync(targetDir, { recursive: true, force: true });
-    throw error;
+    rmSync(tmpDir, { recursive: true, force: true });
+    if (options.signal?.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to install skill from ${location}: ${message}`);
   }
+  rmSync(tmpDir, { recursive: true, force: true });
+  return finishInstall(skillName, record, options);
+}
 
-  const skill = discoverSkillsLegacy().find((s) => s.name === skillName);
+/**
+ * Pack an installed or workspace skill into a `.tar.gz` that
+ * installSkillFromArchive accepts. Defaults to `<name>.tar.gz` in the working
+ * directory; returns the archive path and its sha256.
+ */
+export function packSkill(name: string, outPath?: string): { path: string; sha256: string } {
+  const skill = getSkillByName(name);
   if (!skill) {
-    throw new Error("Skill installed but not discoverable");
+    throw skillError("not_found", `Skill "${name}" not found`);
   }
-  return skill;
+  const data = packSkillArchive(skill.baseDir, skill.name);
+  const path = resolve(outPath ?? `${skill.name}.tar.gz`);
+  writeFileSync(path, data);
+  return { path, sha256: sha256Hex(data) };
+}
+
+/** Whether the skill directory is a symlink (e.g. installed with link mode) */
+export function isLinkedSkill(skill: Pick<Skill, "baseDir">): boolean {
+  try {
+    return lstatSync(skill.baseDir).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+export async function installSkillFromGitHub(
+  owner: string,
+  repo: string,
+  skillPath: string,
+  name?: string,
+  options: InstallOptions = {},
+): Promise<Skill> {
+  const validGhName = /^[a-zA-Z0-9._-]+$/;
+  if (!validGhName.test(owner) || !validGhName.test(repo)) {
+    throw new Error("Invalid GitHub owner or repo name");
+  }
+  return installSkillFromGit(parseSkillSource(`github:${owner}/${repo}/${skillPath}`), name, options);
+}
+
+export async function installSkillFromUrl(source: string, name?: string, options: InstallOptions = {}): Promise<Skill> {
+  return installSkillFromGit(parseSkillSource(source), name, options);
+}
+
+/** Write the install record into a skill directory, stamped with the current time */
+export function writeInstallRecord(dir: string, record: Omit<SkillInstallRecord, "installedAt">): SkillInstallRecord {
+  const full: SkillInstallRecord = { ...record, installedAt: new Date().toISOString() };
+  writeFileSync(join(dir, INSTALL_RECORD_FILE), `${JSON.stringify(full, null, 2)}\n`);
+  return full;
+}
+
+/** Install record written when the skill was installed from a git source, if any */
+export function readInstallRecord(skill: Pick<Skill, "baseDir">): SkillInstallRecord | null {
+  try {
+    return JSON.parse(readFileSync(join(skill.baseDir, INSTALL_RECORD_FILE), "utf-8")) as SkillInstallRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Install a skill by registry name (`name` or `registry/name`, optionally
+ * `@version`). The registry entry's source is installed under the skill's
+ * registry name, and the registry and version are recorded with it.
+ */
+export async function installSkillFromRegistry(
+  spec: string,
+  name?: string,
+  options: InstallOptions = {},
+): Promise<Skill> {
+  const parsed = parseRegistrySkillSpec(spec);
+  const entry = await resolveRegistrySkill(parsed);
+  if (isRegistrySkillSpec(entry.source)) {
+    throw new Error(`Registry entry for "${entry.name}" has no installable source: ${entry.source}`);
+  }
+  return installSkillFromSource(entry.source, name || parsed.name, {
+    ...options,
+    registry: entry.registry,
+    version: entry.version,
+    sha256: entry.sha256 ?? options.sha256,
+  });
+}
+
+/** Install from any source spec: a registry name, an archive, a local directory or a git source */
+export async function installSkillFromSource(
+  source: string,
+  name?: string,
+  options: InstallOptions = {},
+): Promise<Skill> {
+  if (isRegistrySkillSpec(source)) {
+    return installSkillFromRegistry(source, name, options);
+  }
+  if (isArchiveSkillSource(source)) {
+    return installSkillFromArchive(source, name, options);
+  }
+  if (isLocalSkillSource(source)) {
+    return installSkillFromPath(source, name, options);
+  }
+  return installSkillFromGit(parseSkillSource(source), name, options);
+}
+
+/**
+ * Install exactly what skills.lock specifies: missing skills are installed at
+ * their locked commit (archives from their locked source), and any installed or newly fetched skill whose content
+ * hash differs from the lock fails the install. Fetched skills are checked in
+ * the staging area, so a mismatching one never reaches the skills directory.
+ */
+export async function installSkillsFromLock(
+  options: InstallOptions & { lockPath?: string } = {},
+): Promise<{ installed: string[]; unchanged: string[] }> {
+  const lock = readSkillLock(options.lockPath);
+  if (!lock) {
+    throw new Error("No skills.lock found; create one with: wopr skill lock");
+  }
+  const entries = Object.entries(lock.skills);
+
+  const mismatched = entries
+    .filter(([name]) => existsSync(join(SKILLS_DIR, name)))
+    .filter(([name, entry]) => hashSkillDirectory(join(SKILLS_DIR, name)) !== entry.contentHash)
+    .map(([name]) => name);
+  if (mismatched.length > 0) {
+    throw new Error(`Installed skills do not match skills.lock: ${mismatched.join(", ")}`);
+  }
+
+  const installed: string[] = [];
+  const unchanged: string[] = [];
+  for (const [name, entry] of entries) {
+    if (existsSync(join(SKILLS_DIR, name))) {
+      unchanged.push(name);
+      continue;
+    }
+    const lockedOptions = { ...options, contentHash: entry.contentHash };
+    if (isArchiveSkillSource(entry.source)) {
+      await installSkillFromArchive(entry.source, name, lockedOptions);
+    } else {
+      await installSkillFromGit({ ...parseSkillSource(entry.source), ref: entry.commit }, name, lockedOptions);
+    }
+    installed.push(name);
+  }
+  return { installed, unchanged };
 }
 
 export function clearSkillCache(): void {
@@ -685,19 +1280,29 @@ export function clearSkillCache(): void {
   if (existsSync(cacheDir)) {
     rmSync(cacheDir, { recursive: true, force: true });
   }
+  refreshSkillIndex();
 }
 
+export {
+  closeSkillIndex,
+  invalidateSkillIndex,
+  onSkillIndexChange,
+  refreshSkillIndex,
+} from "./skill-index.js";
+
 // ============================================================================
 // Skill State Management (Enable / Disable) - Re-export async API
 // ============================================================================
 
 export {
+  approveSkillAsync,
   disableSkillAsync,
   enableSkillAsync,
   getAllSkillStates,
   getSkillState,
   initSkillsStorage,
   isSkillEnabledAsync,
+  onSkillStateChange,
   readAllSkillStatesAsync,
   recordSkillUsage,
   removeSkillState,
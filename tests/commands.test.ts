@@ -10,11 +10,80 @@ vi.mock("../src/skills.js", () => ({
   })),
   createSkill: vi.fn(() => ({ name: "new-skill", description: "desc" })),
   removeSkill: vi.fn(),
-  installSkillFromGitHub: vi.fn(() => ({ name: "gh-skill" })),
-  installSkillFromUrl: vi.fn(() => ({ name: "url-skill" })),
+  restoreSkill: vi.fn(async (name: string) => ({ name })),
   clearSkillCache: vi.fn(),
   enableSkillAsync: vi.fn(async () => true),
   disableSkillAsync: vi.fn(async () => true),
+  approveSkillAsync: vi.fn(async () => true),
+  isSkillQuarantined: vi.fn(() => false),
+  readAllSkillStatesAsync: vi.fn(async () => ({})),
+  installSkillsFromLock: vi.fn(async () => ({ installed: ["pdf"], unchanged: ["docx"] })),
+  packSkill: vi.fn(() => ({ path: "/out/pdf.tar.gz", sha256: "ab".repeat(32) })),
+}));
+
+vi.mock("../src/skill-staging.js", () => ({
+  listTrashedSkills: vi.fn(() => [{ id: "1-pdf", name: "pdf", removedAt: "2026-07-01T00:00:00.000Z" }]),
+}));
+
+vi.mock("../src/skill-manifest.js", () => ({
+  planSkillSync: vi.fn(async () => ({
+    install: [{ name: "pdf", source: "github:o/r/pdf", registry: "official" }],
+    enable: [],
+    disable: ["docx"],
+    remove: ["stale"],
+    errors: [{ name: "missing", error: "not found" }],
+  })),
+  isEmptySyncPlan: vi.fn(() => false),
+  applySkillSync: vi.fn(async () => ({
+    applied: [{ action: "install", name: "pdf" }],
+    errors: [{ action: "remove", name: "stale", error: "busy" }],
+  })),
+}));
+
+vi.mock("../src/skill-lock.js", () => ({
+  writeSkillLock: vi.fn(async () => ({
+    lock: { lockfileVersion: 1, skills: { pdf: {} } },
+    warnings: ["notes: no recorded install source, not locked"],
+  })),
+  readSkillLock: vi.fn(() => ({ lockfileVersion: 1, skills: {} })),
+  checkSkillLockDrift: vi.fn(() => [
+    { skillPath: "/skills/pdf/SKILL.md", message: '"pdf" differs from skills.lock (expected a, found b)' },
+  ]),
+}));
+
+vi.mock("../src/skill-install-jobs.js", () => ({
+  startInstallJob: vi.fn(() => ({ id: "job-1", state: "queued" })),
+  waitForInstallJob: vi.fn(async () => ({ id: "job-1", kind: "install", source: "x", state: "succeeded", skill: "gh-skill" })),
+  getInstallJob: vi.fn((id: string) =>
+    id === "job-1"
+      ? { id, kind: "install", source: "x", state: "failed", error: "boom", stdout: "", stderr: "fatal\n" }
+      : id === "job-2"
+        ? { id, kind: "update", name: "pdf", state: "succeeded", stdout: "", stderr: "" }
+        : null,
+  ),
+  cancelInstallJob: vi.fn((id: string) => (id === "job-1" ? { id, state: "cancelled" } : null)),
+}));
+
+vi.mock("../src/skill-update.js", () => ({
+  listUpdatableSkills: vi.fn(async () => ["pdf", "docx"]),
+  checkSkillUpdate: vi.fn(async (name: string) => ({
+    name,
+    source: "github:o/r/pdf",
+    currentCommit: "aaaaaaa1111",
+    latestCommit: name === "pdf" ? "bbbbbbb2222" : "aaaaaaa1111",
+    updateAvailable: name === "pdf",
+    modified: false,
+  })),
+  updateSkill: vi.fn(async (name: string) => {
+    if (name === "docx") throw new Error('Skill "docx" has local modifications; use --force to overwrite them');
+    return {
+      name,
+      updated: true,
+      fromCommit: "aaaaaaa1111",
+      toCommit: "bbbbbbb2222",
+      changes: { added: ["new.txt"], removed: [], modified: ["SKILL.md"] },
+    };
+  }),
 }));
 
 vi.mock("../src/registries-repository.js", () => ({
@@ -27,6 +96,14 @@ vi.mock("../src/registry-fetcher.js", () => ({
   fetchAllRegistries: vi.fn(async () => ({
     skills: [
       { name: "remote-skill", description: "Remote", source: "github:owner/repo/skill", registry: "default" },
+      {
+        name: "remote-pdf",
+        description: "PDFs",
+        source: "github:owner/repo/pdf",
+        version: "1.2.0",
+        registry: "default",
+      },
+      { name: "remote-pdf", description: "PDFs", source: "github:other/repo/pdf", registry: "mirror" },
     ],
     errors: [],
   })),
@@ -60,6 +137,31 @@ describe("skillCommands", () => {
   it("list: shows discovered skills", async () => {
     await skillCommands[0].handler(ctx, ["list"]);
     expect(ctx.log.info).toHaveBeenCalledWith(expect.stringContaining("test-skill"));
+    expect(ctx.log.info).not.toHaveBeenCalledWith(expect.stringContaining("source:"));
+  });
+
+  it("list --verbose: shows install provenance", async () => {
+    const { readAllSkillStatesAsync } = await import("../src/skills.js");
+    vi.mocked(readAllSkillStatesAsync).mockResolvedValueOnce({
+      "test-skill": {
+        enabled: true,
+        useCount: 0,
+        provenance: {
+          installSource: "github:o/r/test-skill@v1",
+          installCommit: "abc123",
+          installRegistry: "official",
+          installVersion: "1.2.0",
+          installedAt: "2026-06-01T00:00:00.000Z",
+          installedBy: "cli",
+        },
+      },
+    });
+    await skillCommands[0].handler(ctx, ["list", "--verbose"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("    source: github:o/r/test-skill@v1");
+    expect(ctx.log.info).toHaveBeenCalledWith("    commit: abc123");
+    expect(ctx.log.info).toHaveBeenCalledWith("    registry: official");
+    expect(ctx.log.info).toHaveBeenCalledWith("    version: 1.2.0");
+    expect(ctx.log.info).toHaveBeenCalledWith("    installed: 2026-06-01T00:00:00.000Z by cli");
   });
 
   it("registry list: shows registries", async () => {
@@ -83,18 +185,178 @@ describe("skillCommands", () => {
   it("search: searches registries", async () => {
     await skillCommands[0].handler(ctx, ["search", "remote"]);
     expect(ctx.log.info).toHaveBeenCalledWith(expect.stringContaining("remote-skill"));
+    expect(ctx.log.info).toHaveBeenCalledWith("    wopr skill install remote-skill");
+    expect(ctx.log.info).toHaveBeenCalledWith("  remote-pdf 1.2.0 (default)");
+    expect(ctx.log.info).toHaveBeenCalledWith("    wopr skill install default/remote-pdf");
+    expect(ctx.log.info).toHaveBeenCalledWith("    wopr skill install mirror/remote-pdf");
   });
 
-  it("install: installs from github source", async () => {
-    const { installSkillFromGitHub } = await import("../src/skills.js");
+  it("install: queues a background job and prints its id", async () => {
+    const { startInstallJob, waitForInstallJob } = await import("../src/skill-install-jobs.js");
     await skillCommands[0].handler(ctx, ["install", "github:owner/repo/skill"]);
-    expect(installSkillFromGitHub).toHaveBeenCalledWith("owner", "repo", "skill", undefined);
+    expect(startInstallJob).toHaveBeenCalledWith({
+      source: "github:owner/repo/skill",
+      name: undefined,
+      installedBy: "cli",
+    });
+    expect(waitForInstallJob).not.toHaveBeenCalled();
+    expect(ctx.log.info).toHaveBeenCalledWith("Install job job-1 queued. Check it with: wopr skill job job-1");
+  });
+
+  it("install: --link symlinks a local directory", async () => {
+    const { startInstallJob } = await import("../src/skill-install-jobs.js");
+    await skillCommands[0].handler(ctx, ["install", "path:../pdf", "--link"]);
+    expect(startInstallJob).toHaveBeenCalledWith({
+      source: "path:../pdf",
+      name: undefined,
+      installedBy: "cli",
+      link: true,
+    });
+  });
+
+  it("install: --all with include and ignore globs installs a collection", async () => {
+    const { startInstallJob } = await import("../src/skill-install-jobs.js");
+    await skillCommands[0].handler(ctx, [
+      "install",
+      "github:owner/repo/skills",
+      "--all",
+      "--include",
+      "pdf,doc*",
+      "--ignore",
+      "docx",
+    ]);
+    expect(startInstallJob).toHaveBeenCalledWith({
+      source: "github:owner/repo/skills",
+      name: undefined,
+      installedBy: "cli",
+      all: true,
+      include: ["pdf", "doc*"],
+      ignore: ["docx"],
+    });
+  });
+
+  it("install: refuses a name or globs that do not fit the source", async () => {
+    const { startInstallJob } = await import("../src/skill-install-jobs.js");
+    await skillCommands[0].handler(ctx, ["install", "github:owner/repo/skills/*", "pdf"]);
+    expect(ctx.log.error).toHaveBeenCalledWith("A name cannot be given when installing several skills");
+    await skillCommands[0].handler(ctx, ["install", "github:owner/repo/pdf", "--include", "pdf"]);
+    expect(ctx.log.error).toHaveBeenCalledWith(
+      "--include and --ignore need --all or a github:owner/repo/path/* source",
+    );
+    expect(startInstallJob).not.toHaveBeenCalled();
+  });
+
+  it("install: --wait blocks until the job finishes", async () => {
+    const { startInstallJob, waitForInstallJob } = await import("../src/skill-install-jobs.js");
+    await skillCommands[0].handler(ctx, ["install", "https://example.com/skill.git", "--wait", "my-skill"]);
+    expect(startInstallJob).toHaveBeenCalledWith({
+      source: "https://example.com/skill.git",
+      name: "my-skill",
+      installedBy: "cli",
+    });
+    expect(waitForInstallJob).toHaveBeenCalledWith("job-1");
+    expect(ctx.log.info).toHaveBeenCalledWith("Installed: gh-skill");
+  });
+
+  it("install --frozen: installs from skills.lock", async () => {
+    const { installSkillsFromLock } = await import("../src/skills.js");
+    const { startInstallJob } = await import("../src/skill-install-jobs.js");
+    await skillCommands[0].handler(ctx, ["install", "--frozen"]);
+    expect(installSkillsFromLock).toHaveBeenCalledWith({ installedBy: "cli" });
+    expect(startInstallJob).not.toHaveBeenCalled();
+    expect(ctx.log.info).toHaveBeenCalledWith("Installed: pdf");
+    expect(ctx.log.info).toHaveBeenCalledWith("1 installed, 1 already up to date");
+
+    vi.mocked(installSkillsFromLock).mockRejectedValueOnce(new Error("Installed skills do not match skills.lock: pdf"));
+    await skillCommands[0].handler(ctx, ["install", "--frozen"]);
+    expect(ctx.log.error).toHaveBeenCalledWith(
+      "Frozen install failed: Installed skills do not match skills.lock: pdf",
+    );
+  });
+
+  it("sync: prints the plan, then applies it", async () => {
+    const { planSkillSync, applySkillSync } = await import("../src/skill-manifest.js");
+    await skillCommands[0].handler(ctx, ["sync", "--prune"]);
+    expect(planSkillSync).toHaveBeenCalledWith({ prune: true });
+    expect(ctx.log.info).toHaveBeenCalledWith("  + install pdf (github:o/r/pdf via official)");
+    expect(ctx.log.info).toHaveBeenCalledWith("  ~ disable docx");
+    expect(ctx.log.info).toHaveBeenCalledWith("  - remove stale");
+    expect(ctx.log.error).toHaveBeenCalledWith("  ! missing: not found");
+    expect(applySkillSync).toHaveBeenCalledWith(expect.objectContaining({ remove: ["stale"] }), { installedBy: "cli" });
+    expect(ctx.log.error).toHaveBeenCalledWith("Failed to remove stale: busy");
+    expect(ctx.log.info).toHaveBeenCalledWith("Sync complete: 1 change(s) applied, 1 failed");
   });
 
-  it("install: installs from URL source", async () => {
-    const { installSkillFromUrl } = await import("../src/skills.js");
-    await skillCommands[0].handler(ctx, ["install", "https://example.com/skill.tar.gz", "my-skill"]);
-    expect(installSkillFromUrl).toHaveBeenCalledWith("https://example.com/skill.tar.gz", "my-skill");
+  it("sync --dry-run: only prints the plan", async () => {
+    const { applySkillSync } = await import("../src/skill-manifest.js");
+    await skillCommands[0].handler(ctx, ["sync", "--dry-run"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("Sync plan:");
+    expect(applySkillSync).not.toHaveBeenCalled();
+  });
+
+  it("lock: writes skills.lock and reports skipped skills", async () => {
+    await skillCommands[0].handler(ctx, ["lock"]);
+    expect(ctx.log.warn).toHaveBeenCalledWith("notes: no recorded install source, not locked");
+    expect(ctx.log.info).toHaveBeenCalledWith("Locked 1 skill(s) in .wopr/skills.lock");
+  });
+
+  it("lock --check: reports drift without rewriting the lockfile", async () => {
+    const { writeSkillLock } = await import("../src/skill-lock.js");
+    await skillCommands[0].handler(ctx, ["lock", "--check"]);
+    expect(ctx.log.warn).toHaveBeenCalledWith(
+      '/skills/pdf/SKILL.md: "pdf" differs from skills.lock (expected a, found b)',
+    );
+    expect(ctx.log.info).toHaveBeenCalledWith("1 difference(s) from .wopr/skills.lock");
+    expect(writeSkillLock).not.toHaveBeenCalled();
+  });
+
+  it("lock --check: needs a lockfile", async () => {
+    const { readSkillLock, checkSkillLockDrift } = await import("../src/skill-lock.js");
+    vi.mocked(readSkillLock).mockReturnValueOnce(null);
+    await skillCommands[0].handler(ctx, ["lock", "--check"]);
+    expect(ctx.log.error).toHaveBeenCalledWith("No .wopr/skills.lock to check. Write one with: wopr skill lock");
+    expect(checkSkillLockDrift).not.toHaveBeenCalled();
+  });
+
+  it("job: shows status, error and output", async () => {
+    await skillCommands[0].handler(ctx, ["job", "job-1"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("Job job-1: failed (x)");
+    expect(ctx.log.info).toHaveBeenCalledWith("  Error: boom");
+    expect(ctx.log.info).toHaveBeenCalledWith("  stderr:\nfatal");
+    await skillCommands[0].handler(ctx, ["job", "job-2"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("Job job-2: succeeded (update pdf)");
+    await skillCommands[0].handler(ctx, ["job", "nope"]);
+    expect(ctx.log.error).toHaveBeenCalledWith("Job not found: nope");
+  });
+
+  it("cancel: cancels a job", async () => {
+    await skillCommands[0].handler(ctx, ["cancel", "job-1"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("Cancelled: job-1");
+    await skillCommands[0].handler(ctx, ["cancel", "nope"]);
+    expect(ctx.log.error).toHaveBeenCalledWith("Job not found: nope");
+  });
+
+  it("update: updates a skill and lists changed files", async () => {
+    const { updateSkill } = await import("../src/skill-update.js");
+    await skillCommands[0].handler(ctx, ["update", "pdf", "--force"]);
+    expect(updateSkill).toHaveBeenCalledWith("pdf", { force: true, installedBy: "cli" });
+    expect(ctx.log.info).toHaveBeenCalledWith("pdf: updated aaaaaaa -> bbbbbbb (1 modified, 1 added, 0 removed)");
+    expect(ctx.log.info).toHaveBeenCalledWith("  + new.txt");
+    expect(ctx.log.info).toHaveBeenCalledWith("  ~ SKILL.md");
+  });
+
+  it("update --all: reports failures per skill", async () => {
+    await skillCommands[0].handler(ctx, ["update", "--all"]);
+    expect(ctx.log.info).toHaveBeenCalledWith(expect.stringContaining("pdf: updated"));
+    expect(ctx.log.error).toHaveBeenCalledWith(expect.stringContaining("docx: Skill \"docx\" has local modifications"));
+  });
+
+  it("update --check: only reports available updates", async () => {
+    const { updateSkill } = await import("../src/skill-update.js");
+    await skillCommands[0].handler(ctx, ["update", "--all", "--check"]);
+    expect(updateSkill).not.toHaveBeenCalled();
+    expect(ctx.log.info).toHaveBeenCalledWith("pdf: update available aaaaaaa -> bbbbbbb");
+    expect(ctx.log.info).toHaveBeenCalledWith("docx: up to date (aaaaaaa)");
   });
 
   it("create: creates a new skill", async () => {
@@ -103,10 +365,39 @@ describe("skillCommands", () => {
     expect(createSkill).toHaveBeenCalledWith("new-skill", "A new skill");
   });
 
+  it("pack: writes an archive and prints its checksum", async () => {
+    const { packSkill } = await import("../src/skills.js");
+    await skillCommands[0].handler(ctx, ["pack", "--out", "/out/pdf.tar.gz", "pdf"]);
+    expect(packSkill).toHaveBeenCalledWith("pdf", "/out/pdf.tar.gz");
+    expect(ctx.log.info).toHaveBeenCalledWith("Packed pdf to /out/pdf.tar.gz");
+    expect(ctx.log.info).toHaveBeenCalledWith(`sha256: ${"ab".repeat(32)}`);
+
+    await skillCommands[0].handler(ctx, ["pack", "pdf"]);
+    expect(packSkill).toHaveBeenLastCalledWith("pdf", undefined);
+
+    await skillCommands[0].handler(ctx, ["pack", "pdf", "--out"]);
+    expect(ctx.log.error).toHaveBeenCalledWith("Usage: wopr skill pack <name> [--out <file>]");
+  });
+
   it("remove: removes a skill", async () => {
     const { removeSkill } = await import("../src/skills.js");
     await skillCommands[0].handler(ctx, ["remove", "old-skill"]);
     expect(removeSkill).toHaveBeenCalledWith("old-skill");
+    expect(ctx.log.info).toHaveBeenCalledWith("Removed: old-skill (restore it with: wopr skill restore old-skill)");
+  });
+
+  it("restore and trash: restores a removed skill and lists the trash", async () => {
+    const { restoreSkill } = await import("../src/skills.js");
+    await skillCommands[0].handler(ctx, ["restore", "pdf"]);
+    expect(restoreSkill).toHaveBeenCalledWith("pdf");
+    expect(ctx.log.info).toHaveBeenCalledWith("Restored: pdf");
+
+    vi.mocked(restoreSkill).mockRejectedValueOnce(new Error('Skill "x" is not in the trash'));
+    await skillCommands[0].handler(ctx, ["restore", "x"]);
+    expect(ctx.log.error).toHaveBeenCalledWith('Failed to restore skill: Skill "x" is not in the trash');
+
+    await skillCommands[0].handler(ctx, ["trash"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("  pdf (removed 2026-07-01T00:00:00.000Z)");
   });
 
   it("enable: enables a skill", async () => {
@@ -121,6 +412,19 @@ describe("skillCommands", () => {
     expect(disableSkillAsync).toHaveBeenCalledWith("my-skill");
   });
 
+  it("approve: approves a quarantined skill", async () => {
+    const { approveSkillAsync } = await import("../src/skills.js");
+    await skillCommands[0].handler(ctx, ["approve", "my-skill"]);
+    expect(approveSkillAsync).toHaveBeenCalledWith("my-skill");
+  });
+
+  it("stats: shows usage analytics", async () => {
+    await skillCommands[0].handler(ctx, ["stats", "--days", "7"]);
+    expect(ctx.log.info).toHaveBeenCalledWith("Skill usage over the last 7 days:");
+    expect(ctx.log.info).toHaveBeenCalledWith("Never used:");
+    expect(ctx.log.info).toHaveBeenCalledWith(expect.stringContaining("test-skill"));
+  });
+
   it("cache clear: clears the cache", async () => {
     const { clearSkillCache } = await import("../src/skills.js");
     await skillCommands[0].handler(ctx, ["cache", "clear"]);
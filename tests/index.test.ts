@@ -17,18 +17,33 @@ vi.mock("../src/logger.js", () => ({
   },
 }));
 
-vi.mock("../src/skills.js", () => ({
-  discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
-  formatSkillsXml: vi.fn(() => ""),
-  installSkillFromGitHub: vi.fn(),
-  installSkillFromUrl: vi.fn(),
-  enableSkillAsync: vi.fn(),
-  disableSkillAsync: vi.fn(),
-}));
+vi.mock("../src/skills.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skills.js")>("../src/skills.js");
+  return {
+    discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
+    discoverSkillEntries: vi.fn(() => ({ entries: [], warnings: [] })),
+    formatSkillsXml: vi.fn(() => ""),
+    installSkillFromGitHub: vi.fn(),
+    installSkillFromUrl: vi.fn(),
+    installSkillFromPath: vi.fn(),
+    installSkillFromArchive: vi.fn(),
+    installSkillCollection: vi.fn(),
+    packSkill: vi.fn(),
+    enableSkillAsync: vi.fn(),
+    disableSkillAsync: vi.fn(),
+    readAllSkillStatesAsync: vi.fn(async () => ({})),
+    refreshSkillIndex: vi.fn(),
+    invalidateSkillIndex: vi.fn(),
+    closeSkillIndex: vi.fn(),
+    selectPromptSkills: actual.selectPromptSkills,
+    formatSkillsTrailer: actual.formatSkillsTrailer,
+  };
+});
 
 vi.mock("../src/skills-migrate.js", () => ({
   migrateSkillsToSQL: vi.fn(),
   migrateRegistriesToSQL: vi.fn(),
+  migrateInstallProvenance: vi.fn(),
 }));
 
 vi.mock("../src/skills-repository.js", () => ({
@@ -45,6 +60,26 @@ vi.mock("../src/skills-schema.js", () => ({
   },
 }));
 
+vi.mock("../src/skill-commands.js", () => ({
+  syncSkillCommands: vi.fn(async () => []),
+  watchSkillCommands: vi.fn(() => vi.fn()),
+  unregisterSkillCommands: vi.fn(),
+}));
+
+vi.mock("../src/skill-lock.js", () => ({
+  watchSkillLockDrift: vi.fn(() => vi.fn()),
+}));
+
+vi.mock("../src/skill-usage-repository.js", () => ({
+  compactSkillUsageEvents: vi.fn(async () => ({ compacted: 0, purgedBuckets: 0 })),
+}));
+
+vi.mock("../src/skill-staging.js", () => ({
+  clearSkillStaging: vi.fn(),
+  configureSkillTrash: vi.fn(),
+  purgeSkillTrash: vi.fn(() => []),
+}));
+
 vi.mock("../src/routes.js", () => ({
   createSkillsRouter: vi.fn(() => ({ fake: "router" })),
 }));
@@ -55,7 +90,27 @@ import { setLogger } from "../src/logger.js";
 import { initSkillsStorage, resetSkillsStorageInit, setPluginContext } from "../src/skills-repository.js";
 import { migrateSkillsToSQL } from "../src/skills-migrate.js";
 import { createSkillsRouter } from "../src/routes.js";
-import { discoverSkills, formatSkillsXml, installSkillFromGitHub, installSkillFromUrl, enableSkillAsync, disableSkillAsync } from "../src/skills.js";
+import { syncSkillCommands, unregisterSkillCommands, watchSkillCommands } from "../src/skill-commands.js";
+import { watchSkillLockDrift } from "../src/skill-lock.js";
+import { compactSkillUsageEvents } from "../src/skill-usage-repository.js";
+import { clearSkillStaging, configureSkillTrash, purgeSkillTrash } from "../src/skill-staging.js";
+import {
+  discoverSkills,
+  discoverSkillEntries,
+  formatSkillsXml,
+  installSkillFromGitHub,
+  installSkillFromUrl,
+  installSkillFromPath,
+  installSkillFromArchive,
+  installSkillCollection,
+  packSkill,
+  enableSkillAsync,
+  disableSkillAsync,
+  readAllSkillStatesAsync,
+  refreshSkillIndex,
+  invalidateSkillIndex,
+  closeSkillIndex,
+} from "../src/skills.js";
 
 function createMockCtx() {
   return {
@@ -70,6 +125,8 @@ function createMockCtx() {
     registerContextProvider: vi.fn(),
     unregisterContextProvider: vi.fn(),
     registerA2AServer: vi.fn(),
+    getConfig: vi.fn(() => ({})),
+    getExtension: vi.fn(),
     log: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
     logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
   } as any;
@@ -124,6 +181,14 @@ describe("wopr-plugin-skills", () => {
       expect(initSkillsStorage).toHaveBeenCalled();
     });
 
+    it("clears leftover staging and purges the trash with the configured retention", async () => {
+      mockCtx.getConfig.mockReturnValue({ trashRetentionDays: 3 });
+      await plugin.init(mockCtx);
+      expect(configureSkillTrash).toHaveBeenCalledWith({ retentionDays: 3 });
+      expect(clearSkillStaging).toHaveBeenCalled();
+      expect(purgeSkillTrash).toHaveBeenCalled();
+    });
+
     it("runs migration", async () => {
       await plugin.init(mockCtx);
       expect(migrateSkillsToSQL).toHaveBeenCalledWith(mockCtx);
@@ -151,6 +216,17 @@ describe("wopr-plugin-skills", () => {
       expect(registerSkillsA2ATools).toHaveBeenCalled();
     });
 
+    it("registers skill slash commands and watches for changes", async () => {
+      await plugin.init(mockCtx);
+      expect(syncSkillCommands).toHaveBeenCalledWith(mockCtx);
+      expect(watchSkillCommands).toHaveBeenCalledWith(mockCtx);
+    });
+
+    it("checks skills.lock drift in the background", async () => {
+      await plugin.init(mockCtx);
+      expect(watchSkillLockDrift).toHaveBeenCalled();
+    });
+
     it("registers skills router as extension", async () => {
       await plugin.init(mockCtx);
       expect(createSkillsRouter).toHaveBeenCalled();
@@ -162,12 +238,31 @@ describe("wopr-plugin-skills", () => {
       expect(mockCtx.registerExtension).toHaveBeenCalledWith("skills", {
         install: installSkillFromGitHub,
         installFromUrl: installSkillFromUrl,
+        installFromPath: installSkillFromPath,
+        installFromArchive: installSkillFromArchive,
+        installCollection: installSkillCollection,
+        pack: packSkill,
         enable: enableSkillAsync,
         disable: disableSkillAsync,
         list: discoverSkills,
+        refresh: refreshSkillIndex,
+        invalidate: invalidateSkillIndex,
+        registerRenderer: expect.any(Function),
+        setSessionPromptFormat: expect.any(Function),
+        startInstall: expect.any(Function),
+        getInstallJob: expect.any(Function),
+        cancelInstall: expect.any(Function),
+        update: expect.any(Function),
+        checkUpdate: expect.any(Function),
       });
     });
 
+    it("compacts usage events with the configured retention", async () => {
+      mockCtx.getConfig.mockReturnValue({ usageEventRetentionDays: 7 });
+      await plugin.init(mockCtx);
+      expect(compactSkillUsageEvents).toHaveBeenCalledWith({ eventRetentionDays: 7, rollupRetentionDays: 365 });
+    });
+
     it("logs initialization message", async () => {
       await plugin.init(mockCtx);
       expect(mockCtx.log.info).toHaveBeenCalledWith("Skills plugin initialized");
@@ -199,12 +294,33 @@ describe("wopr-plugin-skills", () => {
       expect(unregisterSkillsA2ATools).toHaveBeenCalled();
     });
 
+    it("unregisters skill slash commands after init", async () => {
+      await plugin.init(mockCtx);
+      const stopWatching = vi.mocked(watchSkillCommands).mock.results[0].value;
+      await plugin.shutdown();
+      expect(stopWatching).toHaveBeenCalled();
+      expect(unregisterSkillCommands).toHaveBeenCalled();
+    });
+
+    it("stops checking skills.lock drift after init", async () => {
+      await plugin.init(mockCtx);
+      const stopWatching = vi.mocked(watchSkillLockDrift).mock.results[0].value;
+      await plugin.shutdown();
+      expect(stopWatching).toHaveBeenCalled();
+    });
+
     it("resets storage init after init", async () => {
       await plugin.init(mockCtx);
       await plugin.shutdown();
       expect(resetSkillsStorageInit).toHaveBeenCalled();
     });
 
+    it("closes the skill index watchers after init", async () => {
+      await plugin.init(mockCtx);
+      await plugin.shutdown();
+      expect(closeSkillIndex).toHaveBeenCalled();
+    });
+
     it("does not throw when called without init", async () => {
       await plugin.shutdown();
       // Should not throw
@@ -212,8 +328,16 @@ describe("wopr-plugin-skills", () => {
   });
 
   describe("context provider getContext", () => {
+    function entry(name: string, invocation: Record<string, boolean> = {}) {
+      return {
+        skill: { name, description: `${name} skill`, path: `/${name}`, baseDir: `/${name}`, source: "managed" },
+        frontmatter: {},
+        invocation,
+      } as any;
+    }
+
     it("returns null when no skills discovered", async () => {
-      vi.mocked(discoverSkills).mockReturnValue({ skills: [], warnings: [] });
+      vi.mocked(discoverSkillEntries).mockReturnValue({ entries: [], warnings: [] });
 
       await plugin.init(mockCtx);
       const provider = mockCtx.registerContextProvider.mock.calls[0][0];
@@ -222,10 +346,7 @@ describe("wopr-plugin-skills", () => {
     });
 
     it("returns formatted skills XML when skills exist", async () => {
-      const mockSkills = [
-        { name: "test-skill", description: "A test skill", path: "/test", baseDir: "/test", source: "managed" },
-      ] as any[];
-      vi.mocked(discoverSkills).mockReturnValue({ skills: mockSkills, warnings: [] });
+      vi.mocked(discoverSkillEntries).mockReturnValue({ entries: [entry("test-skill")], warnings: [] });
       vi.mocked(formatSkillsXml).mockReturnValue("<skills>test</skills>");
 
       await plugin.init(mockCtx);
@@ -235,13 +356,119 @@ describe("wopr-plugin-skills", () => {
       expect(result).toEqual({
         content: "<skills>test</skills>",
         role: "system",
-        metadata: { source: "skills", priority: 10, skillCount: 1 },
+        metadata: {
+          source: "skills",
+          priority: 10,
+          selection: "all",
+          format: "xml",
+          skillCount: 1,
+          omittedCount: 0,
+          filteredCount: 0,
+          filtered: { disabled: [], modelInvocationDisabled: [], quarantined: [] },
+        },
+      });
+    });
+
+    it("leaves out disabled and model-invocation-disabled skills", async () => {
+      vi.mocked(discoverSkillEntries).mockReturnValue({
+        entries: [entry("kept"), entry("off"), entry("manual-only", { disableModelInvocation: true })],
+        warnings: [],
+      });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({ off: { enabled: false } });
+      vi.mocked(formatSkillsXml).mockReturnValue("<skills>kept</skills>");
+
+      await plugin.init(mockCtx);
+      const provider = mockCtx.registerContextProvider.mock.calls[0][0];
+      const result = await provider.getContext();
+
+      expect(vi.mocked(formatSkillsXml).mock.calls[0][0].map((s) => s.name)).toEqual(["kept"]);
+      expect(result.metadata.skillCount).toBe(1);
+      expect(result.metadata.filteredCount).toBe(2);
+      expect(result.metadata.filtered).toEqual({
+        disabled: ["off"],
+        modelInvocationDisabled: ["manual-only"],
+        quarantined: [],
+      });
+    });
+
+    it("applies the configured prompt budget", async () => {
+      vi.mocked(discoverSkillEntries).mockReturnValue({ entries: [entry("a"), entry("b"), entry("c")], warnings: [] });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({});
+      vi.mocked(formatSkillsXml).mockImplementation((skills) => "x".repeat(skills.length * 10));
+      mockCtx.getConfig.mockReturnValue({ promptMaxChars: 25 });
+
+      await plugin.init(mockCtx);
+      const provider = mockCtx.registerContextProvider.mock.calls[0][0];
+      const result = await provider.getContext();
+
+      expect(result.content).toBe("x".repeat(20));
+      expect(result.metadata.skillCount).toBe(2);
+      expect(result.metadata.omittedCount).toBe(1);
+    });
+
+    it("injects only pinned and relevant skills in relevance mode", async () => {
+      vi.mocked(discoverSkillEntries).mockReturnValue({
+        entries: [entry("pdf-tools"), entry("git-helper"), entry("weather"), entry("notes")],
+        warnings: [],
       });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({});
+      vi.mocked(formatSkillsXml).mockReturnValue("<skills>relevant</skills>");
+      mockCtx.getConfig.mockReturnValue({ skillSelection: "relevance", relevanceTopK: 1, pinnedSkills: ["notes"] });
+
+      await plugin.init(mockCtx);
+      const provider = mockCtx.registerContextProvider.mock.calls[0][0];
+      const result = await provider.getContext("session", { content: "merge this git branch" });
+
+      expect(vi.mocked(formatSkillsXml).mock.calls[0][0].map((s) => s.name)).toEqual(["notes", "git-helper"]);
+      expect(vi.mocked(formatSkillsXml).mock.calls[0][1]).toEqual({ omittedCount: 2 });
+      expect(result.metadata.selection).toBe("relevance");
+      expect(result.metadata.omittedCount).toBe(2);
+    });
+
+    it("points at skills.search when no skill matches in relevance mode", async () => {
+      vi.mocked(discoverSkillEntries).mockReturnValue({
+        entries: [entry("pdf-tools"), entry("weather")],
+        warnings: [],
+      });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({});
+      mockCtx.getConfig.mockReturnValue({ skillSelection: "relevance" });
+
+      await plugin.init(mockCtx);
+      const provider = mockCtx.registerContextProvider.mock.calls[0][0];
+      const result = await provider.getContext("session", { content: "zzz qqq" });
+
+      expect(result.content).toContain("skills.search");
+      expect(formatSkillsXml).not.toHaveBeenCalled();
+      expect(result.metadata.skillCount).toBe(0);
+      expect(result.metadata.omittedCount).toBe(2);
+    });
+
+    it("renders with the session's prompt format", async () => {
+      vi.mocked(discoverSkillEntries).mockReturnValue({ entries: [entry("md-skill")], warnings: [] });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({});
+      mockCtx.getConfig.mockReturnValue({ sessionPromptFormats: [{ session: "s1", format: "markdown" }] });
+
+      await plugin.init(mockCtx);
+      const provider = mockCtx.registerContextProvider.mock.calls[0][0];
+      const result = await provider.getContext("s1", { content: "" });
+
+      expect(result.metadata.format).toBe("markdown");
+      expect(result.content).toContain("| md-skill |");
+      expect(formatSkillsXml).not.toHaveBeenCalled();
+    });
+
+    it("returns null when every skill is filtered out", async () => {
+      vi.mocked(discoverSkillEntries).mockReturnValue({ entries: [entry("off")], warnings: [] });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({ off: { enabled: false } });
+
+      await plugin.init(mockCtx);
+      const provider = mockCtx.registerContextProvider.mock.calls[0][0];
+      expect(await provider.getContext()).toBeNull();
     });
 
     it("logs warnings from skill discovery", async () => {
-      vi.mocked(discoverSkills).mockReturnValue({
-        skills: [],
+      vi.mocked(discoverSkillEntries).mockReturnValue({
+        entries: [],
         warnings: [{ skillPath: "/bad/skill", message: "invalid frontmatter" }],
       });
 
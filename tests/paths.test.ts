@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { WOPR_HOME, SKILLS_DIR, PROJECT_SKILLS_DIR } from "../src/paths.js";
+import { WOPR_HOME, SKILLS_DIR, PROJECT_SKILLS_DIR, SKILLS_LOCK_FILE, SKILLS_MANIFEST_FILE } from "../src/paths.js";
 import { homedir } from "node:os";
 import { join } from "node:path";
 
@@ -17,4 +17,9 @@ describe("paths", () => {
   it("PROJECT_SKILLS_DIR is under current working directory", () => {
     expect(PROJECT_SKILLS_DIR).toBe(join(process.cwd(), ".wopr", "skills"));
   });
+
+  it("SKILLS_LOCK_FILE and SKILLS_MANIFEST_FILE are in the workspace .wopr directory", () => {
+    expect(SKILLS_LOCK_FILE).toBe(join(process.cwd(), ".wopr", "skills.lock"));
+    expect(SKILLS_MANIFEST_FILE).toBe(join(process.cwd(), ".wopr", "skills.json"));
+  });
 });
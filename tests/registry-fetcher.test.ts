@@ -6,6 +6,10 @@ vi.mock("../src/logger.js", () => ({
 
 vi.mock("../src/registries-repository.js", () => ({
   updateRegistryFetchStatus: vi.fn().mockResolvedValue(undefined),
+  listRegistries: vi.fn().mockResolvedValue([
+    { id: "official", url: "https://official.com/r.json", addedAt: "2026-01-01T00:00:00Z" },
+    { id: "down", url: "https://down.com/r.json", addedAt: "2026-01-01T00:00:00Z" },
+  ]),
 }));
 
 describe("registry-fetcher", () => {
@@ -119,4 +123,61 @@ describe("registry-fetcher", () => {
       expect(result.errors).toEqual([]);
     });
   });
+
+  describe("findRegistrySkill", () => {
+    const entry = (name: string, registry: string, version?: string) => ({
+      name,
+      description: "",
+      source: `github:${registry}/skills/${name}${version ? `@v${version}` : ""}`,
+      registry,
+      ...(version ? { version } : {}),
+    });
+    const skills = [
+      entry("pdf", "official", "1.2.0"),
+      entry("pdf", "official", "1.10.0"),
+      entry("pdf", "official", "1.9.3"),
+      entry("docx", "official"),
+      entry("docx", "community", "2.0.0"),
+    ];
+
+    it("picks the highest listed version unless one is requested", async () => {
+      const { findRegistrySkill } = await import("../src/registry-fetcher.js");
+      expect(findRegistrySkill(skills, "pdf").version).toBe("1.10.0");
+      expect(findRegistrySkill(skills, "pdf", { version: "v1.2.0" }).version).toBe("1.2.0");
+      expect(() => findRegistrySkill(skills, "pdf", { version: "3.0.0" })).toThrow(
+        'Skill "pdf" has no version 3.0.0 (available: 1.2.0, 1.10.0, 1.9.3)',
+      );
+    });
+
+    it("reports names offered by several registries", async () => {
+      const { findRegistrySkill } = await import("../src/registry-fetcher.js");
+      expect(() => findRegistrySkill(skills, "docx")).toThrow(
+        'Skill "docx" is in several registries (official, community); install it as <registry>/docx',
+      );
+      expect(findRegistrySkill(skills, "docx", { registry: "community" }).registry).toBe("community");
+      expect(findRegistrySkill(skills, "docx", { version: "2.0.0" }).registry).toBe("community");
+      expect(() => findRegistrySkill(skills, "pdf", { registry: "community" })).toThrow(
+        'Skill "pdf" not found in registry "community"',
+      );
+    });
+  });
+
+  describe("resolveRegistrySkill", () => {
+    it("mentions registries that could not be fetched when a name is not found", async () => {
+      const { resolveRegistrySkill } = await import("../src/registry-fetcher.js");
+      globalThis.fetch = vi.fn().mockImplementation((url: string) =>
+        url.includes("down")
+          ? Promise.reject(new Error("ECONNREFUSED"))
+          : Promise.resolve({
+              ok: true,
+              json: () => Promise.resolve({ skills: [{ name: "pdf", description: "", source: "github:o/r/pdf" }] }),
+            }),
+      ) as any;
+
+      expect(await resolveRegistrySkill({ source: "pdf", name: "pdf" })).toMatchObject({ registry: "official" });
+      await expect(resolveRegistrySkill({ source: "xlsx", name: "xlsx" })).rejects.toThrow(
+        'Skill "xlsx" not found in any registry (could not fetch: down)',
+      );
+    });
+  });
 });
@@ -7,8 +7,6 @@ vi.mock("../src/skills.js", () => ({
   discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
   disableSkillAsync: vi.fn(),
   enableSkillAsync: vi.fn(),
-  installSkillFromGitHub: vi.fn(),
-  installSkillFromUrl: vi.fn(),
   readAllSkillStatesAsync: vi.fn(() => ({})),
   removeSkill: vi.fn(),
 }));
@@ -26,6 +24,7 @@ vi.mock("../src/registry-fetcher.js", () => ({
 import { createSkillsRouter } from "../src/routes.js";
 import { addRegistry, listRegistries, removeRegistry } from "../src/registries-repository.js";
 import { fetchAllRegistries } from "../src/registry-fetcher.js";
+import { skillError } from "../src/skill-errors.js";
 
 describe("routes - registries", () => {
   let app: Hono;
@@ -93,7 +92,7 @@ describe("routes - registries", () => {
     });
 
     it("returns 409 when registry already exists", async () => {
-      vi.mocked(addRegistry).mockRejectedValue(new Error('Registry "dup" already exists'));
+      vi.mocked(addRegistry).mockRejectedValue(skillError("conflict", 'Registry "dup" already exists'));
       const res = await app.request("/skills/registries", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -0,0 +1,373 @@
+import {
+  chmodSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  readlinkSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deflateRawSync, gzipSync } from "node:zlib";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { extractSkillArchive, findSkillRoot, packSkillArchive, sha256Hex } from "../src/skill-archive.js";
+import { hashSkillDirectory } from "../src/skill-hash.js";
+
+interface TestEntry {
+  path: string;
+  type?: string;
+  data?: string | Buffer;
+  link?: string;
+  mode?: number;
+  /** Zip only: uncompressed size to declare instead of the real one */
+  size?: number;
+  /** Zip only: leave the local header sizes empty and append a data descriptor */
+  descriptor?: boolean;
+}
+
+/** One PAX extended header record; the length prefix counts itself */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = body.length + 1;
+  while (String(length).length + body.length !== length) length++;
+  return `${length}${body}`;
+}
+
+function tarGz(entries: TestEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data ?? "");
+    const header = Buffer.alloc(512);
+    header.write(entry.path, 0, 100);
+    header.write(`${(entry.mode ?? 0o644).toString(8).padStart(7, "0")}\0`, 100);
+    header.write(`${data.length.toString(8).padStart(11, "0")}\0`, 124);
+    header.write(entry.type ?? "0", 156);
+    header.write(entry.link ?? "", 157);
+    header.write("ustar\0", 257);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+function zip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path);
+    const data = Buffer.from(entry.link ?? entry.data ?? "");
+    const compressed = deflateRawSync(data);
+    const mode = entry.link ? 0o120777 : 0o100644;
+    const size = entry.size ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.descriptor ? 0x8 : 0, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(entry.descriptor ? 0 : compressed.length, 18);
+    local.writeUInt32LE(entry.descriptor ? 0 : size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(entry.descriptor ? 0x8 : 0, 8);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(compressed.length, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE((mode << 16) >>> 0, 38);
+    header.writeUInt32LE(offset, 42);
+
+    const descriptor = Buffer.alloc(entry.descriptor ? 16 : 0);
+    if (entry.descriptor) {
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(compressed.length, 8);
+      descriptor.writeUInt32LE(size, 12);
+    }
+
+    locals.push(local, name, compressed, descriptor);
+    central.push(header, name);
+    offset += 30 + name.length + compressed.length + descriptor.length;
+  }
+  const dir = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(dir.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, dir, end]);
+}
+
+const SKILL_MD = "---\nname: pdf\ndescription: Work with PDFs\n---\n";
+
+describe("skill-archive", () => {
+  const root = join(tmpdir(), "wopr-skill-archive-test");
+  const dest = join(root, "out");
+
+  beforeEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(root, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("extractSkillArchive", () => {
+    it("extracts a tar.gz and finds a single nested skill folder", () => {
+      extractSkillArchive(
+        tarGz([
+          { path: "pdf/", type: "5" },
+          { path: "pdf/SKILL.md", data: SKILL_MD },
+          { path: "pdf/scripts/run.sh", data: "echo hi\n", mode: 0o755 },
+        ]),
+        dest,
+      );
+
+      expect(findSkillRoot(dest)).toBe(join(dest, "pdf"));
+      expect(readFileSync(join(dest, "pdf", "SKILL.md"), "utf-8")).toBe(SKILL_MD);
+      expect(statSync(join(dest, "pdf", "scripts", "run.sh")).mode & 0o111).not.toBe(0);
+    });
+
+    it("extracts a zip with an internal symlink", () => {
+      extractSkillArchive(
+        zip([
+          { path: "SKILL.md", data: SKILL_MD },
+          { path: "docs/", data: "" },
+          { path: "docs/guide.md", data: "# Guide\n" },
+          { path: "GUIDE.md", link: "docs/guide.md" },
+        ]),
+        dest,
+      );
+
+      expect(findSkillRoot(dest)).toBe(dest);
+      expect(readlinkSync(join(dest, "GUIDE.md"))).toBe("docs/guide.md");
+      expect(readFileSync(join(dest, "GUIDE.md"), "utf-8")).toBe("# Guide\n");
+    });
+
+    it("refuses entries outside the destination", () => {
+      expect(() => extractSkillArchive(tarGz([{ path: "../evil.txt", data: "x" }]), dest)).toThrow(
+        "Refusing path outside the archive root: ../evil.txt",
+      );
+      expect(() => extractSkillArchive(zip([{ path: "a/../../evil.txt", data: "x" }]), dest)).toThrow(
+        "Refusing path outside the archive root",
+      );
+      expect(() => extractSkillArchive(tarGz([{ path: "/tmp/evil.txt", data: "x" }]), dest)).toThrow(
+        "Refusing absolute path in archive",
+      );
+      expect(existsSync(join(root, "evil.txt"))).toBe(false);
+    });
+
+    it("refuses symlinks that escape, directly or through other links", () => {
+      expect(() => extractSkillArchive(tarGz([{ path: "etc", type: "2", link: "../../etc" }]), dest)).toThrow(
+        "Refusing symlink that escapes the archive: etc -> ../../etc",
+      );
+      expect(() => extractSkillArchive(zip([{ path: "passwd", link: "/etc/passwd" }]), join(root, "zip"))).toThrow(
+        "Refusing symlink that escapes the archive",
+      );
+      expect(() =>
+        extractSkillArchive(
+          tarGz([
+            { path: "here", type: "2", link: "." },
+            { path: "up", type: "2", link: "here/.." },
+          ]),
+          join(root, "chain"),
+        ),
+      ).toThrow("Refusing symlink that escapes the archive: up");
+    });
+
+    it("refuses hard links and unknown formats", () => {
+      expect(() => extractSkillArchive(tarGz([{ path: "x", type: "1", link: "/etc/passwd" }]), dest)).toThrow(
+        "Unsupported entry in archive: x (hard link)",
+      );
+      expect(() => extractSkillArchive(Buffer.from("not an archive"), dest)).toThrow("Unrecognized archive format");
+    });
+  });
+
+  describe("adversarial archives", () => {
+    it("reads PAX and GNU long names", () => {
+      const long = `pdf/${"nested/".repeat(20)}deep.txt`;
+      extractSkillArchive(
+        tarGz([
+          { path: "PaxHeader/deep.txt", type: "x", data: paxRecord("path", long) },
+          { path: "pdf/nested/truncated", data: "pax\n" },
+          { path: "././@LongLink", type: "L", data: `${long}.gnu\0` },
+          { path: "pdf/nested/truncated-too", data: "gnu\n" },
+          { path: "pdf/SKILL.md", data: SKILL_MD },
+        ]),
+        dest,
+      );
+
+      expect(long.length).toBeGreaterThan(100);
+      expect(readFileSync(join(dest, long), "utf-8")).toBe("pax\n");
+      expect(readFileSync(join(dest, `${long}.gnu`), "utf-8")).toBe("gnu\n");
+      expect(existsSync(join(dest, "pdf", "nested", "truncated"))).toBe(false);
+    });
+
+    it("checks long names like any other path", () => {
+      expect(() =>
+        extractSkillArchive(
+          tarGz([
+            { path: "PaxHeader/x", type: "x", data: paxRecord("path", "../evil.txt") },
+            { path: "harmless.txt", data: "x" },
+          ]),
+          dest,
+        ),
+      ).toThrow("Refusing path outside the archive root: ../evil.txt");
+      expect(() =>
+        extractSkillArchive(
+          tarGz([
+            { path: "././@LongLink", type: "L", data: "/tmp/evil.txt\0" },
+            { path: "harmless.txt", data: "x" },
+          ]),
+          dest,
+        ),
+      ).toThrow("Refusing absolute path in archive: /tmp/evil.txt");
+      expect(existsSync(join(root, "evil.txt"))).toBe(false);
+    });
+
+    it("reads zip entries with data descriptors and refuses zip64 entries", () => {
+      extractSkillArchive(
+        zip([
+          { path: "SKILL.md", data: SKILL_MD, descriptor: true },
+          { path: "notes.md", data: "notes\n", descriptor: true },
+        ]),
+        dest,
+      );
+      expect(readFileSync(join(dest, "SKILL.md"), "utf-8")).toBe(SKILL_MD);
+      expect(readFileSync(join(dest, "notes.md"), "utf-8")).toBe("notes\n");
+
+      expect(() => extractSkillArchive(zip([{ path: "SKILL.md", data: SKILL_MD, size: 0xffffffff }]), dest)).toThrow(
+        "ZIP64 archives are not supported",
+      );
+    });
+
+    it("refuses duplicate entries", () => {
+      expect(() =>
+        extractSkillArchive(
+          tarGz([
+            { path: "SKILL.md", data: SKILL_MD },
+            { path: "./SKILL.md", data: "---\nname: other\n---\n" },
+          ]),
+          join(root, "tar"),
+        ),
+      ).toThrow("Duplicate entry in archive: ./SKILL.md");
+      expect(() =>
+        extractSkillArchive(
+          zip([
+            { path: "docs/", data: "" },
+            { path: "docs", data: "file" },
+          ]),
+          join(root, "zip"),
+        ),
+      ).toThrow("Duplicate entry in archive: docs");
+
+      extractSkillArchive(
+        tarGz([
+          { path: "pdf/", type: "5" },
+          { path: "pdf/", type: "5" },
+          { path: "pdf/SKILL.md", data: SKILL_MD },
+        ]),
+        dest,
+      );
+      expect(readFileSync(join(dest, "pdf", "SKILL.md"), "utf-8")).toBe(SKILL_MD);
+    });
+
+    it("refuses entries written through a symlink", () => {
+      expect(() =>
+        extractSkillArchive(
+          tarGz([
+            { path: "out", type: "2", link: "../.." },
+            { path: "out/evil.txt", data: "x" },
+          ]),
+          dest,
+        ),
+      ).toThrow("Refusing entry inside a symlink: out/evil.txt");
+      expect(() =>
+        extractSkillArchive(
+          zip([
+            { path: "docs", link: "." },
+            { path: "docs/SKILL.md", data: SKILL_MD },
+          ]),
+          join(root, "zip"),
+        ),
+      ).toThrow("Refusing entry inside a symlink: docs/SKILL.md");
+      expect(existsSync(join(root, "evil.txt"))).toBe(false);
+      expect(existsSync(join(dest, "out"))).toBe(false);
+    });
+
+    it("stops at the declared size and at the total size cap", () => {
+      expect(() =>
+        extractSkillArchive(zip([{ path: "SKILL.md", data: Buffer.alloc(1024 * 1024), size: 10 }]), dest),
+      ).toThrow("Invalid zip archive: size mismatch for SKILL.md");
+      expect(() =>
+        extractSkillArchive(
+          zip([
+            { path: "SKILL.md", data: SKILL_MD },
+            { path: "a.bin", data: "a", size: 100 * 1024 * 1024 },
+          ]),
+          dest,
+        ),
+      ).toThrow("Archive contents are too large");
+      expect(existsSync(join(dest, "a.bin"))).toBe(false);
+    });
+  });
+
+  describe("findSkillRoot", () => {
+    it("requires SKILL.md at the root or in one top-level folder", () => {
+      mkdirSync(join(dest, "a"), { recursive: true });
+      mkdirSync(join(dest, "b"), { recursive: true });
+      writeFileSync(join(dest, "a", "SKILL.md"), SKILL_MD);
+      expect(() => findSkillRoot(dest)).toThrow("No SKILL.md at the archive root or in a single top-level folder");
+
+      rmSync(join(dest, "b"), { recursive: true });
+      mkdirSync(join(dest, "__MACOSX"));
+      expect(findSkillRoot(dest)).toBe(join(dest, "a"));
+    });
+  });
+
+  describe("packSkillArchive", () => {
+    const skillDir = join(root, "pdf");
+    const longPath = `${"nested-directory-name/".repeat(5)}reference.md`;
+
+    beforeEach(() => {
+      mkdirSync(join(skillDir, ".git"), { recursive: true });
+      mkdirSync(join(skillDir, "nested-directory-name/".repeat(5)), { recursive: true });
+      writeFileSync(join(skillDir, "SKILL.md"), SKILL_MD);
+      writeFileSync(join(skillDir, "run.sh"), "echo hi\n");
+      chmodSync(join(skillDir, "run.sh"), 0o755);
+      writeFileSync(join(skillDir, longPath), "# Reference\n");
+      symlinkSync("SKILL.md", join(skillDir, "README.md"));
+      writeFileSync(join(skillDir, ".git", "HEAD"), "ref: refs/heads/main\n");
+      writeFileSync(join(skillDir, ".wopr-source.json"), "{}");
+    });
+
+    it("round-trips through extraction under a single folder", () => {
+      const archive = packSkillArchive(skillDir, "pdf");
+      extractSkillArchive(archive, dest);
+
+      const extracted = findSkillRoot(dest);
+      expect(extracted).toBe(join(dest, "pdf"));
+      expect(hashSkillDirectory(extracted)).toBe(hashSkillDirectory(skillDir));
+      expect(lstatSync(join(extracted, "README.md")).isSymbolicLink()).toBe(true);
+      expect(statSync(join(extracted, "run.sh")).mode & 0o111).not.toBe(0);
+      expect(existsSync(join(extracted, ".git"))).toBe(false);
+      expect(existsSync(join(extracted, ".wopr-source.json"))).toBe(false);
+    });
+
+    it("is reproducible", () => {
+      expect(sha256Hex(packSkillArchive(skillDir, "pdf"))).toBe(sha256Hex(packSkillArchive(skillDir, "pdf")));
+    });
+
+    it("refuses symlinks that point outside the skill", () => {
+      symlinkSync("../../etc/passwd", join(skillDir, "passwd"));
+      expect(() => packSkillArchive(skillDir, "pdf")).toThrow("Symlink points outside the skill: passwd");
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import type { ChannelCommand, ChannelCommandContext, ChannelProvider } from "@wopr-network/plugin-types";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../src/skill-usage.js", () => ({
+  trackSkillUsage: vi.fn(async () => {}),
+}));
+
+vi.mock("../src/skills.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skills.js")>("../src/skills.js");
+  return {
+    buildSkillCommandSpecs: actual.buildSkillCommandSpecs,
+    discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
+    isSkillQuarantined: actual.isSkillQuarantined,
+    onSkillIndexChange: vi.fn(() => vi.fn()),
+    onSkillStateChange: vi.fn(() => vi.fn()),
+    readAllSkillStatesAsync: vi.fn(async () => ({})),
+  };
+});
+
+const { syncSkillCommands, unregisterSkillCommands, watchSkillCommands, buildToolArgs, splitCommandArgs, applyArgTemplate } = await import("../src/skill-commands.js");
+const { discoverSkills, onSkillStateChange, readAllSkillStatesAsync } = await import("../src/skills.js");
+const { trackSkillUsage } = await import("../src/skill-usage.js");
+
+function toolSkill(name: string, toolName = "Bash") {
+  return {
+    name,
+    description: `${name} skill`,
+    path: `/${name}/SKILL.md`,
+    baseDir: `/${name}`,
+    source: "managed",
+    commandDispatch: { kind: "tool" as const, toolName, argMode: "raw" as const },
+  };
+}
+
+type Provider = ChannelProvider & {
+  registerCommand: ReturnType<typeof vi.fn>;
+  unregisterCommand: ReturnType<typeof vi.fn>;
+};
+
+/** A channel provider that keeps its commands like a real one */
+function makeProvider(id = "discord", taken = ["help", "deploy"]): Provider {
+  const commands = new Map<string, ChannelCommand>(
+    taken.map((name) => [name, { name, description: name, handler: vi.fn(async () => {}) }]),
+  );
+  return {
+    id,
+    registerCommand: vi.fn((command: ChannelCommand) => commands.set(command.name, command)),
+    unregisterCommand: vi.fn((name: string) => commands.delete(name)),
+    getCommands: () => [...commands.values()],
+    addMessageParser: vi.fn(),
+    removeMessageParser: vi.fn(),
+    getMessageParsers: () => [],
+    send: vi.fn(async () => {}),
+    getBotUsername: () => "wopr",
+  };
+}
+
+function makeCtx(providers: ChannelProvider[]) {
+  return {
+    getChannelProviders: vi.fn(() => providers),
+    getChannels: vi.fn(() => [
+      { channel: { id: "c1", type: "discord" }, session: "main", getContext: vi.fn(), send: vi.fn() },
+    ]),
+    inject: vi.fn(async () => "done"),
+    events: { on: vi.fn(() => vi.fn()) },
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as any;
+}
+
+function commandContext(args: string[], channel = "c1"): ChannelCommandContext & { reply: ReturnType<typeof vi.fn> } {
+  return { channel, channelType: "discord", sender: "alice", args, reply: vi.fn(async () => {}), getBotUsername: () => "wopr" };
+}
+
+describe("skill-commands", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("with channel providers", () => {
+    let provider: Provider;
+    let ctx: any;
+
+    beforeEach(() => {
+      unregisterSkillCommands();
+      provider = makeProvider();
+      ctx = makeCtx([provider]);
+      vi.clearAllMocks();
+    });
+
+    const registeredCommand = (p: Provider = provider, index = 0): ChannelCommand =>
+      p.registerCommand.mock.calls[index][0];
+
+    it("registers one command per tool-dispatch skill", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({
+        skills: [toolSkill("git-log"), { ...toolSkill("plain"), commandDispatch: undefined }],
+        warnings: [],
+      });
+      await syncSkillCommands(ctx);
+      expect(provider.registerCommand).toHaveBeenCalledTimes(1);
+      expect(registeredCommand().name).toBe("git_log");
+      expect(provider.getCommands().map((c) => c.name)).toEqual(["help", "deploy", "git_log"]);
+    });
+
+    it("registers on every provider and avoids names any of them uses", async () => {
+      const slack = makeProvider("slack", ["status"]);
+      ctx = makeCtx([provider, slack]);
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("deploy"), toolSkill("status")], warnings: [] });
+      const specs = await syncSkillCommands(ctx);
+      expect(specs.map((s: any) => s.name)).toEqual(["deploy_2", "status_2"]);
+      expect(slack.registerCommand).toHaveBeenCalledTimes(2);
+
+      // Its own commands do not count as taken on the next sync
+      await syncSkillCommands(ctx);
+      expect(provider.registerCommand).toHaveBeenCalledTimes(2);
+    });
+
+    it("unregisters commands for skills that went away", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("git-log")], warnings: [] });
+      await syncSkillCommands(ctx);
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [], warnings: [] });
+      await syncSkillCommands(ctx);
+      expect(provider.unregisterCommand).toHaveBeenCalledWith("git_log");
+    });
+
+    it("registers on providers that appear later", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("git-log")], warnings: [] });
+      await syncSkillCommands(ctx);
+      const late = makeProvider("slack", []);
+      ctx.getChannelProviders.mockReturnValue([provider, late]);
+      await syncSkillCommands(ctx);
+      expect(provider.registerCommand).toHaveBeenCalledTimes(1);
+      expect(late.registerCommand).toHaveBeenCalledTimes(1);
+
+      unregisterSkillCommands();
+      expect(provider.unregisterCommand).toHaveBeenCalledWith("git_log");
+      expect(late.unregisterCommand).toHaveBeenCalledWith("git_log");
+    });
+
+    it("asks the channel's session to run the declared tool with the raw arguments", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("git-log", "GitLog")], warnings: [] });
+      await syncSkillCommands(ctx);
+
+      const command = commandContext(["--oneline", "-n", "5"]);
+      await registeredCommand().handler(command);
+
+      expect(ctx.inject).toHaveBeenCalledWith(
+        "main",
+        '/git_log: run the GitLog tool with this input and reply with its result:\n{"command":"--oneline -n 5","commandName":"git_log","skillName":"git-log"}',
+        { from: "alice", channel: { id: "c1", type: "discord" } },
+      );
+      expect(command.reply).toHaveBeenCalledWith("done");
+      expect(trackSkillUsage).toHaveBeenCalledWith("git-log", { kind: "tool_dispatch", session: "main", channel: "c1" });
+
+      ctx.inject.mockRejectedValueOnce(new Error("session busy"));
+      const failing = commandContext([]);
+      await registeredCommand().handler(failing);
+      expect(trackSkillUsage).toHaveBeenLastCalledWith("git-log", {
+        kind: "tool_dispatch",
+        session: "main",
+        channel: "c1",
+        error: "session busy",
+      });
+      expect(failing.reply).toHaveBeenCalledWith("/git_log failed: session busy");
+    });
+
+    it("replies with an error when no session is bound to the channel", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("git-log")], warnings: [] });
+      await syncSkillCommands(ctx);
+      const command = commandContext([], "elsewhere");
+      await registeredCommand().handler(command);
+      expect(ctx.inject).not.toHaveBeenCalled();
+      expect(command.reply).toHaveBeenCalledWith(expect.stringContaining("no session is bound"));
+      expect(trackSkillUsage).toHaveBeenCalledWith("git-log", {
+        kind: "slash_command",
+        channel: "elsewhere",
+        error: "no session is bound to this channel",
+      });
+    });
+
+    it("leaves out disabled and quarantined skills", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({
+        skills: [
+          toolSkill("git-log"),
+          toolSkill("off"),
+          { ...toolSkill("flagged"), untrusted: { reasons: ["role marker"], contentHash: "h" } },
+        ],
+        warnings: [],
+      });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({ off: { enabled: false, useCount: 0 } });
+      const specs = await syncSkillCommands(ctx);
+      expect(specs.map((s: any) => s.name)).toEqual(["git_log"]);
+      expect(provider.registerCommand).toHaveBeenCalledTimes(1);
+
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({ "git-log": { enabled: false, useCount: 0 } });
+      await syncSkillCommands(ctx);
+      expect(provider.unregisterCommand).toHaveBeenCalledWith("git_log");
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({});
+    });
+
+    it("re-syncs when a skill changes state or a plugin finishes init", async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("git-log")], warnings: [] });
+        const stop = watchSkillCommands(ctx);
+        const onStateChange = vi.mocked(onSkillStateChange).mock.calls[0][0];
+        onStateChange();
+        await vi.runAllTimersAsync();
+        expect(provider.registerCommand).toHaveBeenCalledTimes(1);
+
+        expect(ctx.events.on).toHaveBeenCalledWith("plugin:afterInit", expect.any(Function));
+        const late = makeProvider("slack", []);
+        ctx.getChannelProviders.mockReturnValue([provider, late]);
+        ctx.events.on.mock.calls[0][1]({ plugin: "wopr-plugin-slack", version: "1.0.0" });
+        await vi.runAllTimersAsync();
+        expect(late.registerCommand).toHaveBeenCalledTimes(1);
+        stop();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("without channel providers", () => {
+    it("registers nothing but still returns the specs", async () => {
+      unregisterSkillCommands();
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [toolSkill("skill")], warnings: [] });
+      const specs = await syncSkillCommands(makeCtx([]));
+      expect(specs).toHaveLength(1);
+    });
+  });
+
+  describe("splitCommandArgs", () => {
+    it("splits on whitespace and honours quotes and escapes", () => {
+      expect(splitCommandArgs(`a  "b c" 'd "e"' f\\ g ""`)).toEqual(["a", "b c", 'd "e"', "f g", ""]);
+    });
+
+    it("throws on an unterminated quote", () => {
+      expect(() => splitCommandArgs(`"open`)).toThrow("unterminated");
+    });
+  });
+
+  describe("applyArgTemplate", () => {
+    it("maps positional and named args into the template", () => {
+      const template = { path: "$1", mode: "${mode}", rest: "$@", label: "run $1 in ${mode}", missing: "$3" };
+      expect(applyArgTemplate(template, ["src", "--mode=fast", "extra"])).toEqual({
+        path: "src",
+        mode: "fast",
+        rest: ["src", "extra"],
+        label: "run src in fast",
+      });
+    });
+  });
+
+  describe("buildToolArgs", () => {
+    const dispatch = toolSkill("x").commandDispatch;
+    const spec = (argMode: string, argTemplate?: Record<string, unknown>) =>
+      ({ name: "x", skillName: "x-skill", description: "", dispatch: { ...dispatch, argMode, argTemplate } }) as any;
+
+    it("passes raw arguments through", () => {
+      expect(buildToolArgs(spec("raw"), "a b")).toEqual({ command: "a b", commandName: "x", skillName: "x-skill" });
+    });
+
+    it("splits arguments in argv mode", () => {
+      expect(buildToolArgs(spec("argv"), `a "b c"`)).toEqual({ argv: ["a", "b c"], commandName: "x", skillName: "x-skill" });
+    });
+
+    it("parses a JSON object in json mode", () => {
+      expect(buildToolArgs(spec("json"), `{"q": 1}`)).toEqual({ q: 1 });
+      expect(() => buildToolArgs(spec("json"), "{nope")).toThrow("valid JSON");
+      expect(() => buildToolArgs(spec("json"), "[1]")).toThrow("JSON object");
+    });
+
+    it("fills the template in template mode", () => {
+      expect(buildToolArgs(spec("template", { query: "$*" }), "hello world")).toEqual({ query: "hello world" });
+    });
+  });
+});
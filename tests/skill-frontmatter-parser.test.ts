@@ -101,6 +101,123 @@ command-arg-mode: raw
     });
   });
 
+  describe("parseSkillFrontmatter YAML support", () => {
+    it("parses folded and literal block descriptions", () => {
+      const folded = parseSkillFrontmatter("---\nname: test\ndescription: >\n  First line\n  continues here\n---\n");
+      expect(folded.frontmatter.description).toBe("First line continues here");
+
+      const literal = parseSkillFrontmatter("---\nname: test\ndescription: |\n  Line one\n  Line two\n---\n");
+      expect(literal.frontmatter.description).toBe("Line one\nLine two");
+    });
+
+    it("parses allowed-tools as a YAML list", () => {
+      const content = `---
+name: test
+description: test skill
+allowed-tools:
+  - Bash
+  - Read
+---
+`;
+      expect(parseSkillFrontmatter(content).frontmatter["allowed-tools"]).toEqual(["Bash", "Read"]);
+    });
+
+    it("parses nested metadata maps", () => {
+      const content = `---
+name: test
+description: test skill
+metadata:
+  wopr:
+    emoji: "🔧"
+    requires:
+      bins: [jq]
+---
+`;
+      expect(parseSkillFrontmatter(content).frontmatter.metadata).toEqual({
+        wopr: { emoji: "🔧", requires: { bins: ["jq"] } },
+      });
+    });
+
+    it("keeps colons inside quoted strings", () => {
+      const content = `---
+name: test
+description: "Use when: the user asks for a report"
+---
+`;
+      expect(parseSkillFrontmatter(content).frontmatter.description).toBe("Use when: the user asks for a report");
+    });
+
+    it("accepts CRLF line endings and a BOM", () => {
+      const content = "\uFEFF---\r\nname: test\r\ndescription: Windows skill\r\n---\r\n\r\n# Body\r\n";
+      const { frontmatter, body, warnings } = parseSkillFrontmatter(content);
+      expect(frontmatter).toEqual({ name: "test", description: "Windows skill" });
+      expect(body.trim()).toBe("# Body");
+      expect(warnings).toEqual([]);
+    });
+
+    it("coerces scalar values of string fields", () => {
+      const { frontmatter } = parseSkillFrontmatter("---\nname: test\ndescription: test\nlicense: 2024\n---\n");
+      expect(frontmatter.license).toBe("2024");
+    });
+
+    it("reports YAML errors with line and column", () => {
+      const content = `---
+name: test
+description: test skill
+name: duplicate
+---
+`;
+      const { warnings } = parseSkillFrontmatter(content);
+      const yamlWarning = warnings.find((w) => w.message.startsWith("invalid frontmatter YAML"));
+      expect(yamlWarning).toMatchObject({ line: 4, column: 1 });
+    });
+
+    it("falls back to line parsing for unquoted colons, with a warning", () => {
+      const content = `---
+name: test
+description: Use this: when the user asks
+---
+`;
+      const { frontmatter, warnings } = parseSkillFrontmatter(content);
+      expect(frontmatter.description).toBe("Use this: when the user asks");
+      expect(warnings[0]).toMatchObject({ line: 3 });
+    });
+
+    it("warns when frontmatter is not a mapping", () => {
+      const { frontmatter, warnings } = parseSkillFrontmatter("---\n- a\n- b\n---\n");
+      expect(frontmatter).toEqual({});
+      expect(warnings[0].message).toContain("must be a YAML mapping");
+    });
+
+    it("parses invocation policy flags as booleans", () => {
+      const content = `---
+name: test
+description: test skill
+disable-model-invocation: true
+user-invocable: "no"
+---
+`;
+      const { frontmatter, warnings } = parseSkillFrontmatter(content);
+      expect(frontmatter["disable-model-invocation"]).toBe(true);
+      expect(frontmatter["user-invocable"]).toBe(false);
+      expect(warnings).toEqual([]);
+    });
+
+    it("warns on non-boolean invocation policy flags", () => {
+      const { frontmatter, warnings } = parseSkillFrontmatter(
+        "---\nname: test\ndescription: test\nuser-invocable: sometimes\n---\n",
+      );
+      expect(frontmatter["user-invocable"]).toBeUndefined();
+      expect(warnings[0].message).toContain("must be true or false");
+    });
+
+    it("handles an empty frontmatter block", () => {
+      const { frontmatter, body } = parseSkillFrontmatter("---\n---\n# Body");
+      expect(frontmatter).toEqual({});
+      expect(body).toBe("# Body");
+    });
+  });
+
   describe("validateSkillName", () => {
     it("returns no errors for valid name matching directory", () => {
       const errors = validateSkillName("my-skill", "my-skill");
@@ -0,0 +1,102 @@
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { checkoutGitSource, isValidGitRef, resolveRemoteRef, splitGitRef } from "../src/skill-git.js";
+
+describe("skill-git", () => {
+  describe("splitGitRef", () => {
+    it("splits a trailing ref", () => {
+      expect(splitGitRef("o/r/path@v1.2.0")).toEqual({ base: "o/r/path", ref: "v1.2.0" });
+      expect(splitGitRef("o/r/path@feature/x")).toEqual({ base: "o/r/path", ref: "feature/x" });
+      expect(splitGitRef("o/r/path")).toEqual({ base: "o/r/path" });
+    });
+
+    it("rejects invalid refs", () => {
+      expect(() => splitGitRef("o/r@")).toThrow("Invalid git ref");
+      expect(() => splitGitRef("o/r@--upload-pack=x")).toThrow("Invalid git ref");
+      expect(() => splitGitRef("o/r@a..b")).toThrow("Invalid git ref");
+    });
+
+    it("validates ref names", () => {
+      expect(isValidGitRef("main")).toBe(true);
+      expect(isValidGitRef("0123456789abcdef0123456789abcdef01234567")).toBe(true);
+      expect(isValidGitRef("a b")).toBe(false);
+      expect(isValidGitRef("/main")).toBe(false);
+      expect(isValidGitRef("x.lock")).toBe(false);
+    });
+  });
+
+  describe("checkoutGitSource", () => {
+    let root: string;
+    let url: string;
+    let firstCommit: string;
+    let headCommit: string;
+
+    const git = (cwd: string, ...args: string[]) =>
+      execFileSync("git", ["-c", "user.email=t@example.com", "-c", "user.name=t", ...args], {
+        cwd,
+        encoding: "utf-8",
+      }).trim();
+
+    beforeAll(() => {
+      root = mkdtempSync(join(tmpdir(), "skill-git-"));
+      const repo = join(root, "repo");
+      mkdirSync(join(repo, "skills", "pdf"), { recursive: true });
+      git(root, "init", "-q", "-b", "main", repo);
+      writeFileSync(join(repo, "skills", "pdf", "SKILL.md"), "v1\n");
+      git(repo, "add", "-A");
+      git(repo, "commit", "-qm", "one");
+      git(repo, "tag", "v1");
+      firstCommit = git(repo, "rev-parse", "HEAD");
+      writeFileSync(join(repo, "skills", "pdf", "SKILL.md"), "v2\n");
+      git(repo, "commit", "-qam", "two");
+      headCommit = git(repo, "rev-parse", "HEAD");
+      url = `file://${repo}`;
+    });
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    const skillFile = (dir: string) => readFileSync(join(dir, "skills", "pdf", "SKILL.md"), "utf-8");
+
+    it("clones the default branch when no ref is given", async () => {
+      const dir = join(root, "default");
+      expect(await checkoutGitSource({ url, dir, sparsePath: "skills/pdf" })).toBe(headCommit);
+      expect(skillFile(dir)).toBe("v2\n");
+    });
+
+    it("checks out a tag", async () => {
+      const dir = join(root, "tag");
+      expect(await checkoutGitSource({ url, ref: "v1", dir, sparsePath: "skills/pdf" })).toBe(firstCommit);
+      expect(skillFile(dir)).toBe("v1\n");
+    });
+
+    it("checks out a commit SHA", async () => {
+      const dir = join(root, "sha");
+      expect(await checkoutGitSource({ url, ref: firstCommit, dir })).toBe(firstCommit);
+      expect(skillFile(dir)).toBe("v1\n");
+    });
+
+    it("checks out a branch", async () => {
+      const dir = join(root, "branch");
+      expect(await checkoutGitSource({ url, ref: "main", dir })).toBe(headCommit);
+    });
+
+    it("fails clearly when the ref does not exist", async () => {
+      const dir = join(root, "missing");
+      await expect(checkoutGitSource({ url, ref: "nope", dir })).rejects.toThrow(`Ref "nope" not found in ${url}`);
+      expect(existsSync(join(dir, "skills"))).toBe(false);
+    });
+
+    it("resolves remote refs to commit SHAs", async () => {
+      expect(await resolveRemoteRef(url, undefined)).toBe(headCommit);
+      expect(await resolveRemoteRef(url, "main")).toBe(headCommit);
+      expect(await resolveRemoteRef(url, "v1")).toBe(firstCommit);
+      expect(await resolveRemoteRef(url, firstCommit.toUpperCase())).toBe(firstCommit);
+      await expect(resolveRemoteRef(url, "nope")).rejects.toThrow(`Ref "nope" not found in ${url}`);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { diffSkillDirectories, hashSkillDirectory, listHashedFiles } from "../src/skill-hash.js";
+
+describe("skill-hash", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "skill-hash-"));
+    mkdirSync(join(dir, "scripts"));
+    writeFileSync(join(dir, "SKILL.md"), "---\nname: pdf\n---\n");
+    writeFileSync(join(dir, "scripts", "run.sh"), "echo hi\n");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists files with relative paths, skipping git metadata and the install record", () => {
+    mkdirSync(join(dir, ".git"));
+    writeFileSync(join(dir, ".git", "HEAD"), "ref");
+    writeFileSync(join(dir, ".wopr-source.json"), "{}");
+    expect(listHashedFiles(dir)).toEqual(["SKILL.md", "scripts/run.sh"]);
+  });
+
+  it("is stable and ignores the install record", () => {
+    const before = hashSkillDirectory(dir);
+    writeFileSync(join(dir, ".wopr-source.json"), "{}");
+    expect(hashSkillDirectory(dir)).toBe(before);
+    expect(before).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it("changes when a file is edited, added or removed", () => {
+    const original = hashSkillDirectory(dir);
+    writeFileSync(join(dir, "scripts", "run.sh"), "echo bye\n");
+    const edited = hashSkillDirectory(dir);
+    expect(edited).not.toBe(original);
+
+    writeFileSync(join(dir, "notes.md"), "");
+    expect(hashSkillDirectory(dir)).not.toBe(edited);
+  });
+
+  it("hashes symlinks by their target", () => {
+    symlinkSync("scripts/run.sh", join(dir, "run"));
+    const linked = hashSkillDirectory(dir);
+    rmSync(join(dir, "run"));
+    symlinkSync("SKILL.md", join(dir, "run"));
+    expect(hashSkillDirectory(dir)).not.toBe(linked);
+  });
+
+  it("diffs two skill directories", () => {
+    const other = mkdtempSync(join(tmpdir(), "skill-hash-other-"));
+    try {
+      writeFileSync(join(other, "SKILL.md"), "---\nname: pdf\n---\nnew\n");
+      writeFileSync(join(other, "README.md"), "readme\n");
+      expect(diffSkillDirectories(dir, other)).toEqual({
+        added: ["README.md"],
+        removed: ["scripts/run.sh"],
+        modified: ["SKILL.md"],
+      });
+    } finally {
+      rmSync(other, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,178 @@
+import { mkdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const {
+  closeSkillIndex,
+  getSkillIndexGeneration,
+  invalidateSkillIndex,
+  listSkillFiles,
+  loadIndexedSkillFile,
+  onSkillIndexChange,
+  refreshSkillIndex,
+} = await import("../src/skill-index.js");
+const { discoverSkills } = await import("../src/skills.js");
+
+const testDir = join(tmpdir(), "wopr-skill-index-test");
+const managedDir = join(testDir, "managed");
+const workspaceDir = join(testDir, "workspace");
+
+function writeSkill(dir: string, name: string, description: string): string {
+  mkdirSync(join(dir, name), { recursive: true });
+  const path = join(dir, name, "SKILL.md");
+  writeFileSync(path, `---\nname: ${name}\ndescription: ${description}\n---\n\n# ${name}\n`);
+  return path;
+}
+
+function fakeParser() {
+  return vi.fn((filePath: string, content: string, source: string) => ({
+    entry: {
+      skill: { name: content.length.toString(), description: "d", path: filePath, baseDir: testDir, source },
+      frontmatter: {},
+      invocation: {},
+    },
+    warnings: [],
+  }));
+}
+
+describe("skill-index", () => {
+  beforeEach(() => {
+    closeSkillIndex();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(managedDir, { recursive: true });
+    mkdirSync(workspaceDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    closeSkillIndex();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("listSkillFiles", () => {
+    it("returns an empty list for a missing directory", () => {
+      expect(listSkillFiles(join(testDir, "missing"))).toEqual([]);
+    });
+
+    it("lists SKILL.md files one level down, skipping dot dirs", () => {
+      const path = writeSkill(managedDir, "alpha", "Alpha");
+      writeSkill(managedDir, ".tmp-123", "Temp");
+      mkdirSync(join(managedDir, "no-skill-file"));
+      expect(listSkillFiles(managedDir)).toEqual([path]);
+    });
+  });
+
+  describe("loadIndexedSkillFile", () => {
+    it("parses once while the file is unchanged", () => {
+      const path = writeSkill(managedDir, "alpha", "Alpha");
+      listSkillFiles(managedDir);
+      const parse = fakeParser();
+
+      const first = loadIndexedSkillFile(path, "managed", parse);
+      const second = loadIndexedSkillFile(path, "managed", parse);
+
+      expect(second).toBe(first);
+      expect(parse).toHaveBeenCalledTimes(1);
+      expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("re-parses after invalidate(name)", () => {
+      const path = writeSkill(managedDir, "alpha", "Alpha");
+      const parse = fakeParser();
+
+      loadIndexedSkillFile(path, "managed", parse);
+      invalidateSkillIndex("alpha");
+      loadIndexedSkillFile(path, "managed", parse);
+
+      expect(parse).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps the parsed entry when only the mtime changed", () => {
+      const path = writeSkill(managedDir, "alpha", "Alpha");
+      const parse = fakeParser();
+
+      const first = loadIndexedSkillFile(path, "managed", parse);
+      refreshSkillIndex();
+      const reloaded = loadIndexedSkillFile(path, "managed", parse);
+      utimesSync(path, new Date(), new Date(Date.now() + 5000));
+      invalidateSkillIndex("other");
+      const touched = loadIndexedSkillFile(path, "managed", parse);
+
+      expect(reloaded.hash).toBe(first.hash);
+      expect(touched).toBe(reloaded);
+      expect(parse).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("change notification", () => {
+    it("bumps the generation and notifies listeners on refresh", () => {
+      const listener = vi.fn();
+      const unsubscribe = onSkillIndexChange(listener);
+      const before = getSkillIndexGeneration();
+
+      refreshSkillIndex();
+      unsubscribe();
+      refreshSkillIndex();
+
+      expect(getSkillIndexGeneration()).toBe(before + 2);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("discoverSkills integration", () => {
+    it("keeps returning the { skills, warnings } shape", () => {
+      writeSkill(managedDir, "alpha", "Alpha skill");
+      const result = discoverSkills({ managedDir, workspaceDir });
+      expect(result.skills.map((s) => s.name)).toEqual(["alpha"]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("picks up edits and new skills after invalidation", () => {
+      const path = writeSkill(managedDir, "alpha", "Alpha skill");
+      expect(discoverSkills({ managedDir, workspaceDir }).skills[0].description).toBe("Alpha skill");
+
+      writeFileSync(path, "---\nname: alpha\ndescription: Edited\n---\n");
+      writeSkill(workspaceDir, "beta", "Beta skill");
+      invalidateSkillIndex("alpha");
+
+      const { skills } = discoverSkills({ managedDir, workspaceDir });
+      expect(skills.map((s) => [s.name, s.description])).toEqual([
+        ["alpha", "Edited"],
+        ["beta", "Beta skill"],
+      ]);
+    });
+
+    it("invalidates changed skills from the watcher", async () => {
+      const path = writeSkill(managedDir, "alpha", "Alpha skill");
+      discoverSkills({ managedDir, workspaceDir });
+
+      const changed = new Promise<void>((resolve) => onSkillIndexChange(resolve));
+      writeFileSync(path, "---\nname: alpha\ndescription: Watched edit\n---\n");
+      await changed;
+
+      expect(discoverSkills({ managedDir, workspaceDir }).skills[0].description).toBe("Watched edit");
+    });
+
+    it("watches skill directories added later and ignores dot-directories", async () => {
+      discoverSkills({ managedDir, workspaceDir });
+      const path = writeSkill(managedDir, "beta", "Beta skill");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(discoverSkills({ managedDir, workspaceDir }).skills.map((s) => s.name)).toEqual(["beta"]);
+
+      const listener = vi.fn();
+      onSkillIndexChange(listener);
+      writeSkill(join(managedDir, ".staging"), "gamma", "Staged skill");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(listener).not.toHaveBeenCalled();
+
+      const changed = new Promise<void>((resolve) => onSkillIndexChange(resolve));
+      writeFileSync(path, "---\nname: beta\ndescription: Watched edit\n---\n");
+      await changed;
+      expect(discoverSkills({ managedDir, workspaceDir }).skills[0].description).toBe("Watched edit");
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../src/skills.js", () => ({
+  installSkillCollection: vi.fn(),
+  installSkillFromSource: vi.fn(),
+  readInstallRecord: vi.fn(() => ({ commit: "abc123" })),
+}));
+
+vi.mock("../src/skill-update.js", () => ({
+  checkSkillUpdate: vi.fn(),
+  updateSkill: vi.fn(),
+}));
+
+vi.mock("../src/skill-manifest.js", () => ({
+  planSkillSync: vi.fn(),
+  applySkillSync: vi.fn(),
+}));
+
+const { installSkillCollection, installSkillFromSource } = await import("../src/skills.js");
+const { checkSkillUpdate, updateSkill } = await import("../src/skill-update.js");
+const { applySkillSync, planSkillSync } = await import("../src/skill-manifest.js");
+const { skillError } = await import("../src/skill-errors.js");
+const {
+  cancelInstallJob,
+  configureInstallJobs,
+  getInstallJob,
+  listInstallJobs,
+  resetInstallJobs,
+  startInstallJob,
+  startSyncJob,
+  startUpdateJob,
+  waitForInstallJob,
+} = await import("../src/skill-install-jobs.js");
+
+type InstallOptions = NonNullable<Parameters<typeof installSkillFromSource>[2]>;
+
+/** An install that runs until its signal aborts */
+function hangingInstall(_source: string, _name?: string, options?: InstallOptions) {
+  return new Promise<never>((_resolve, reject) => {
+    options?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+  });
+}
+
+describe("skill-install-jobs", () => {
+  afterEach(() => {
+    resetInstallJobs();
+    vi.mocked(installSkillFromSource).mockReset();
+  });
+
+  it("returns a queued job immediately and records success with output", async () => {
+    vi.mocked(installSkillFromSource).mockImplementation(async (_source, _name, options) => {
+      options?.onOutput?.("stdout", "cloning\n");
+      options?.onOutput?.("stderr", "warning\n");
+      return { name: "pdf" } as any;
+    });
+
+    const job = startInstallJob({ source: "github:o/r/pdf" });
+    expect(job.state).toBe("queued");
+
+    const done = await waitForInstallJob(job.id);
+    expect(done).toMatchObject({ state: "succeeded", skill: "pdf", commit: "abc123", stdout: "cloning\n", stderr: "warning\n" });
+    expect(done?.finishedAt).toBeTruthy();
+    expect(installSkillFromSource).toHaveBeenCalledWith("github:o/r/pdf", undefined, expect.any(Object));
+
+    const byCli = startInstallJob({ source: "github:o/r/pdf", installedBy: "cli" });
+    await waitForInstallJob(byCli.id);
+    expect(installSkillFromSource).toHaveBeenLastCalledWith(
+      "github:o/r/pdf",
+      undefined,
+      expect.objectContaining({ installedBy: "cli" }),
+    );
+
+    const linked = startInstallJob({ source: "path:/src/pdf", link: true });
+    expect(linked.link).toBe(true);
+    await waitForInstallJob(linked.id);
+    expect(installSkillFromSource).toHaveBeenLastCalledWith(
+      "path:/src/pdf",
+      undefined,
+      expect.objectContaining({ link: true }),
+    );
+  });
+
+  it("installs collections with their include and ignore globs", async () => {
+    vi.mocked(installSkillCollection).mockResolvedValue([{ name: "docx" }, { name: "pdf" }] as any);
+
+    const job = startInstallJob({ source: "github:o/r/skills/*", include: ["*"], ignore: ["xlsx"] });
+    expect(await waitForInstallJob(job.id)).toMatchObject({ state: "succeeded", skills: ["docx", "pdf"], commit: "abc123" });
+    expect(installSkillCollection).toHaveBeenCalledWith(
+      "github:o/r/skills/*",
+      expect.objectContaining({ include: ["*"], ignore: ["xlsx"] }),
+    );
+
+    const all = startInstallJob({ source: "github:o/r", all: true });
+    await waitForInstallJob(all.id);
+    expect(installSkillCollection).toHaveBeenLastCalledWith("github:o/r", expect.any(Object));
+    expect(installSkillFromSource).not.toHaveBeenCalled();
+  });
+
+  it("records failures with the error message and code", async () => {
+    vi.mocked(installSkillFromSource).mockRejectedValue(skillError("conflict", 'Skill "pdf" already exists'));
+    const job = startInstallJob({ source: "https://example.com/pdf.git", name: "pdf" });
+    expect(await waitForInstallJob(job.id)).toMatchObject({
+      state: "failed",
+      error: 'Skill "pdf" already exists',
+      errorCode: "conflict",
+    });
+  });
+
+  it("runs updates and update checks as jobs", async () => {
+    const result = { name: "pdf", updated: true, changes: { added: [], removed: [], modified: [] } };
+    vi.mocked(updateSkill).mockResolvedValue(result);
+    const job = startUpdateJob("pdf", { force: true, installedBy: "api" });
+    expect(job).toMatchObject({ kind: "update", name: "pdf", force: true, state: "queued" });
+    expect(await waitForInstallJob(job.id)).toMatchObject({ state: "succeeded", update: result });
+    expect(updateSkill).toHaveBeenCalledWith(
+      "pdf",
+      expect.objectContaining({ force: true, installedBy: "api", signal: expect.any(AbortSignal) }),
+    );
+
+    vi.mocked(checkSkillUpdate).mockResolvedValue({ name: "pdf", source: "x", updateAvailable: false, modified: true });
+    const check = startUpdateJob("pdf", { check: true });
+    expect(await waitForInstallJob(check.id)).toMatchObject({
+      state: "succeeded",
+      updateCheck: { name: "pdf", updateAvailable: false, modified: true },
+    });
+    expect(updateSkill).toHaveBeenCalledTimes(1);
+  });
+
+  it("plans and applies a sync when the job runs", async () => {
+    const plan = { install: [], enable: ["pdf"], disable: [], remove: [], errors: [] };
+    const result = { applied: [{ action: "enable" as const, name: "pdf" }], errors: [] };
+    vi.mocked(planSkillSync).mockResolvedValue(plan);
+    vi.mocked(applySkillSync).mockResolvedValue(result);
+
+    const job = startSyncJob({ prune: true, installedBy: "api" });
+    expect(job).toMatchObject({ kind: "sync", prune: true, state: "queued" });
+    expect(await waitForInstallJob(job.id)).toMatchObject({ state: "succeeded", sync: { plan, result } });
+    expect(planSkillSync).toHaveBeenCalledWith({ prune: true });
+    expect(applySkillSync).toHaveBeenCalledWith(
+      plan,
+      expect.objectContaining({ installedBy: "api", signal: expect.any(AbortSignal) }),
+    );
+  });
+
+  it("runs jobs one at a time and cancels queued ones without running them", async () => {
+    vi.mocked(installSkillFromSource).mockImplementation(hangingInstall);
+    const first = startInstallJob({ source: "one" });
+    const second = startInstallJob({ source: "two" });
+    await vi.waitFor(() => expect(getInstallJob(first.id)?.state).toBe("running"));
+    expect(getInstallJob(second.id)?.state).toBe("queued");
+
+    expect(cancelInstallJob(second.id)?.state).toBe("cancelled");
+    cancelInstallJob(first.id);
+
+    expect((await waitForInstallJob(first.id))?.state).toBe("cancelled");
+    expect(installSkillFromSource).toHaveBeenCalledTimes(1);
+    expect(listInstallJobs().map((j) => j.source)).toEqual(["two", "one"]);
+  });
+
+  it("fails jobs that exceed the timeout", async () => {
+    configureInstallJobs({ timeoutMs: 20 });
+    vi.mocked(installSkillFromSource).mockImplementation((_source, _name, options) =>
+      new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener("abort", () => reject(options.signal?.reason));
+      }),
+    );
+
+    const job = startInstallJob({ source: "slow" });
+    expect(await waitForInstallJob(job.id)).toMatchObject({ state: "failed", error: expect.stringMatching(/timed out/) });
+  });
+
+  it("returns null for unknown jobs", async () => {
+    expect(getInstallJob("missing")).toBeNull();
+    expect(cancelInstallJob("missing")).toBeNull();
+    expect(await waitForInstallJob("missing")).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/skills-repository.js", () => ({
+  getAllSkillStates: vi.fn(async () => ({})),
+}));
+
+import { hashSkillDirectory } from "../src/skill-hash.js";
+import { refreshSkillIndex } from "../src/skill-index.js";
+import {
+  checkSkillLockDrift,
+  getSkillLockDrift,
+  readSkillLock,
+  resetSkillLockDrift,
+  watchSkillLockDrift,
+  writeSkillLock,
+} from "../src/skill-lock.js";
+import { getAllSkillStates } from "../src/skills-repository.js";
+
+describe("skill-lock", () => {
+  const root = join(tmpdir(), "wopr-skill-lock-test");
+  const skillsDir = join(root, "skills");
+  const lockPath = join(root, ".wopr", "skills.lock");
+
+  function addSkill(name: string, content: string, record = true): string {
+    const dir = join(skillsDir, name);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "SKILL.md"), content);
+    if (record) writeFileSync(join(dir, ".wopr-source.json"), "{}");
+    return hashSkillDirectory(dir);
+  }
+
+  function writeLock(skills: Record<string, unknown>): void {
+    mkdirSync(join(root, ".wopr"), { recursive: true });
+    writeFileSync(lockPath, JSON.stringify({ lockfileVersion: 1, skills }));
+  }
+
+  beforeEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(skillsDir, { recursive: true });
+    resetSkillLockDrift();
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("readSkillLock", () => {
+    it("returns null when there is no lockfile", () => {
+      expect(readSkillLock(lockPath)).toBeNull();
+    });
+
+    it("rejects malformed lockfiles", () => {
+      mkdirSync(join(root, ".wopr"), { recursive: true });
+      writeFileSync(lockPath, "{");
+      expect(() => readSkillLock(lockPath)).toThrow("Invalid skills.lock");
+      writeLock({ "../x": { source: "s", commit: "c", contentHash: "h" } });
+      expect(() => readSkillLock(lockPath)).toThrow('bad entry for "../x"');
+      writeFileSync(lockPath, JSON.stringify({ lockfileVersion: 2, skills: {} }));
+      expect(() => readSkillLock(lockPath)).toThrow("lockfileVersion 1");
+    });
+  });
+
+  describe("writeSkillLock", () => {
+    it("locks installed skills with a recorded source", async () => {
+      const pdfHash = addSkill("pdf", "pdf\n");
+      addSkill("notes", "notes\n", false);
+      addSkill("docx", "edited\n");
+      const packedHash = addSkill("packed", "packed\n");
+      addSkill("dev", "dev\n");
+      vi.mocked(getAllSkillStates).mockResolvedValue({
+        pdf: {
+          enabled: true,
+          useCount: 0,
+          provenance: { installSource: "github:o/r/pdf@v1", installCommit: "abc", contentHash: pdfHash },
+        },
+        docx: {
+          enabled: true,
+          useCount: 0,
+          provenance: { installSource: "github:o/r/docx", installCommit: "def", contentHash: "sha256:original" },
+        },
+        notes: { enabled: true, useCount: 0 },
+        packed: { enabled: true, useCount: 0, provenance: { installSource: "path:dist/packed.zip" } },
+        dev: { enabled: true, useCount: 0, provenance: { installSource: "path:../dev" } },
+        removed: { enabled: true, useCount: 0, provenance: { installSource: "github:o/r/x", installCommit: "1" } },
+      });
+
+      const { lock, warnings } = await writeSkillLock({ lockPath, skillsDir });
+
+      expect(lock.skills).toEqual({
+        docx: { source: "github:o/r/docx", commit: "def", contentHash: "sha256:original" },
+        packed: { source: "path:dist/packed.zip", contentHash: packedHash },
+        pdf: { source: "github:o/r/pdf@v1", commit: "abc", contentHash: pdfHash },
+      });
+      expect(warnings).toEqual([
+        "dev: installed from a local directory, not locked",
+        "docx: has local modifications, locked to its installed source",
+        "notes: no recorded install source, not locked",
+      ]);
+      expect(JSON.parse(readFileSync(lockPath, "utf-8"))).toEqual(lock);
+    });
+  });
+
+  describe("checkSkillLockDrift", () => {
+    it("is silent without a lockfile", () => {
+      addSkill("pdf", "pdf\n");
+      expect(checkSkillLockDrift(skillsDir, lockPath)).toEqual([]);
+    });
+
+    it("reports modified, missing and unlocked skills", () => {
+      const pdfHash = addSkill("pdf", "pdf\n");
+      addSkill("docx", "docx\n");
+      addSkill("extra", "extra\n");
+      addSkill("local", "local\n", false);
+      writeLock({
+        pdf: { source: "github:o/r/pdf", commit: "a", contentHash: pdfHash },
+        docx: { source: "github:o/r/docx", commit: "b", contentHash: "sha256:other" },
+        gone: { source: "github:o/r/gone", commit: "c", contentHash: "sha256:x" },
+      });
+
+      const messages = checkSkillLockDrift(skillsDir, lockPath).map((w) => w.message);
+      expect(messages).toEqual([
+        expect.stringContaining('"docx" differs from skills.lock'),
+        '"gone" is in skills.lock but not installed',
+        '"extra" is installed but not in skills.lock',
+      ]);
+    });
+
+    it("reports an invalid lockfile as a warning", () => {
+      mkdirSync(join(root, ".wopr"), { recursive: true });
+      writeFileSync(lockPath, "nope");
+      expect(checkSkillLockDrift(skillsDir, lockPath)).toEqual([
+        { skillPath: lockPath, message: expect.stringContaining("Invalid skills.lock") },
+      ]);
+    });
+  });
+
+  describe("getSkillLockDrift", () => {
+    it("returns the last check without hashing again", () => {
+      addSkill("docx", "docx\n");
+      writeLock({ docx: { source: "github:o/r/docx", commit: "b", contentHash: "sha256:other" } });
+      expect(getSkillLockDrift(skillsDir)).toEqual([]);
+
+      const drift = checkSkillLockDrift(skillsDir, lockPath);
+      expect(drift).toHaveLength(1);
+      writeLock({});
+      expect(getSkillLockDrift(skillsDir)).toEqual(drift);
+      expect(getSkillLockDrift(join(root, "other"))).toEqual([]);
+    });
+  });
+
+  describe("watchSkillLockDrift", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("checks in the background and again after the skill index changes", () => {
+      vi.useFakeTimers();
+      const hash = addSkill("pdf", "pdf\n");
+      writeLock({ pdf: { source: "github:o/r/pdf", commit: "a", contentHash: "sha256:other" } });
+      const stop = watchSkillLockDrift({ skillsDir, lockPath });
+      try {
+        expect(getSkillLockDrift(skillsDir)).toEqual([]);
+        vi.advanceTimersByTime(2000);
+        expect(getSkillLockDrift(skillsDir)).toHaveLength(1);
+
+        writeLock({ pdf: { source: "github:o/r/pdf", commit: "a", contentHash: hash } });
+        refreshSkillIndex();
+        refreshSkillIndex();
+        expect(getSkillLockDrift(skillsDir)).toHaveLength(1);
+        vi.advanceTimersByTime(2000);
+        expect(getSkillLockDrift(skillsDir)).toEqual([]);
+      } finally {
+        stop();
+      }
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/skills.js", () => ({
+  discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
+  readAllSkillStatesAsync: vi.fn(async () => ({})),
+  readInstallRecord: vi.fn(() => null),
+  installSkillFromSource: vi.fn(),
+  enableSkillAsync: vi.fn(async () => true),
+  disableSkillAsync: vi.fn(async () => true),
+  removeSkill: vi.fn(),
+}));
+
+vi.mock("../src/registries-repository.js", () => ({
+  listRegistries: vi.fn(async () => [{ id: "official", url: "https://example.com/r.json" }]),
+}));
+
+vi.mock("../src/registry-fetcher.js", async () => ({
+  ...(await vi.importActual<typeof import("../src/registry-fetcher.js")>("../src/registry-fetcher.js")),
+  fetchAllRegistries: vi.fn(async () => ({
+    skills: [
+      { name: "brand", description: "", source: "github:acme/skills/brand", registry: "official" },
+      { name: "dup", description: "", source: "github:a/s/dup", registry: "official" },
+      { name: "dup", description: "", source: "github:b/s/dup", registry: "community" },
+      { name: "slides", description: "", source: "github:acme/skills/slides@v2", version: "2.0.0", registry: "official" },
+      {
+        name: "packed",
+        description: "",
+        source: "https://example.com/packed.skill",
+        sha256: "ab".repeat(32),
+        registry: "official",
+      },
+    ],
+    errors: [],
+  })),
+}));
+
+import { fetchAllRegistries } from "../src/registry-fetcher.js";
+import { applySkillSync, isEmptySyncPlan, planSkillSync, readSkillManifest } from "../src/skill-manifest.js";
+import {
+  disableSkillAsync,
+  discoverSkills,
+  installSkillFromSource,
+  readAllSkillStatesAsync,
+  readInstallRecord,
+  removeSkill,
+} from "../src/skills.js";
+
+describe("skill-manifest", () => {
+  const root = join(tmpdir(), "wopr-skill-manifest-test");
+  const manifestPath = join(root, "skills.json");
+
+  const writeManifest = (manifest: unknown) => writeFileSync(manifestPath, JSON.stringify(manifest));
+  const skill = (name: string, source = "managed") =>
+    ({ name, description: "", path: `/${name}/SKILL.md`, baseDir: `/${name}`, source }) as const;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(root, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("readSkillManifest", () => {
+    it("accepts string and object entries", () => {
+      writeManifest({ skills: { pdf: "github:o/r/pdf", docx: { enabled: false } } });
+      expect(readSkillManifest(manifestPath)).toEqual({
+        skills: { pdf: { source: "github:o/r/pdf" }, docx: { enabled: false } },
+      });
+    });
+
+    it("returns null without a manifest and rejects bad ones", () => {
+      expect(readSkillManifest(manifestPath)).toBeNull();
+      writeManifest({ skills: [] });
+      expect(() => readSkillManifest(manifestPath)).toThrow("expected a skills object");
+      writeManifest({ skills: { pdf: { enabled: "yes" } } });
+      expect(() => readSkillManifest(manifestPath)).toThrow('bad entry for "pdf"');
+      writeManifest({ skills: { "../pdf": "github:o/r/pdf" } });
+      expect(() => readSkillManifest(manifestPath)).toThrow('bad entry for "../pdf"');
+    });
+  });
+
+  describe("planSkillSync", () => {
+    it("plans installs, state changes and pruning", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({
+        skills: [skill("on"), skill("off"), skill("stale"), skill("mine"), skill("repo", "workspace")],
+        warnings: [],
+      });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({ off: { enabled: false, useCount: 0 } });
+      vi.mocked(readInstallRecord).mockImplementation((s) =>
+        (s as { baseDir: string }).baseDir === "/stale" ? ({ source: "github:o/r/stale" } as never) : null,
+      );
+      writeManifest({
+        skills: {
+          pdf: "github:o/r/pdf@v1",
+          quiet: { source: "github:o/r/quiet", enabled: false },
+          brand: {},
+          on: { enabled: false },
+          off: {},
+        },
+      });
+
+      const plan = await planSkillSync({ manifestPath, prune: true });
+      expect(plan).toEqual({
+        install: [
+          { name: "brand", source: "github:acme/skills/brand", registry: "official" },
+          { name: "pdf", source: "github:o/r/pdf@v1" },
+          { name: "quiet", source: "github:o/r/quiet" },
+        ],
+        enable: ["off"],
+        disable: ["on", "quiet"],
+        remove: ["stale"],
+        errors: [],
+      });
+      expect(fetchAllRegistries).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not prune unless asked and reports unresolvable entries", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [skill("stale")], warnings: [] });
+      vi.mocked(readInstallRecord).mockReturnValue({ source: "github:o/r/stale" } as never);
+      writeManifest({ skills: { dup: {}, missing: {}, bad: "http://example.com/x.git", only: { source: "dup", registry: "community" } } });
+
+      const plan = await planSkillSync({ manifestPath });
+      expect(plan.remove).toEqual([]);
+      expect(plan.install).toEqual([{ name: "only", source: "github:b/s/dup", registry: "community" }]);
+      expect(plan.errors).toEqual([
+        { name: "bad", error: expect.stringContaining("Only HTTPS and SSH") },
+        { name: "dup", error: 'Skill "dup" is in several registries (official, community); set "registry"' },
+        { name: "missing", error: 'Skill "missing" not found in any registry' },
+      ]);
+    });
+
+    it("plans archive sources and keeps registry checksums", async () => {
+      writeManifest({ skills: { packed: {}, local: "path:dist/local.zip", bad: "path:x.zip#sha256=nope" } });
+
+      const plan = await planSkillSync({ manifestPath });
+      expect(plan.install).toEqual([
+        { name: "local", source: "path:dist/local.zip" },
+        { name: "packed", source: "https://example.com/packed.skill", registry: "official", sha256: "ab".repeat(32) },
+      ]);
+      expect(plan.errors).toEqual([{ name: "bad", error: expect.stringContaining("Invalid archive checksum") }]);
+    });
+
+    it("resolves registry/name@version sources", async () => {
+      writeManifest({ skills: { deck: "official/slides@2.0.0", old: "slides@1.0.0" } });
+
+      const plan = await planSkillSync({ manifestPath });
+      expect(plan.install).toEqual([
+        { name: "deck", source: "github:acme/skills/slides@v2", registry: "official", version: "2.0.0" },
+      ]);
+      expect(plan.errors).toEqual([{ name: "old", error: 'Skill "slides" has no version 1.0.0 (available: 2.0.0)' }]);
+    });
+
+    it("fails without a manifest", async () => {
+      await expect(planSkillSync({ manifestPath })).rejects.toThrow("No .wopr/skills.json found");
+      await expect(planSkillSync({ manifestPath })).rejects.toMatchObject({ code: "not_found" });
+    });
+  });
+
+  describe("entries whose skill has a different frontmatter name", () => {
+    const renamed = { name: "pdf", description: "", path: "/pdf-tools/SKILL.md", baseDir: "/pdf-tools", source: "managed" } as const;
+
+    it("matches installed skills on their directory and toggles them by skill name", async () => {
+      vi.mocked(discoverSkills).mockReturnValue({ skills: [renamed], warnings: [] });
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({ pdf: { enabled: true, useCount: 0 } });
+      vi.mocked(readInstallRecord).mockReturnValue({ source: "github:o/r/pdf-tools" } as never);
+      writeManifest({ skills: { "pdf-tools": { source: "github:o/r/pdf-tools", enabled: false }, pdf: "github:o/r/pdf" } });
+
+      const plan = await planSkillSync({ manifestPath, prune: true });
+      expect(plan).toEqual({
+        install: [{ name: "pdf", source: "github:o/r/pdf" }],
+        enable: [],
+        disable: ["pdf-tools"],
+        remove: [],
+        errors: [],
+      });
+
+      await applySkillSync({ ...plan, install: [] });
+      expect(disableSkillAsync).toHaveBeenCalledWith("pdf");
+    });
+  });
+
+  describe("applySkillSync", () => {
+    it("applies the plan and collects failures", async () => {
+      vi.mocked(installSkillFromSource).mockImplementation(async (source) => {
+        if (source.includes("broken")) throw new Error("clone failed");
+        return skill("x");
+      });
+      const plan = {
+        install: [
+          { name: "pdf", source: "github:o/r/pdf", registry: "official" },
+          { name: "broken", source: "github:o/r/broken" },
+        ],
+        enable: [],
+        disable: ["pdf", "broken"],
+        remove: ["stale"],
+        errors: [],
+      };
+      expect(isEmptySyncPlan(plan)).toBe(false);
+
+      const result = await applySkillSync(plan, { installedBy: "cli" });
+      expect(installSkillFromSource).toHaveBeenCalledWith("github:o/r/pdf", "pdf", {
+        installedBy: "cli",
+        registry: "official",
+      });
+      expect(disableSkillAsync).toHaveBeenCalledWith("pdf");
+      expect(disableSkillAsync).not.toHaveBeenCalledWith("broken");
+      expect(removeSkill).toHaveBeenCalledWith("stale");
+      expect(result).toEqual({
+        applied: [
+          { action: "install", name: "pdf" },
+          { action: "disable", name: "pdf" },
+          { action: "remove", name: "stale" },
+        ],
+        errors: [{ action: "install", name: "broken", error: "clone failed" }],
+      });
+    });
+
+    it("stops before the next action once the signal aborts", async () => {
+      const controller = new AbortController();
+      vi.mocked(installSkillFromSource).mockImplementation(async () => {
+        controller.abort(new Error("Sync timed out after 1s"));
+        throw new Error("clone killed");
+      });
+      const plan = {
+        install: [{ name: "pdf", source: "github:o/r/pdf" }],
+        enable: [],
+        disable: [],
+        remove: ["stale"],
+        errors: [],
+      };
+
+      await expect(applySkillSync(plan, { signal: controller.signal })).rejects.toThrow("Sync timed out after 1s");
+      expect(removeSkill).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { runCommand } from "../src/skill-process.js";
+
+const node = process.execPath;
+
+describe("runCommand", () => {
+  it("resolves with captured output and streams chunks", async () => {
+    const onOutput = vi.fn();
+    const result = await runCommand(node, ["-e", "process.stdout.write('out'); process.stderr.write('err')"], {
+      onOutput,
+    });
+    expect(result).toEqual({ stdout: "out", stderr: "err" });
+    expect(onOutput).toHaveBeenCalledWith("stdout", "out");
+    expect(onOutput).toHaveBeenCalledWith("stderr", "err");
+  });
+
+  it("rejects with the exit code and stderr on failure", async () => {
+    await expect(runCommand(node, ["-e", "console.error('nope'); process.exit(3)"])).rejects.toThrow(
+      /exited with code 3: nope/,
+    );
+  });
+
+  it("rejects when the command cannot be started", async () => {
+    await expect(runCommand("definitely-not-a-real-command-xyz", [])).rejects.toThrow(/ENOENT/);
+  });
+
+  it("kills the process when the signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = runCommand(node, ["-e", "setTimeout(() => {}, 10000)"], { signal: controller.signal });
+    controller.abort(new Error("stop"));
+    await expect(pending).rejects.toThrow("stop");
+  });
+
+  it("settles only after the killed process has exited", async () => {
+    const controller = new AbortController();
+    let abortedAt = 0;
+    const pending = runCommand(
+      node,
+      ["-e", "process.on('SIGTERM', () => setTimeout(() => process.exit(1), 200)); console.log('ready'); setInterval(() => {}, 1000)"],
+      {
+        signal: controller.signal,
+        onOutput: () => {
+          abortedAt = Date.now();
+          controller.abort(new Error("stop"));
+        },
+      },
+    );
+    await expect(pending).rejects.toThrow("stop");
+    expect(Date.now() - abortedAt).toBeGreaterThanOrEqual(150);
+  });
+
+  it("escalates to SIGKILL when the process ignores SIGTERM", async () => {
+    const controller = new AbortController();
+    const pending = runCommand(
+      node,
+      ["-e", "process.on('SIGTERM', () => {}); console.log('ready'); setInterval(() => {}, 1000)"],
+      { signal: controller.signal, killGraceMs: 50, onOutput: () => controller.abort(new Error("stop")) },
+    );
+    await expect(pending).rejects.toThrow("stop");
+  });
+
+  it("does not start when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort("user");
+    await expect(runCommand(node, ["-e", ""], { signal: controller.signal })).rejects.toThrow("Command cancelled");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+const { scoreSkills, selectRelevantSkills, tokenize } = await import("../src/skill-relevance.js");
+
+type Skill = import("../src/skills.js").Skill;
+
+function skill(name: string, description: string, tags?: string[]): Skill {
+  return {
+    name,
+    description,
+    path: `/skills/${name}/SKILL.md`,
+    baseDir: `/skills/${name}`,
+    source: "managed",
+    metadata: tags ? { tags } : undefined,
+  };
+}
+
+const skills = [
+  skill("pdf-tools", "Extract text and tables from PDF documents"),
+  skill("git-helper", "Write commit messages and resolve merge conflicts"),
+  skill("weather", "Look up forecasts", ["climate", "rain"]),
+  skill("notes", "Keep personal notes in markdown"),
+];
+
+describe("skill-relevance", () => {
+  describe("tokenize", () => {
+    it("lowercases, splits on punctuation and drops stopwords", () => {
+      expect(tokenize("How do I merge the Git-branch?")).toEqual(["merge", "git", "branch"]);
+    });
+  });
+
+  describe("scoreSkills", () => {
+    it("ranks skills matching the query first and drops non-matches", () => {
+      const scored = scoreSkills(skills, "extract the tables from this pdf");
+      expect(scored.map((s) => s.skill.name)).toEqual(["pdf-tools"]);
+      expect(scored[0].score).toBeGreaterThan(0);
+    });
+
+    it("matches tags", () => {
+      expect(scoreSkills(skills, "will it rain tomorrow")[0].skill.name).toBe("weather");
+    });
+
+    it("weights name matches above description matches", () => {
+      const scored = scoreSkills(
+        [skill("notes-sync", "Sync files"), skill("sync", "Sync notes between devices")],
+        "notes",
+      );
+      expect(scored[0].skill.name).toBe("notes-sync");
+    });
+
+    it("returns nothing for an empty query", () => {
+      expect(scoreSkills(skills, "  the  ")).toEqual([]);
+    });
+  });
+
+  describe("selectRelevantSkills", () => {
+    it("keeps pinned skills and the top-K matches in discovery order", () => {
+      const selected = selectRelevantSkills(skills, "resolve a git merge conflict in my notes", 1, ["weather"]);
+      expect(selected.map((s) => s.name)).toEqual(["git-helper", "weather"]);
+    });
+
+    it("selects only pinned skills when nothing matches", () => {
+      expect(selectRelevantSkills(skills, "", 5, ["notes"]).map((s) => s.name)).toEqual(["notes"]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const { logger } = await import("../src/logger.js");
+const {
+  listSkillsRenderers,
+  registerSkillsRenderer,
+  renderSkillsPrompt,
+  resetSkillsRenderers,
+  resolvePromptFormat,
+  resolveSkillsRenderer,
+  setSessionPromptFormat,
+} = await import("../src/skill-renderers.js");
+
+type Skill = import("../src/skills.js").Skill;
+
+const skills: Skill[] = [
+  { name: "alpha", description: "First | pipe\nline", path: "/a/SKILL.md", baseDir: "/a", source: "managed" },
+  { name: "beta", description: "Second", path: "/b/SKILL.md", baseDir: "/b", source: "workspace" },
+];
+
+describe("skill-renderers", () => {
+  afterEach(() => {
+    resetSkillsRenderers();
+    vi.clearAllMocks();
+  });
+
+  it("ships xml, markdown and json renderers", () => {
+    expect(listSkillsRenderers()).toEqual(["xml", "markdown", "json"]);
+  });
+
+  it("renders XML by default", () => {
+    expect(renderSkillsPrompt(skills, "xml")).toContain("<available_skills>");
+  });
+
+  it("renders a Markdown table with escaped cells", () => {
+    const out = renderSkillsPrompt(skills, "markdown", { omittedCount: 2 });
+    expect(out).toContain("| alpha | First \\| pipe line | `/a/SKILL.md` |");
+    expect(out).toContain("2 more skills available via skills.list");
+  });
+
+  it("renders compact JSON", () => {
+    const out = renderSkillsPrompt(skills, "json");
+    const json = out.match(/available_skills: (.*)/)?.[1] ?? "";
+    expect(JSON.parse(json)).toEqual([
+      { name: "alpha", description: "First | pipe\nline", location: "/a/SKILL.md" },
+      { name: "beta", description: "Second", location: "/b/SKILL.md" },
+    ]);
+  });
+
+  it("fills the trailer template", () => {
+    const out = renderSkillsPrompt(skills, "markdown", { trailer: "{{skillCount}} shown, {{omittedCount}} hidden." });
+    expect(out).toContain("2 shown, 0 hidden.");
+    expect(out).not.toContain("read its full SKILL.md");
+  });
+
+  it("falls back to XML for unknown formats and failing renderers", () => {
+    expect(renderSkillsPrompt(skills, "yaml")).toContain("<available_skills>");
+    registerSkillsRenderer({
+      name: "broken",
+      render: () => {
+        throw new Error("boom");
+      },
+    });
+    expect(renderSkillsPrompt(skills, "broken")).toContain("<available_skills>");
+  });
+
+  it("warns once per unknown format name", () => {
+    resolveSkillsRenderer("yaml");
+    expect(resolveSkillsRenderer("yaml").render(skills, {})).toContain("<available_skills>");
+    resolveSkillsRenderer("toml");
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("warns once per turn when a renderer throws", () => {
+    const render = vi.fn(() => {
+      throw new Error("boom");
+    });
+    registerSkillsRenderer({ name: "broken", render });
+    const renderer = resolveSkillsRenderer("broken");
+    renderer.render(skills, {});
+    expect(renderer.render(skills, {})).toContain("<available_skills>");
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("registers and unregisters custom renderers", () => {
+    const unregister = registerSkillsRenderer({ name: "plain", render: (list) => list.map((s) => s.name).join(",") });
+    expect(renderSkillsPrompt(skills, "plain")).toBe("alpha,beta");
+    unregister();
+    expect(listSkillsRenderers()).not.toContain("plain");
+  });
+
+  it("restores the built-in renderer when an override is unregistered", () => {
+    const unregister = registerSkillsRenderer({ name: "json", render: () => "custom" });
+    expect(renderSkillsPrompt(skills, "json")).toBe("custom");
+    unregister();
+    expect(renderSkillsPrompt(skills, "json")).toContain("available_skills:");
+  });
+
+  it("resolves the session format before the configured default", () => {
+    const config = { promptFormat: "xml", sessionPromptFormats: { s1: "markdown" } };
+    expect(resolvePromptFormat("s1", config)).toBe("markdown");
+    expect(resolvePromptFormat("s2", config)).toBe("xml");
+    setSessionPromptFormat("s2", "json");
+    expect(resolvePromptFormat("s2", config)).toBe("json");
+    setSessionPromptFormat("s2", null);
+    expect(resolvePromptFormat("s2", config)).toBe("xml");
+  });
+});
@@ -0,0 +1,91 @@
+import { mkdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const { MAX_RESOURCE_BYTES, listSkillResources, readSkillBody, readSkillResource } = await import(
+  "../src/skill-resources.js"
+);
+
+type Skill = import("../src/skills.js").Skill;
+
+const testDir = join(tmpdir(), "wopr-skill-resources-test");
+const baseDir = join(testDir, "pdf");
+
+const skill: Skill = {
+  name: "pdf",
+  description: "PDF tools",
+  path: join(baseDir, "SKILL.md"),
+  baseDir,
+  source: "managed",
+};
+
+describe("skill-resources", () => {
+  beforeEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(join(baseDir, "scripts"), { recursive: true });
+    mkdirSync(join(baseDir, "references"), { recursive: true });
+    writeFileSync(skill.path, "---\nname: pdf\ndescription: PDF tools\n---\n\n# PDF\n\nRun scripts/extract.py\n");
+    writeFileSync(join(baseDir, "scripts", "extract.py"), "print('hi')\n");
+    writeFileSync(join(baseDir, "references", "api.md"), "# API\n");
+    writeFileSync(join(baseDir, ".hidden"), "secret");
+    writeFileSync(join(testDir, "outside.txt"), "outside");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("returns the body without frontmatter", () => {
+    expect(readSkillBody(skill)).toBe("# PDF\n\nRun scripts/extract.py");
+  });
+
+  it("lists bundled files relative to baseDir", () => {
+    const { files, truncated } = listSkillResources(skill);
+    expect(files.map((f) => f.path)).toEqual(["references/api.md", "scripts/extract.py"]);
+    expect(truncated).toBe(false);
+  });
+
+  it("skips symlinks that point outside the skill", () => {
+    symlinkSync(join(testDir, "outside.txt"), join(baseDir, "escape.txt"));
+    expect(listSkillResources(skill).files.map((f) => f.path)).not.toContain("escape.txt");
+  });
+
+  it("reads a bundled file", () => {
+    expect(readSkillResource(skill, "scripts/extract.py")).toEqual({
+      path: "scripts/extract.py",
+      size: 12,
+      encoding: "utf-8",
+      content: "print('hi')\n",
+    });
+  });
+
+  it("returns binary files as base64", () => {
+    writeFileSync(join(baseDir, "asset.bin"), Buffer.from([0, 1, 2]));
+    expect(readSkillResource(skill, "asset.bin")).toMatchObject({ encoding: "base64", content: "AAEC" });
+  });
+
+  it("rejects traversal, absolute paths and symlink escapes", () => {
+    symlinkSync(join(testDir, "outside.txt"), join(baseDir, "escape.txt"));
+    expect(() => readSkillResource(skill, "../outside.txt")).toThrow("Invalid resource path");
+    expect(() => readSkillResource(skill, join(testDir, "outside.txt"))).toThrow("Invalid resource path");
+    expect(() => readSkillResource(skill, "escape.txt")).toThrow("Invalid resource path");
+  });
+
+  it("refuses dot-files and files inside dot-directories", () => {
+    mkdirSync(join(baseDir, ".git"));
+    writeFileSync(join(baseDir, ".git", "config"), "[remote]");
+    symlinkSync(join(baseDir, ".hidden"), join(baseDir, "visible.txt"));
+    expect(() => readSkillResource(skill, ".hidden")).toThrow("Invalid resource path");
+    expect(() => readSkillResource(skill, ".git/config")).toThrow("Invalid resource path");
+    expect(() => readSkillResource(skill, "scripts/../.hidden")).toThrow("Invalid resource path");
+    expect(() => readSkillResource(skill, "visible.txt")).toThrow("Invalid resource path");
+  });
+
+  it("rejects missing files, directories and oversized files", () => {
+    writeFileSync(join(baseDir, "big.txt"), "x".repeat(MAX_RESOURCE_BYTES + 1));
+    expect(() => readSkillResource(skill, "nope.txt")).toThrow("Resource not found");
+    expect(() => readSkillResource(skill, "scripts")).toThrow("Resource not found");
+    expect(() => readSkillResource(skill, "big.txt")).toThrow("Resource too large");
+  });
+});
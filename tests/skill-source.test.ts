@@ -0,0 +1,218 @@
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  configureSkillSources,
+  isArchiveSkillSource,
+  isLocalSkillSource,
+  isRegistrySkillSpec,
+  isSkillCollectionSource,
+  parseArchiveSkillSource,
+  parseLocalSkillSource,
+  parseRegistrySkillSpec,
+  parseSkillSource,
+  skillSourceForPath,
+} from "../src/skill-source.js";
+
+describe("parseSkillSource", () => {
+  afterEach(() => {
+    configureSkillSources({});
+  });
+
+  it("parses github: specs with a path and ref", () => {
+    expect(parseSkillSource("github:owner/repo/skills/pdf@v1.0")).toEqual({
+      source: "github:owner/repo/skills/pdf@v1.0",
+      host: "github.com",
+      url: "https://github.com/owner/repo.git",
+      repo: "repo",
+      subPath: "skills/pdf",
+      ref: "v1.0",
+    });
+  });
+
+  it("parses gitlab: specs without a path as whole-repository installs", () => {
+    expect(parseSkillSource("gitlab:team/pdf-skill")).toEqual({
+      source: "gitlab:team/pdf-skill",
+      host: "gitlab.com",
+      url: "https://gitlab.com/team/pdf-skill.git",
+      repo: "pdf-skill",
+    });
+  });
+
+  it("parses gitea: specs with a host and port", () => {
+    expect(parseSkillSource("gitea:git.example.com:3000/team/skills/pdf")).toMatchObject({
+      host: "git.example.com",
+      url: "https://git.example.com:3000/team/skills.git",
+      subPath: "pdf",
+    });
+    expect(() => parseSkillSource("gitea:team")).toThrow("Invalid Gitea host");
+  });
+
+  it("parses git+ssh URLs with nested groups, a sub-path and a ref", () => {
+    expect(parseSkillSource("git+ssh://git@git.example.com:2222/org/team/skills.git//tools/pdf@main")).toEqual({
+      source: "git+ssh://git@git.example.com:2222/org/team/skills.git//tools/pdf@main",
+      host: "git.example.com",
+      url: "ssh://git@git.example.com:2222/org/team/skills.git",
+      repo: "skills",
+      subPath: "tools/pdf",
+      ref: "main",
+    });
+  });
+
+  it("parses git+https and plain HTTPS URLs", () => {
+    expect(parseSkillSource("git+https://example.com/org/skills.git//pdf")).toMatchObject({
+      url: "https://example.com/org/skills.git",
+      subPath: "pdf",
+    });
+    expect(parseSkillSource("https://example.com/org/pdf.git")).toEqual({
+      source: "https://example.com/org/pdf.git",
+      host: "example.com",
+      url: "https://example.com/org/pdf.git",
+      repo: "pdf",
+    });
+  });
+
+  it("keeps owner, repo and path segment validation", () => {
+    expect(() => parseSkillSource("github:own er/repo/pdf")).toThrow("Invalid owner or repo name");
+    expect(() => parseSkillSource("github:owner")).toThrow("Invalid owner or repo name");
+    expect(() => parseSkillSource("github:owner/repo/../etc")).toThrow("Invalid skill path");
+    expect(() => parseSkillSource("git+https://example.com/org/skills.git//a/../b")).toThrow("Invalid skill path");
+    expect(() => parseSkillSource("https://example.com/")).toThrow("Invalid skill source URL");
+  });
+
+  it("rejects unsupported schemes", () => {
+    expect(() => parseSkillSource("http://example.com/pdf.git")).toThrow("Only HTTPS and SSH git sources");
+    expect(() => parseSkillSource("file:///tmp/pdf")).toThrow("Only HTTPS and SSH git sources");
+    expect(() => parseSkillSource("pdf")).toThrow("Invalid skill source URL");
+  });
+
+  it("enforces the host allowlist", () => {
+    configureSkillSources({ allowedHosts: ["Git.Example.com"] });
+    expect(parseSkillSource("gitea:git.example.com/team/pdf").host).toBe("git.example.com");
+    expect(() => parseSkillSource("github:owner/repo/pdf")).toThrow(
+      'Host "github.com" is not in the allowed skill source hosts',
+    );
+  });
+});
+
+describe("skill collections", () => {
+  it("parses a trailing * as every skill under the path", () => {
+    expect(isSkillCollectionSource("github:owner/repo/skills/*@v1")).toBe(true);
+    expect(isSkillCollectionSource("https://example.com/org/skills.git//*")).toBe(true);
+    expect(isSkillCollectionSource("github:owner/repo/skills/pdf")).toBe(false);
+
+    expect(parseSkillSource("github:owner/repo/skills/*@v1")).toEqual({
+      source: "github:owner/repo/skills/*@v1",
+      host: "github.com",
+      url: "https://github.com/owner/repo.git",
+      repo: "repo",
+      subPath: "skills",
+      ref: "v1",
+      collection: true,
+    });
+    expect(parseSkillSource("https://example.com/org/skills.git//*")).toMatchObject({ collection: true });
+    expect(parseSkillSource("https://example.com/org/skills.git//*").subPath).toBeUndefined();
+    expect(() => parseSkillSource("github:owner/repo/sk*lls/pdf")).toThrow("Invalid skill path");
+  });
+
+  it("builds the source spec of one skill in the collection", () => {
+    expect(skillSourceForPath(parseSkillSource("github:owner/repo/skills/*@v1"), "skills/pdf")).toBe(
+      "github:owner/repo/skills/pdf@v1",
+    );
+    expect(skillSourceForPath(parseSkillSource("gitea:git.example.com:3000/team/skills/*"), "pdf")).toBe(
+      "gitea:git.example.com:3000/team/skills/pdf",
+    );
+    expect(skillSourceForPath(parseSkillSource("git+ssh://git@example.com/org/skills.git//*@main"), "tools/pdf")).toBe(
+      "ssh://git@example.com/org/skills.git//tools/pdf@main",
+    );
+  });
+});
+
+describe("parseLocalSkillSource", () => {
+  it("recognizes path: and file:// sources", () => {
+    expect(isLocalSkillSource("path:./skills/pdf")).toBe(true);
+    expect(isLocalSkillSource("FILE:///tmp/pdf")).toBe(true);
+    expect(isLocalSkillSource("github:o/r/pdf")).toBe(false);
+  });
+
+  it("resolves paths to absolute directories", () => {
+    expect(parseLocalSkillSource("path:./skills/pdf")).toEqual({
+      source: "path:./skills/pdf",
+      path: resolve("skills/pdf"),
+    });
+    expect(parseLocalSkillSource("path:~/skills/pdf").path).toBe(join(homedir(), "skills", "pdf"));
+    expect(parseLocalSkillSource("file:///tmp/my%20skill").path).toBe("/tmp/my skill");
+  });
+
+  it("rejects empty and malformed paths", () => {
+    expect(() => parseLocalSkillSource("path:")).toThrow("Invalid local skill path");
+    expect(() => parseLocalSkillSource("file://host/tmp/pdf")).toThrow("Invalid file:// skill source");
+  });
+});
+
+describe("parseArchiveSkillSource", () => {
+  const sha = "AB".repeat(32);
+
+  afterEach(() => {
+    configureSkillSources({ allowedHosts: [] });
+  });
+
+  it("recognizes local and HTTPS archives", () => {
+    expect(isArchiveSkillSource("path:./dist/pdf.tar.gz")).toBe(true);
+    expect(isArchiveSkillSource("file:///tmp/pdf.skill#sha256=abc")).toBe(true);
+    expect(isArchiveSkillSource("https://example.com/pdf.zip?token=x")).toBe(true);
+    expect(isArchiveSkillSource("https://example.com/pdf.git")).toBe(false);
+    expect(isArchiveSkillSource("path:./skills/pdf")).toBe(false);
+    expect(isArchiveSkillSource("github:o/r/pdf.zip")).toBe(false);
+  });
+
+  it("parses the location, name and checksum", () => {
+    expect(parseArchiveSkillSource(`path:./dist/pdf-1.2.0.tgz#sha256=${sha}`)).toEqual({
+      source: `path:./dist/pdf-1.2.0.tgz#sha256=${sha}`,
+      path: resolve("dist/pdf-1.2.0.tgz"),
+      name: "pdf-1.2.0",
+      sha256: sha.toLowerCase(),
+    });
+    expect(parseArchiveSkillSource("https://Example.com/skills/pdf.skill")).toEqual({
+      source: "https://Example.com/skills/pdf.skill",
+      url: "https://example.com/skills/pdf.skill",
+      host: "example.com",
+      name: "pdf",
+    });
+  });
+
+  it("rejects bad checksums, plain HTTP and hosts outside the allowlist", () => {
+    expect(() => parseArchiveSkillSource("path:pdf.zip#md5=abc")).toThrow("Invalid archive checksum");
+    expect(() => parseArchiveSkillSource("http://example.com/pdf.zip")).toThrow("Only HTTPS archive sources");
+    configureSkillSources({ allowedHosts: ["github.com"] });
+    expect(() => parseArchiveSkillSource("https://example.com/pdf.zip")).toThrow(
+      'Host "example.com" is not in the allowed skill source hosts',
+    );
+    expect(parseArchiveSkillSource("path:pdf.zip").name).toBe("pdf");
+  });
+});
+
+describe("parseRegistrySkillSpec", () => {
+  it("recognizes names, registry/name and versions", () => {
+    expect(isRegistrySkillSpec("pdf")).toBe(true);
+    expect(isRegistrySkillSpec("official/pdf@1.2.0")).toBe(true);
+    expect(isRegistrySkillSpec("github:o/r/pdf")).toBe(false);
+    expect(isRegistrySkillSpec("o/r/pdf")).toBe(false);
+    expect(isRegistrySkillSpec("path:pdf")).toBe(false);
+  });
+
+  it("splits the registry, name and version", () => {
+    expect(parseRegistrySkillSpec(" pdf ")).toEqual({ source: "pdf", name: "pdf" });
+    expect(parseRegistrySkillSpec("official/pdf@1.2.0")).toEqual({
+      source: "official/pdf@1.2.0",
+      name: "pdf",
+      registry: "official",
+      version: "1.2.0",
+    });
+  });
+
+  it("rejects malformed names", () => {
+    expect(() => parseRegistrySkillSpec("official/..")).toThrow("Invalid registry skill name: official/..");
+    expect(() => parseRegistrySkillSpec("pdf@")).toThrow("Invalid registry skill name");
+  });
+});
@@ -0,0 +1,109 @@
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/paths.js", () => ({
+  SKILLS_DIR: join(tmpdir(), "wopr-skill-staging-test", "skills"),
+}));
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  clearSkillStaging,
+  configureSkillTrash,
+  createStagingDir,
+  findTrashedSkill,
+  listTrashedSkills,
+  moveToTrash,
+  purgeSkillTrash,
+  restoreFromTrash,
+} from "../src/skill-staging.js";
+
+describe("skill-staging", () => {
+  const skillsDir = join(tmpdir(), "wopr-skill-staging-test", "skills");
+  const trashDir = join(skillsDir, ".trash");
+
+  const installSkill = (name: string, body = "v1\n") => {
+    mkdirSync(join(skillsDir, name), { recursive: true });
+    writeFileSync(join(skillsDir, name, "SKILL.md"), body);
+  };
+
+  beforeEach(() => {
+    rmSync(skillsDir, { recursive: true, force: true });
+    mkdirSync(skillsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    configureSkillTrash({});
+  });
+
+  afterAll(() => {
+    rmSync(join(tmpdir(), "wopr-skill-staging-test"), { recursive: true, force: true });
+  });
+
+  it("hands out fresh staging paths and clears leftovers", () => {
+    const first = createStagingDir();
+    const second = createStagingDir();
+    expect(first).not.toBe(second);
+    expect(first.startsWith(join(skillsDir, ".staging"))).toBe(true);
+    expect(existsSync(first)).toBe(false);
+
+    mkdirSync(first);
+    mkdirSync(join(skillsDir, ".tmp-123"));
+    mkdirSync(join(skillsDir, ".old-pdf-123"));
+    installSkill("pdf");
+    clearSkillStaging();
+    expect(readdirSync(skillsDir)).toEqual(["pdf"]);
+  });
+
+  it("moves skills to the trash with their state and restores the newest copy", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    installSkill("pdf", "v1\n");
+    vi.setSystemTime(new Date("2026-07-01T00:00:00.000Z"));
+    moveToTrash("pdf");
+    installSkill("pdf", "v2\n");
+    vi.setSystemTime(new Date("2026-07-02T00:00:00.000Z"));
+    moveToTrash("pdf", { id: "pdf", enabled: false, installed: true, useCount: 3 });
+
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+    expect(listTrashedSkills().map((e) => e.removedAt)).toEqual([
+      "2026-07-02T00:00:00.000Z",
+      "2026-07-01T00:00:00.000Z",
+    ]);
+    const newest = findTrashedSkill("pdf");
+    expect(newest?.state).toEqual({ id: "pdf", enabled: false, installed: true, useCount: 3 });
+
+    installSkill("pdf");
+    expect(() => restoreFromTrash(newest!)).toThrow('Skill "pdf" already exists');
+    expect(() => restoreFromTrash(newest!)).toThrow(expect.objectContaining({ code: "conflict" }));
+    rmSync(join(skillsDir, "pdf"), { recursive: true });
+
+    restoreFromTrash(newest!);
+    expect(existsSync(join(skillsDir, "pdf", "SKILL.md"))).toBe(true);
+    expect(listTrashedSkills()).toHaveLength(1);
+    expect(findTrashedSkill("docx")).toBeNull();
+  });
+
+  it("refuses to trash a skill that does not exist and leaves no entry", () => {
+    expect(() => moveToTrash("missing")).toThrow();
+    expect(readdirSync(trashDir)).toEqual([]);
+  });
+
+  it("purges entries older than the retention period and broken entries", () => {
+    configureSkillTrash({ retentionDays: 2 });
+    installSkill("old");
+    installSkill("recent");
+    const old = moveToTrash("old");
+    const recent = moveToTrash("recent");
+    mkdirSync(join(trashDir, "half-moved"));
+    const removedAt = Date.parse(old.removedAt);
+
+    expect(purgeSkillTrash(removedAt + 24 * 60 * 60 * 1000).sort()).toEqual(["half-moved"]);
+    expect(purgeSkillTrash(removedAt + 3 * 24 * 60 * 60 * 1000).sort()).toEqual([old.id, recent.id].sort());
+    expect(readdirSync(trashDir)).toEqual([]);
+  });
+});
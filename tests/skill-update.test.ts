@@ -0,0 +1,296 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const root = join(tmpdir(), "wopr-skill-update-test");
+
+vi.mock("../src/paths.js", () => ({
+  SKILLS_DIR: join(tmpdir(), "wopr-skill-update-test", "skills"),
+  INSTALL_RECORD_FILE: ".wopr-source.json",
+}));
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../src/skills.js", async () => {
+  const { writeFileSync } = await import("node:fs");
+  const { join } = await import("node:path");
+  return {
+    invalidateSkillIndex: vi.fn(),
+    writeInstallRecord: vi.fn((dir: string, record: object) => {
+      const full = { ...record, installedAt: "2026-07-01T00:00:00.000Z" };
+      writeFileSync(join(dir, ".wopr-source.json"), JSON.stringify(full));
+      return full;
+    }),
+  };
+});
+
+vi.mock("../src/skills-repository.js", () => ({
+  getSkillState: vi.fn(),
+  getAllSkillStates: vi.fn(async () => ({})),
+  recordSkillProvenance: vi.fn(),
+}));
+
+vi.mock("../src/registry-fetcher.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/registry-fetcher.js")>("../src/registry-fetcher.js");
+  return { compareVersions: actual.compareVersions, resolveRegistrySkill: vi.fn() };
+});
+
+vi.mock("../src/skill-source.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skill-source.js")>("../src/skill-source.js");
+  return { ...actual, parseSkillSource: vi.fn() };
+});
+
+import { resolveRegistrySkill } from "../src/registry-fetcher.js";
+import { packSkillArchive } from "../src/skill-archive.js";
+import { hashSkillDirectory } from "../src/skill-hash.js";
+import { parseSkillSource } from "../src/skill-source.js";
+import { assertSkillUpdatable, checkSkillUpdate, listUpdatableSkills, updateSkill } from "../src/skill-update.js";
+import { invalidateSkillIndex } from "../src/skills.js";
+import { getAllSkillStates, getSkillState, recordSkillProvenance } from "../src/skills-repository.js";
+
+describe("skill-update", () => {
+  const skillsDir = join(root, "skills");
+  const installed = join(skillsDir, "pdf");
+  let url: string;
+  let firstCommit: string;
+  let headCommit: string;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", ["-c", "user.email=t@example.com", "-c", "user.name=t", ...args], {
+      cwd,
+      encoding: "utf-8",
+    }).trim();
+
+  beforeAll(() => {
+    rmSync(root, { recursive: true, force: true });
+    const repo = join(root, "repo");
+    mkdirSync(join(repo, "skills", "pdf"), { recursive: true });
+    git(root, "init", "-q", "-b", "main", repo);
+    writeFileSync(join(repo, "skills", "pdf", "SKILL.md"), "v1\n");
+    writeFileSync(join(repo, "skills", "pdf", "old.txt"), "old\n");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "one");
+    firstCommit = git(repo, "rev-parse", "HEAD");
+    writeFileSync(join(repo, "skills", "pdf", "SKILL.md"), "v2\n");
+    writeFileSync(join(repo, "skills", "pdf", "new.txt"), "new\n");
+    git(repo, "rm", "-q", "skills/pdf/old.txt");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "two");
+    headCommit = git(repo, "rev-parse", "HEAD");
+    url = `file://${repo}`;
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rmSync(skillsDir, { recursive: true, force: true });
+    mkdirSync(installed, { recursive: true });
+    writeFileSync(join(installed, "SKILL.md"), "v1\n");
+    writeFileSync(join(installed, "old.txt"), "old\n");
+    vi.mocked(parseSkillSource).mockReturnValue({
+      source: "github:o/r/skills/pdf",
+      host: "github.com",
+      url,
+      repo: "r",
+      subPath: "skills/pdf",
+    });
+    vi.mocked(getSkillState).mockResolvedValue({
+      id: "pdf",
+      enabled: false,
+      installed: true,
+      useCount: 4,
+      installSource: "github:o/r/skills/pdf",
+      installCommit: firstCommit,
+      contentHash: hashSkillDirectory(installed),
+      installedBy: "cli",
+    });
+  });
+
+  it("reports a newer upstream commit", async () => {
+    expect(await checkSkillUpdate("pdf")).toEqual({
+      name: "pdf",
+      source: "github:o/r/skills/pdf",
+      currentCommit: firstCommit,
+      latestCommit: headCommit,
+      updateAvailable: true,
+      modified: false,
+    });
+  });
+
+  it("swaps in the new version and reports changed files", async () => {
+    const result = await updateSkill("pdf", { installedBy: "api" });
+
+    expect(result).toEqual({
+      name: "pdf",
+      updated: true,
+      fromCommit: firstCommit,
+      toCommit: headCommit,
+      changes: { added: ["new.txt"], removed: ["old.txt"], modified: ["SKILL.md"] },
+    });
+    expect(readFileSync(join(installed, "SKILL.md"), "utf-8")).toBe("v2\n");
+    expect(readdirSync(skillsDir)).toEqual([".staging", "pdf"]);
+    expect(readdirSync(join(skillsDir, ".staging"))).toEqual([]);
+    expect(invalidateSkillIndex).toHaveBeenCalledWith("pdf");
+    expect(recordSkillProvenance).toHaveBeenCalledWith("pdf", {
+      installSource: "github:o/r/skills/pdf",
+      installUrl: url,
+      installCommit: headCommit,
+      installRegistry: undefined,
+      contentHash: hashSkillDirectory(installed),
+      installedAt: "2026-07-01T00:00:00.000Z",
+      installedBy: "api",
+    });
+  });
+
+  it("does nothing when already at the upstream commit", async () => {
+    const state = await getSkillState("pdf");
+    vi.mocked(getSkillState).mockResolvedValue({ ...state!, installCommit: headCommit });
+
+    const result = await updateSkill("pdf");
+    expect(result).toMatchObject({ updated: false, toCommit: headCommit });
+    expect(readFileSync(join(installed, "SKILL.md"), "utf-8")).toBe("v1\n");
+    expect(recordSkillProvenance).not.toHaveBeenCalled();
+  });
+
+  it("refuses to overwrite local modifications unless forced", async () => {
+    writeFileSync(join(installed, "SKILL.md"), "edited\n");
+
+    await expect(updateSkill("pdf")).rejects.toThrow("has local modifications");
+    await expect(assertSkillUpdatable("pdf")).rejects.toMatchObject({ code: "conflict" });
+    await expect(assertSkillUpdatable("pdf", { force: true })).resolves.toBeUndefined();
+    expect(readFileSync(join(installed, "SKILL.md"), "utf-8")).toBe("edited\n");
+    expect((await checkSkillUpdate("pdf")).modified).toBe(true);
+
+    const result = await updateSkill("pdf", { force: true });
+    expect(result.updated).toBe(true);
+    expect(readFileSync(join(installed, "SKILL.md"), "utf-8")).toBe("v2\n");
+  });
+
+  it("leaves the installed copy untouched when the fetch fails", async () => {
+    vi.mocked(parseSkillSource).mockReturnValue({
+      source: "github:o/r/skills/pdf@nope",
+      host: "github.com",
+      url,
+      repo: "r",
+      subPath: "skills/pdf",
+      ref: "nope",
+    });
+
+    await expect(updateSkill("pdf", { force: true })).rejects.toThrow('Failed to update skill "pdf": Ref "nope"');
+    expect(readFileSync(join(installed, "SKILL.md"), "utf-8")).toBe("v1\n");
+    expect(readdirSync(skillsDir)).toEqual([".staging", "pdf"]);
+    expect(readdirSync(join(skillsDir, ".staging"))).toEqual([]);
+  });
+
+  it("rejects skills without a recorded source", async () => {
+    vi.mocked(getSkillState).mockResolvedValue({ id: "pdf", enabled: true, installed: true, useCount: 0 });
+    await expect(updateSkill("pdf")).rejects.toThrow('Skill "pdf" has no recorded install source');
+    await expect(updateSkill("missing")).rejects.toThrow('Skill "missing" not found');
+    await expect(updateSkill("missing")).rejects.toMatchObject({ code: "not_found" });
+
+    vi.mocked(getSkillState).mockResolvedValue({
+      id: "pdf",
+      enabled: true,
+      installed: true,
+      useCount: 0,
+      installSource: "path:/src/pdf",
+    });
+    await expect(updateSkill("pdf")).rejects.toThrow("installed from a local directory");
+
+    vi.mocked(getSkillState).mockResolvedValue({
+      id: "pdf",
+      enabled: true,
+      installed: true,
+      useCount: 0,
+      installSource: "https://example.com/pdf.tar.gz",
+    });
+    await expect(updateSkill("pdf")).rejects.toThrow("installed from an archive");
+  });
+
+  describe("registry installs", () => {
+    const entry = (version: string, source: string) => ({
+      name: "pdf",
+      description: "PDF",
+      source,
+      version,
+      registry: "main",
+    });
+
+    beforeEach(async () => {
+      const state = await getSkillState("pdf");
+      vi.mocked(getSkillState).mockResolvedValue({
+        ...state!,
+        installCommit: headCommit,
+        installRegistry: "main",
+        installVersion: "1.0.0",
+      });
+    });
+
+    it("reports the registry's newer version alongside the commit", async () => {
+      vi.mocked(resolveRegistrySkill).mockResolvedValue(entry("1.1.0", "github:o/r/skills/pdf@v1.1.0"));
+      expect(await checkSkillUpdate("pdf")).toEqual({
+        name: "pdf",
+        source: "github:o/r/skills/pdf",
+        currentCommit: headCommit,
+        latestCommit: headCommit,
+        registry: "main",
+        currentVersion: "1.0.0",
+        latestVersion: "1.1.0",
+        updateAvailable: true,
+        modified: false,
+      });
+      expect(resolveRegistrySkill).toHaveBeenCalledWith({ source: "pdf", name: "pdf", registry: "main" });
+
+      vi.mocked(resolveRegistrySkill).mockResolvedValue(entry("1.0.0", "github:o/r/skills/pdf"));
+      expect(await checkSkillUpdate("pdf")).toMatchObject({ latestVersion: "1.0.0", updateAvailable: false });
+    });
+
+    it("reinstalls from the newer registry entry", async () => {
+      const packed = join(root, "packed", "pdf");
+      mkdirSync(packed, { recursive: true });
+      writeFileSync(join(packed, "SKILL.md"), "v3\n");
+      const archive = join(root, "pdf-2.0.0.tar.gz");
+      writeFileSync(archive, packSkillArchive(packed, "pdf"));
+      vi.mocked(resolveRegistrySkill).mockResolvedValue(entry("2.0.0", `path:${archive}`));
+
+      const result = await updateSkill("pdf");
+      expect(result).toMatchObject({ updated: true, fromVersion: "1.0.0", toVersion: "2.0.0", toCommit: undefined });
+      expect(readFileSync(join(installed, "SKILL.md"), "utf-8")).toBe("v3\n");
+      expect(recordSkillProvenance).toHaveBeenCalledWith(
+        "pdf",
+        expect.objectContaining({
+          installSource: `path:${archive}`,
+          installRegistry: "main",
+          installVersion: "2.0.0",
+          installCommit: undefined,
+        }),
+      );
+    });
+  });
+
+  it("lists installed skills that have a recorded source", async () => {
+    vi.mocked(getAllSkillStates).mockResolvedValue({
+      pdf: { enabled: true, useCount: 0, provenance: { installSource: "github:o/r/skills/pdf" } },
+      gone: { enabled: true, useCount: 0, provenance: { installSource: "github:o/r/skills/gone" } },
+      local: { enabled: true, useCount: 0 },
+      linked: { enabled: true, useCount: 0, provenance: { installSource: "path:/src/pdf" } },
+      packed: { enabled: true, useCount: 0, provenance: { installSource: "https://example.com/packed.zip" } },
+      listed: {
+        enabled: true,
+        useCount: 0,
+        provenance: { installSource: "https://example.com/listed.zip", installRegistry: "main" },
+      },
+    });
+    mkdirSync(join(skillsDir, "linked"));
+    mkdirSync(join(skillsDir, "packed"));
+    mkdirSync(join(skillsDir, "listed"));
+    expect(await listUpdatableSkills()).toEqual(["listed", "pdf"]);
+  });
+});
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const { setPluginContext, resetSkillsStorageInit } = await import("../src/skills-repository.js");
+const { compactSkillUsageEvents, getDailySkillUsage, listSkillUsageEvents, recordSkillUsageEvent } = await import(
+  "../src/skill-usage-repository.js"
+);
+
+type Row = Record<string, any>;
+
+function matches(row: Row, filter: Row = {}): boolean {
+  return Object.entries(filter).every(([key, cond]) => {
+    if (cond && typeof cond === "object") {
+      return (
+        (cond.$gte === undefined || row[key] >= cond.$gte) &&
+        (cond.$lt === undefined || row[key] < cond.$lt)
+      );
+    }
+    return row[key] === cond;
+  });
+}
+
+/** Minimal in-memory Repository supporting equality, $gte and $lt filters */
+function memoryRepo() {
+  const rows = new Map<string, Row>();
+  return {
+    rows,
+    insert: vi.fn(async (row: Row) => {
+      rows.set(row.id, { ...row });
+      return row;
+    }),
+    findFirst: vi.fn(async (filter: Row) => [...rows.values()].find((r) => matches(r, filter)) ?? null),
+    findMany: vi.fn(async (filter?: Row) => [...rows.values()].filter((r) => matches(r, filter))),
+    update: vi.fn(async (id: string, data: Row) => {
+      const row = { ...rows.get(id), ...data };
+      rows.set(id, row);
+      return row;
+    }),
+    deleteMany: vi.fn(async (filter: Row) => {
+      let count = 0;
+      for (const [id, row] of rows) {
+        if (matches(row, filter)) {
+          rows.delete(id);
+          count++;
+        }
+      }
+      return count;
+    }),
+  };
+}
+
+const NOW = Date.parse("2026-06-01T12:00:00Z");
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe("skill-usage-repository", () => {
+  let events: ReturnType<typeof memoryRepo>;
+  let daily: ReturnType<typeof memoryRepo>;
+
+  beforeEach(() => {
+    resetSkillsStorageInit();
+    events = memoryRepo();
+    daily = memoryRepo();
+    setPluginContext({
+      storage: {
+        register: vi.fn(),
+        getRepository: vi.fn((_ns: string, table: string) => (table === "skill_usage_daily" ? daily : events)),
+      },
+    } as any);
+  });
+
+  it("records events with an id and timestamp", async () => {
+    const event = await recordSkillUsageEvent({ skill: "pdf", kind: "model_read", outcome: "success", session: "s1" });
+    expect(event.id).toBeTruthy();
+    expect(event.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(events.rows.size).toBe(1);
+  });
+
+  it("lists events newest first with filters", async () => {
+    await recordSkillUsageEvent({ skill: "pdf", kind: "model_read", outcome: "success", session: "s1", timestamp: daysAgo(3) });
+    await recordSkillUsageEvent({ skill: "pdf", kind: "slash_command", outcome: "success", session: "s2", timestamp: daysAgo(1) });
+    await recordSkillUsageEvent({ skill: "git", kind: "model_read", outcome: "success", session: "s1", timestamp: daysAgo(2) });
+
+    const pdf = await listSkillUsageEvents({ skill: "pdf" });
+    expect(pdf.map((e) => e.session)).toEqual(["s2", "s1"]);
+
+    const lastTwoDays = await listSkillUsageEvents({ from: daysAgo(2.5) });
+    expect(lastTwoDays.map((e) => e.skill)).toEqual(["pdf", "git"]);
+    expect(await listSkillUsageEvents({ session: "s1", limit: 1 })).toHaveLength(1);
+  });
+
+  it("compacts old events into daily buckets and keeps totals intact", async () => {
+    await recordSkillUsageEvent({ skill: "pdf", kind: "model_read", outcome: "success", timestamp: daysAgo(40) });
+    await recordSkillUsageEvent({ skill: "pdf", kind: "model_read", outcome: "error", timestamp: daysAgo(40) });
+    await recordSkillUsageEvent({ skill: "pdf", kind: "model_read", outcome: "success", timestamp: daysAgo(1) });
+
+    const before = await getDailySkillUsage({ skill: "pdf" });
+    const result = await compactSkillUsageEvents({ eventRetentionDays: 30, now: NOW });
+    const after = await getDailySkillUsage({ skill: "pdf" });
+
+    expect(result).toEqual({ compacted: 2, purgedBuckets: 0 });
+    expect(events.rows.size).toBe(1);
+    expect(after).toEqual(before);
+    expect(after).toEqual([
+      { day: daysAgo(40).slice(0, 10), skill: "pdf", count: 2, errors: 1 },
+      { day: daysAgo(1).slice(0, 10), skill: "pdf", count: 1, errors: 0 },
+    ]);
+  });
+
+  it("adds to existing buckets and purges expired ones", async () => {
+    const day = daysAgo(40).slice(0, 10);
+    daily.rows.set(`${day}:pdf`, { id: `${day}:pdf`, day, skill: "pdf", count: 5, errors: 0 });
+    daily.rows.set("2020-01-01:old", { id: "2020-01-01:old", day: "2020-01-01", skill: "old", count: 1, errors: 0 });
+    await recordSkillUsageEvent({ skill: "pdf", kind: "model_read", outcome: "success", timestamp: daysAgo(40) });
+
+    const result = await compactSkillUsageEvents({ now: NOW });
+
+    expect(result).toEqual({ compacted: 1, purgedBuckets: 1 });
+    expect(daily.rows.get(`${day}:pdf`)?.count).toBe(6);
+  });
+});
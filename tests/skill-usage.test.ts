@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../src/skills.js", () => ({
+  discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
+  readAllSkillStatesAsync: vi.fn(async () => ({})),
+  recordSkillUsage: vi.fn(async () => {}),
+}));
+
+vi.mock("../src/skill-usage-repository.js", () => ({
+  recordSkillUsageEvent: vi.fn(async () => ({})),
+}));
+
+const { findSkillByFilePath, getSkillUsageStats, trackSkillUsage, watchSkillFileReads } = await import(
+  "../src/skill-usage.js"
+);
+const { recordSkillUsageEvent } = await import("../src/skill-usage-repository.js");
+const { discoverSkills, readAllSkillStatesAsync, recordSkillUsage } = await import("../src/skills.js");
+
+function skill(name: string, source = "managed") {
+  return { name, description: name, path: `/skills/${name}/SKILL.md`, baseDir: `/skills/${name}`, source };
+}
+
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe("skill-usage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(discoverSkills).mockReturnValue({
+      skills: [skill("busy"), skill("quiet"), skill("old"), skill("unused", "workspace")],
+      warnings: [],
+    });
+  });
+
+  describe("getSkillUsageStats", () => {
+    it("splits skills into most-used, stale and never-used", async () => {
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({
+        busy: { enabled: true, useCount: 9, lastUsedAt: daysAgo(1) },
+        quiet: { enabled: true, useCount: 2, lastUsedAt: daysAgo(3) },
+        old: { enabled: true, useCount: 40, lastUsedAt: daysAgo(90) },
+      });
+
+      const stats = await getSkillUsageStats({ days: 30, now: NOW });
+
+      expect(stats.windowDays).toBe(30);
+      expect(stats.since).toBe(daysAgo(30));
+      expect(stats.mostUsed.map((s) => s.name)).toEqual(["busy", "quiet"]);
+      expect(stats.stale.map((s) => s.name)).toEqual(["old"]);
+      expect(stats.neverUsed).toEqual([{ name: "unused", source: "workspace", useCount: 0, lastUsedAt: undefined }]);
+    });
+
+    it("limits the most-used list", async () => {
+      vi.mocked(readAllSkillStatesAsync).mockResolvedValue({
+        busy: { enabled: true, useCount: 9, lastUsedAt: daysAgo(1) },
+        quiet: { enabled: true, useCount: 2, lastUsedAt: daysAgo(3) },
+      });
+      const stats = await getSkillUsageStats({ limit: 1, now: NOW });
+      expect(stats.mostUsed.map((s) => s.name)).toEqual(["busy"]);
+    });
+  });
+
+  describe("trackSkillUsage", () => {
+    it("bumps the use count and appends a success event", async () => {
+      await trackSkillUsage("busy", { kind: "slash_command", session: "s1" });
+      expect(recordSkillUsage).toHaveBeenCalledWith("busy");
+      expect(recordSkillUsageEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ skill: "busy", kind: "slash_command", session: "s1", outcome: "success" }),
+      );
+    });
+
+    it("records failures as error events without bumping the use count", async () => {
+      await trackSkillUsage("busy", { kind: "model_read", error: "boom" });
+      expect(recordSkillUsage).not.toHaveBeenCalled();
+      expect(recordSkillUsageEvent).toHaveBeenCalledWith(expect.objectContaining({ outcome: "error", error: "boom" }));
+    });
+
+    it("never throws", async () => {
+      vi.mocked(recordSkillUsageEvent).mockRejectedValueOnce(new Error("db down"));
+      await expect(trackSkillUsage("busy", { kind: "model_read" })).resolves.toBeUndefined();
+    });
+  });
+
+  describe("findSkillByFilePath", () => {
+    it("matches a discovered SKILL.md path", () => {
+      expect(findSkillByFilePath("/skills/quiet/SKILL.md")).toBe("quiet");
+      expect(findSkillByFilePath("/skills/quiet/README.md")).toBeUndefined();
+      expect(findSkillByFilePath("/elsewhere/SKILL.md")).toBeUndefined();
+    });
+  });
+
+  describe("watchSkillFileReads", () => {
+    function setup() {
+      let handler: (payload: unknown, event: unknown) => Promise<void> = async () => {};
+      const unsubscribe = vi.fn();
+      const ctx = {
+        events: {
+          on: vi.fn((_event: string, fn: typeof handler) => {
+            handler = fn;
+            return unsubscribe;
+          }),
+        },
+      } as any;
+      const stop = watchSkillFileReads(ctx);
+      return { ctx, stop, unsubscribe, emit: (type: string, payload: unknown) => handler(payload, { type, payload }) };
+    }
+
+    it("records usage for file:read events on a SKILL.md", async () => {
+      const { ctx, emit } = setup();
+      await emit("file:read", { path: "/skills/busy/SKILL.md", session: "main" });
+      expect(ctx.events.on).toHaveBeenCalledWith("*", expect.any(Function));
+      expect(recordSkillUsage).toHaveBeenCalledWith("busy");
+      expect(recordSkillUsageEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ skill: "busy", kind: "model_read", session: "main" }),
+      );
+    });
+
+    it("records usage for read-like tool calls", async () => {
+      const { emit } = setup();
+      await emit("tool:afterCall", { tool: "Read", args: { file_path: "/skills/old/SKILL.md" } });
+      await emit("tool:afterCall", { tool: "Write", args: { file_path: "/skills/quiet/SKILL.md" } });
+      expect(recordSkillUsage).toHaveBeenCalledTimes(1);
+      expect(recordSkillUsage).toHaveBeenCalledWith("old");
+    });
+
+    it("ignores unrelated events and files", async () => {
+      const { emit } = setup();
+      await emit("session:create", { path: "/skills/busy/SKILL.md" });
+      await emit("file:read", { path: "/tmp/notes.md" });
+      expect(recordSkillUsage).not.toHaveBeenCalled();
+    });
+
+    it("returns the event bus unsubscribe function", () => {
+      const { stop, unsubscribe } = setup();
+      stop();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+});
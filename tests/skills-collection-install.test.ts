@@ -0,0 +1,170 @@
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/paths.js", () => {
+  const root = join(tmpdir(), "wopr-collection-install-test");
+  return {
+    WOPR_HOME: root,
+    SKILLS_DIR: join(root, "skills"),
+    PROJECT_SKILLS_DIR: join(root, "workspace", ".wopr", "skills"),
+    SKILLS_LOCK_FILE: join(root, "workspace", ".wopr", "skills.lock"),
+    INSTALL_RECORD_FILE: ".wopr-source.json",
+  };
+});
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../src/registry-fetcher.js", () => ({
+  resolveRegistrySkill: vi.fn(),
+}));
+
+vi.mock("../src/skills-repository.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skills-repository.js")>("../src/skills-repository.js");
+  return { ...actual, recordSkillProvenance: vi.fn(), removeSkillState: vi.fn(async () => {}) };
+});
+
+vi.mock("../src/skill-index.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skill-index.js")>("../src/skill-index.js");
+  return { ...actual, invalidateSkillIndex: vi.fn(actual.invalidateSkillIndex) };
+});
+
+vi.mock("../src/skill-source.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skill-source.js")>("../src/skill-source.js");
+  return { ...actual, parseSkillSource: vi.fn() };
+});
+
+import { invalidateSkillIndex } from "../src/skill-index.js";
+import { parseSkillSource } from "../src/skill-source.js";
+import { closeSkillIndex, installSkillCollection, installSkillFromSource, readInstallRecord } from "../src/skills.js";
+import { recordSkillProvenance, removeSkillState } from "../src/skills-repository.js";
+
+describe("collection installs", () => {
+  const root = join(tmpdir(), "wopr-collection-install-test");
+  const skillsDir = join(root, "skills");
+  const repo = join(root, "repo");
+  const url = `file://${repo}`;
+  let commit: string;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync("git", ["-c", "user.email=t@example.com", "-c", "user.name=t", ...args], {
+      cwd,
+      encoding: "utf-8",
+    }).trim();
+
+  const writeSkill = (dir: string, description = "A skill") => {
+    mkdirSync(join(repo, dir), { recursive: true });
+    writeFileSync(join(repo, dir, "SKILL.md"), `---\nname: ${dir.split("/").pop()}\ndescription: ${description}\n---\n`);
+  };
+
+  const collection = (subPath: string | undefined, ref?: string) => {
+    vi.mocked(parseSkillSource).mockReturnValue({
+      source: "https://example.com/acme/skills.git//skills/*",
+      host: "example.com",
+      url,
+      repo: "skills",
+      ...(subPath ? { subPath } : {}),
+      ...(ref ? { ref } : {}),
+      collection: true,
+    });
+  };
+
+  beforeAll(() => {
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(repo, { recursive: true });
+    git(root, "init", "-q", "-b", "main", repo);
+    for (const name of ["pdf", "docx", "xlsx"]) writeSkill(`skills/${name}`);
+    writeSkill("other/slides");
+    writeFileSync(join(repo, "README.md"), "# Skills\n");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "skills");
+    commit = git(repo, "rev-parse", "HEAD");
+
+    git(repo, "checkout", "-qb", "broken");
+    writeSkill("skills/vendor/pdf");
+    mkdirSync(join(repo, "skills", "draft"), { recursive: true });
+    writeFileSync(join(repo, "skills", "draft", "SKILL.md"), "---\nname: draft\n---\n");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "broken");
+    git(repo, "checkout", "-q", "main");
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    closeSkillIndex();
+    rmSync(skillsDir, { recursive: true, force: true });
+    mkdirSync(skillsDir, { recursive: true });
+    collection("skills");
+  });
+
+  afterAll(() => {
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("installs every skill under the path from one checkout", async () => {
+    const skills = await installSkillCollection("https://example.com/acme/skills.git//skills/*", {
+      installedBy: "cli",
+    });
+
+    expect(skills.map((s) => s.name)).toEqual(["docx", "pdf", "xlsx"]);
+    expect(readdirSync(skillsDir).sort()).toEqual([".staging", "docx", "pdf", "xlsx"]);
+    expect(readdirSync(join(skillsDir, ".staging"))).toEqual([]);
+    expect(readInstallRecord(skills[1])).toMatchObject({ source: `${url}//skills/pdf`, url, commit });
+    expect(recordSkillProvenance).toHaveBeenCalledTimes(3);
+    expect(recordSkillProvenance).toHaveBeenCalledWith(
+      "pdf",
+      expect.objectContaining({ installSource: `${url}//skills/pdf`, installCommit: commit, installedBy: "cli" }),
+    );
+  });
+
+  it("installs the subset picked by include and ignore globs", async () => {
+    const skills = await installSkillCollection("https://example.com/acme/skills.git//skills/*", {
+      include: ["*x"],
+      ignore: ["xlsx"],
+    });
+    expect(skills.map((s) => s.name)).toEqual(["docx"]);
+
+    await expect(
+      installSkillCollection("https://example.com/acme/skills.git//skills/*", { include: ["nope*"] }),
+    ).rejects.toThrow("No skills matching the include/ignore patterns under skills");
+  });
+
+  it("reports every collision and invalid skill and installs nothing", async () => {
+    mkdirSync(join(skillsDir, "docx"));
+    collection("skills", "broken");
+
+    await expect(installSkillCollection("https://example.com/acme/skills.git//skills/*@broken")).rejects.toThrow(
+      /^Failed to install skills from example.com: Nothing installed: "docx" is already installed.*Invalid SKILL.md in skills\/draft.*"pdf" is defined more than once \(skills\/pdf, skills\/vendor\/pdf\)/,
+    );
+    expect(readdirSync(skillsDir)).toEqual([".staging", "docx"]);
+    expect(readdirSync(join(skillsDir, ".staging"))).toEqual([]);
+    expect(recordSkillProvenance).not.toHaveBeenCalled();
+  });
+
+  it("rolls back every skill and its state when finishing one fails", async () => {
+    vi.mocked(invalidateSkillIndex)
+      .mockImplementationOnce(() => {})
+      .mockImplementationOnce(() => {
+        throw new Error("index unavailable");
+      });
+
+    await expect(installSkillCollection("https://example.com/acme/skills.git//skills/*")).rejects.toThrow(
+      "Failed to install skills from example.com: index unavailable",
+    );
+    expect(recordSkillProvenance).toHaveBeenCalledWith("docx", expect.any(Object));
+    expect(readdirSync(skillsDir)).toEqual([".staging"]);
+    expect(vi.mocked(removeSkillState).mock.calls.map(([name]) => name)).toEqual(["docx", "pdf", "xlsx"]);
+  });
+
+  it("refuses a collection source passed as a single skill", async () => {
+    await expect(installSkillFromSource("https://example.com/acme/skills.git//skills/*")).rejects.toThrow(
+      "names several skills; install them with --all",
+    );
+    expect(existsSync(join(skillsDir, "skills"))).toBe(false);
+  });
+});
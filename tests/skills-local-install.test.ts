@@ -0,0 +1,380 @@
+import { existsSync, lstatSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/paths.js", () => {
+  const root = join(tmpdir(), "wopr-local-install-test");
+  return {
+    WOPR_HOME: root,
+    SKILLS_DIR: join(root, "skills"),
+    PROJECT_SKILLS_DIR: join(root, "workspace", ".wopr", "skills"),
+    SKILLS_LOCK_FILE: join(root, "workspace", ".wopr", "skills.lock"),
+    INSTALL_RECORD_FILE: ".wopr-source.json",
+  };
+});
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("../src/registry-fetcher.js", () => ({
+  resolveRegistrySkill: vi.fn(),
+}));
+
+vi.mock("../src/skills-repository.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skills-repository.js")>("../src/skills-repository.js");
+  return {
+    ...actual,
+    getSkillState: vi.fn(async () => null),
+    recordSkillProvenance: vi.fn(),
+    removeSkillState: vi.fn(),
+    restoreSkillState: vi.fn(),
+  };
+});
+
+vi.mock("../src/skill-staging.js", async () => {
+  const actual = await vi.importActual<typeof import("../src/skill-staging.js")>("../src/skill-staging.js");
+  return { ...actual, purgeSkillTrash: vi.fn(actual.purgeSkillTrash) };
+});
+
+import { logger } from "../src/logger.js";
+import { resolveRegistrySkill } from "../src/registry-fetcher.js";
+import { packSkillArchive, sha256Hex } from "../src/skill-archive.js";
+import { hashSkillDirectory } from "../src/skill-hash.js";
+import { purgeSkillTrash } from "../src/skill-staging.js";
+import {
+  closeSkillIndex,
+  installSkillFromArchive,
+  installSkillFromPath,
+  installSkillFromSource,
+  installSkillsFromLock,
+  isLinkedSkill,
+  packSkill,
+  readInstallRecord,
+  removeSkill,
+  restoreSkill,
+} from "../src/skills.js";
+import {
+  getSkillState,
+  recordSkillProvenance,
+  removeSkillState,
+  restoreSkillState,
+} from "../src/skills-repository.js";
+
+describe("local directory installs", () => {
+  const root = join(tmpdir(), "wopr-local-install-test");
+  const skillsDir = join(root, "skills");
+  const authorDir = join(root, "author", "pdf");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(join(authorDir, ".git"), { recursive: true });
+    writeFileSync(join(authorDir, "SKILL.md"), "---\nname: pdf\ndescription: Work with PDFs\n---\n# PDF\n");
+    writeFileSync(join(authorDir, ".git", "HEAD"), "ref: refs/heads/main\n");
+  });
+
+  afterAll(() => {
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("copies the directory and records where it came from", async () => {
+    const skill = await installSkillFromSource(`path:${authorDir}`, undefined, { installedBy: "cli" });
+
+    expect(skill).toMatchObject({ name: "pdf", baseDir: join(skillsDir, "pdf"), source: "managed" });
+    expect(isLinkedSkill(skill)).toBe(false);
+    expect(existsSync(join(skillsDir, "pdf", ".git"))).toBe(false);
+    expect(readInstallRecord(skill)).toMatchObject({ source: `path:${authorDir}`, url: authorDir });
+    expect(recordSkillProvenance).toHaveBeenCalledWith(
+      "pdf",
+      expect.objectContaining({ installSource: `path:${authorDir}`, installUrl: authorDir, installedBy: "cli" }),
+    );
+
+    writeFileSync(join(authorDir, "SKILL.md"), "---\nname: pdf\ndescription: Changed\n---\n");
+    expect(readFileSync(join(skillsDir, "pdf", "SKILL.md"), "utf-8")).toContain("Work with PDFs");
+  });
+
+  it("symlinks the directory in link mode", async () => {
+    const skill = await installSkillFromPath(`file://${authorDir}`, "pdf-dev", { link: true });
+
+    expect(lstatSync(join(skillsDir, "pdf-dev")).isSymbolicLink()).toBe(true);
+    expect(isLinkedSkill(skill)).toBe(true);
+    expect(existsSync(join(authorDir, ".wopr-source.json"))).toBe(false);
+
+    await removeSkill("pdf-dev");
+    expect(existsSync(join(skillsDir, "pdf-dev"))).toBe(false);
+    expect(existsSync(join(authorDir, "SKILL.md"))).toBe(true);
+  });
+
+  it("requires a valid SKILL.md", async () => {
+    await expect(installSkillFromPath(`path:${join(root, "nope")}`)).rejects.toThrow("Directory not found");
+
+    rmSync(join(authorDir, "SKILL.md"));
+    await expect(installSkillFromPath(`path:${authorDir}`)).rejects.toThrow("No SKILL.md found");
+
+    writeFileSync(join(authorDir, "SKILL.md"), "---\nname: pdf\n---\n");
+    await expect(installSkillFromPath(`path:${authorDir}`)).rejects.toThrow("Invalid SKILL.md");
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+  });
+
+  it("refuses to overwrite an installed skill", async () => {
+    await installSkillFromPath(`path:${authorDir}`);
+    await expect(installSkillFromPath(`path:${authorDir}`, undefined, { link: true })).rejects.toThrow(
+      'Skill "pdf" already exists',
+    );
+  });
+});
+
+describe("removal and restore", () => {
+  const root = join(tmpdir(), "wopr-local-install-test");
+  const skillsDir = join(root, "skills");
+  const authorDir = join(root, "author", "pdf");
+  const state = { id: "pdf", enabled: false, installed: true, useCount: 4 };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(authorDir, { recursive: true });
+    writeFileSync(join(authorDir, "SKILL.md"), "---\nname: pdf\ndescription: Work with PDFs\n---\n# PDF\n");
+    await installSkillFromPath(`path:${authorDir}`);
+    vi.mocked(getSkillState).mockResolvedValue(state);
+  });
+
+  afterAll(() => {
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("moves the skill to the trash and brings it back with its state", async () => {
+    await removeSkill("pdf");
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+    expect(removeSkillState).toHaveBeenCalledWith("pdf");
+    await expect(removeSkill("pdf")).rejects.toThrow('Skill "pdf" not found');
+
+    const skill = await restoreSkill("pdf");
+    expect(skill.baseDir).toBe(join(skillsDir, "pdf"));
+    expect(readInstallRecord(skill)).toMatchObject({ source: `path:${authorDir}` });
+    expect(restoreSkillState).toHaveBeenCalledWith(state);
+    await expect(restoreSkill("pdf")).rejects.toThrow('Skill "pdf" is not in the trash');
+  });
+
+  it("keeps the skill installed when its state cannot be removed", async () => {
+    vi.mocked(removeSkillState).mockRejectedValueOnce(new Error("storage down"));
+    await expect(removeSkill("pdf")).rejects.toThrow('Failed to remove skill "pdf": storage down');
+    expect(existsSync(join(skillsDir, "pdf", "SKILL.md"))).toBe(true);
+    await expect(restoreSkill("pdf")).rejects.toThrow("is not in the trash");
+  });
+
+  it("leaves the trash alone when the state cannot be restored", async () => {
+    await removeSkill("pdf");
+    vi.mocked(restoreSkillState).mockRejectedValueOnce(new Error("storage down"));
+    await expect(restoreSkill("pdf")).rejects.toThrow("storage down");
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+    expect((await restoreSkill("pdf")).name).toBe("pdf");
+  });
+
+  it("reports a removal as done when purging the trash fails", async () => {
+    vi.mocked(purgeSkillTrash).mockImplementationOnce(() => {
+      throw new Error("EACCES");
+    });
+    await removeSkill("pdf");
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith("Failed to purge the skill trash:", expect.any(Error));
+  });
+
+  it("removes a linked skill whose target is gone", async () => {
+    const notesDir = join(root, "author", "notes");
+    mkdirSync(notesDir, { recursive: true });
+    writeFileSync(join(notesDir, "SKILL.md"), "---\nname: notes\ndescription: Take notes\n---\n");
+    await installSkillFromPath(`path:${notesDir}`, undefined, { link: true });
+    rmSync(notesDir, { recursive: true, force: true });
+
+    await removeSkill("notes");
+    expect(() => lstatSync(join(skillsDir, "notes"))).toThrow();
+  });
+
+  it("refuses names outside the skills directory", async () => {
+    await expect(removeSkill("../author")).rejects.toThrow('Skill "../author" not found');
+    expect(existsSync(authorDir)).toBe(true);
+  });
+});
+
+describe("archive installs", () => {
+  const root = join(tmpdir(), "wopr-local-install-test");
+  const skillsDir = join(root, "skills");
+  const authorDir = join(root, "author", "pdf");
+  const archivePath = join(root, "pdf-1.0.0.tar.gz");
+  let archive: Buffer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(authorDir, { recursive: true });
+    writeFileSync(join(authorDir, "SKILL.md"), "---\nname: pdf\ndescription: Work with PDFs\n---\n# PDF\n");
+    archive = packSkillArchive(authorDir, "pdf");
+    writeFileSync(archivePath, archive);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  afterAll(() => {
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("installs a local archive after verifying its checksum", async () => {
+    const source = `path:${archivePath}#sha256=${sha256Hex(archive)}`;
+    const skill = await installSkillFromSource(source, undefined, { installedBy: "cli" });
+
+    expect(skill).toMatchObject({ name: "pdf", baseDir: join(skillsDir, "pdf") });
+    expect(readInstallRecord(skill)).toMatchObject({ source, url: archivePath, sha256: sha256Hex(archive) });
+    expect(recordSkillProvenance).toHaveBeenCalledWith(
+      "pdf",
+      expect.objectContaining({ installSource: source, installUrl: archivePath, installedBy: "cli" }),
+    );
+  });
+
+  it("refuses an archive whose checksum does not match", async () => {
+    await expect(
+      installSkillFromArchive(`path:${archivePath}`, "pdf", { sha256: "0".repeat(64) }),
+    ).rejects.toThrow(`Checksum mismatch (expected sha256 ${"0".repeat(64)}, got ${sha256Hex(archive)})`);
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+  });
+
+  it("downloads HTTPS archives", async () => {
+    const fetchMock = vi.fn(async () => new Response(new Uint8Array(archive)));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const skill = await installSkillFromArchive("https://example.com/dist/pdf.skill", "pdf-remote");
+    expect(fetchMock).toHaveBeenCalledWith("https://example.com/dist/pdf.skill", { signal: undefined });
+    expect(skill.baseDir).toBe(join(skillsDir, "pdf-remote"));
+
+    fetchMock.mockResolvedValueOnce(new Response("gone", { status: 404, statusText: "Not Found" }));
+    await expect(installSkillFromArchive("https://example.com/dist/pdf.skill", "x")).rejects.toThrow(
+      "Failed to install skill from https://example.com/dist/pdf.skill: Download failed: 404 Not Found",
+    );
+  });
+
+  it("refuses archives without a skill and names that are taken", async () => {
+    writeFileSync(join(root, "empty.zip"), Buffer.from([0x50, 0x4b, 0x05, 0x06, ...new Array(18).fill(0)]));
+    await expect(installSkillFromArchive(`path:${join(root, "empty.zip")}`)).rejects.toThrow(
+      "No SKILL.md at the archive root or in a single top-level folder",
+    );
+
+    await installSkillFromArchive(`path:${archivePath}`);
+    await expect(installSkillFromArchive(`path:${archivePath}`)).rejects.toThrow('Skill "pdf" already exists');
+  });
+
+  it("installs locked archives in a frozen install", async () => {
+    const lockPath = join(root, "skills.lock");
+    const contentHash = hashSkillDirectory(authorDir);
+    writeFileSync(
+      lockPath,
+      JSON.stringify({ lockfileVersion: 1, skills: { pdf: { source: `path:${archivePath}`, contentHash } } }),
+    );
+
+    expect(await installSkillsFromLock({ lockPath })).toEqual({ installed: ["pdf"], unchanged: [] });
+    expect(hashSkillDirectory(join(skillsDir, "pdf"))).toBe(contentHash);
+  });
+
+  it("refuses a locked archive whose content differs before installing it", async () => {
+    const lockPath = join(root, "skills.lock");
+    writeFileSync(
+      lockPath,
+      JSON.stringify({
+        lockfileVersion: 1,
+        skills: { pdf: { source: `path:${archivePath}`, contentHash: "sha256:other" } },
+      }),
+    );
+
+    await expect(installSkillsFromLock({ lockPath })).rejects.toThrow(
+      /content hash sha256:[0-9a-f]+ does not match the expected sha256:other/,
+    );
+    expect(existsSync(join(skillsDir, "pdf"))).toBe(false);
+    expect(recordSkillProvenance).not.toHaveBeenCalled();
+  });
+
+  it("packs an installed skill into an installable archive", async () => {
+    await installSkillFromPath(`path:${authorDir}`);
+    const out = join(root, "packed.tar.gz");
+
+    const { path, sha256 } = packSkill("pdf", out);
+    expect(path).toBe(out);
+    expect(sha256).toBe(sha256Hex(readFileSync(out)));
+
+    await removeSkill("pdf");
+    const skill = await installSkillFromArchive(`file://${out}#sha256=${sha256}`);
+    expect(skill.name).toBe("pdf");
+    expect(() => packSkill("missing")).toThrow('Skill "missing" not found');
+  });
+});
+
+describe("registry installs", () => {
+  const root = join(tmpdir(), "wopr-local-install-test");
+  const skillsDir = join(root, "skills");
+  const authorDir = join(root, "author", "pdf-source");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+    mkdirSync(authorDir, { recursive: true });
+    writeFileSync(join(authorDir, "SKILL.md"), "---\nname: pdf\ndescription: Work with PDFs\n---\n# PDF\n");
+  });
+
+  afterAll(() => {
+    closeSkillIndex();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("installs the resolved entry under its registry name and records the version", async () => {
+    vi.mocked(resolveRegistrySkill).mockResolvedValue({
+      name: "pdf",
+      description: "Work with PDFs",
+      source: `path:${authorDir}`,
+      version: "1.2.0",
+      registry: "official",
+    });
+
+    const skill = await installSkillFromSource("official/pdf@1.2.0", undefined, { installedBy: "cli" });
+
+    expect(resolveRegistrySkill).toHaveBeenCalledWith({
+      source: "official/pdf@1.2.0",
+      name: "pdf",
+      registry: "official",
+      version: "1.2.0",
+    });
+    expect(skill.baseDir).toBe(join(skillsDir, "pdf"));
+    expect(recordSkillProvenance).toHaveBeenCalledWith(
+      "pdf",
+      expect.objectContaining({
+        installSource: `path:${authorDir}`,
+        installRegistry: "official",
+        installVersion: "1.2.0",
+        installedBy: "cli",
+      }),
+    );
+  });
+
+  it("passes resolution errors through and refuses entries without a source", async () => {
+    vi.mocked(resolveRegistrySkill).mockRejectedValueOnce(
+      new Error('Skill "pdf" is in several registries (a, b); install it as <registry>/pdf'),
+    );
+    await expect(installSkillFromSource("pdf")).rejects.toThrow("is in several registries (a, b)");
+
+    vi.mocked(resolveRegistrySkill).mockResolvedValueOnce({
+      name: "pdf",
+      description: "",
+      source: "pdf",
+      registry: "official",
+    });
+    await expect(installSkillFromSource("pdf")).rejects.toThrow('Registry entry for "pdf" has no installable source');
+  });
+});
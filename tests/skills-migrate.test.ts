@@ -10,6 +10,7 @@ vi.mock("../src/paths.js", () => ({
   SKILLS_DIR: join(testDir, "skills"),
   PROJECT_SKILLS_DIR: join(testDir, ".wopr", "skills"),
   REGISTRIES_FILE: join(testDir, "registries.json"),
+  INSTALL_RECORD_FILE: ".wopr-source.json",
 }));
 
 vi.mock("../src/logger.js", () => ({
@@ -24,9 +25,18 @@ vi.mock("../src/skills-repository.js", () => ({
   getPluginContext: vi.fn(),
   initSkillsStorage: vi.fn(),
   setPluginContext: vi.fn(),
+  getAllSkillStates: vi.fn(async () => ({})),
+  recordSkillProvenance: vi.fn(),
+}));
+
+vi.mock("../src/skills.js", () => ({
+  discoverSkills: vi.fn(() => ({ skills: [], warnings: [] })),
+  readInstallRecord: vi.fn(() => null),
 }));
 
 const { addRegistry } = await import("../src/registries-repository.js");
+const { discoverSkills, readInstallRecord } = await import("../src/skills.js");
+const { getAllSkillStates, recordSkillProvenance } = await import("../src/skills-repository.js");
 
 describe("migrateRegistriesToSQL", () => {
   beforeEach(() => {
@@ -76,3 +86,48 @@ describe("migrateRegistriesToSQL", () => {
     expect(existsSync(join(testDir, "registries.json.backup"))).toBe(true);
   });
 });
+
+describe("migrateInstallProvenance", () => {
+  const skillDir = join(testDir, "skills", "pdf");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mkdirSync(skillDir, { recursive: true });
+    writeFileSync(join(skillDir, "SKILL.md"), "---\nname: pdf\n---\n");
+    vi.mocked(discoverSkills).mockReturnValue({
+      skills: [{ name: "pdf", description: "", path: join(skillDir, "SKILL.md"), baseDir: skillDir, source: "managed" }],
+      warnings: [],
+    });
+    vi.mocked(readInstallRecord).mockReturnValue({
+      source: "github:o/r/pdf",
+      url: "https://github.com/o/r.git",
+      commit: "abc123",
+      installedAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("backfills provenance from install records", async () => {
+    const { migrateInstallProvenance } = await import("../src/skills-migrate.js");
+    await migrateInstallProvenance();
+    expect(recordSkillProvenance).toHaveBeenCalledWith("pdf", {
+      installSource: "github:o/r/pdf",
+      installUrl: "https://github.com/o/r.git",
+      installCommit: "abc123",
+      contentHash: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+      installedAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("skips skills that already have provenance", async () => {
+    vi.mocked(getAllSkillStates).mockResolvedValueOnce({
+      pdf: { enabled: true, useCount: 0, provenance: { installSource: "github:o/r/pdf" } },
+    });
+    const { migrateInstallProvenance } = await import("../src/skills-migrate.js");
+    await migrateInstallProvenance();
+    expect(recordSkillProvenance).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/logger.js", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const { buildBudgetedSkillsPrompt, rankSkills, shortenDescription } = await import("../src/skills-prompt.js");
+const { resolveSkillsConfig } = await import("../src/config.js");
+const { resolveSkillsRenderer } = await import("../src/skill-renderers.js");
+
+type Skill = import("../src/skills.js").Skill;
+
+function skill(name: string, source = "managed", description = `${name} description`): Skill {
+  return { name, description, path: `/skills/${name}/SKILL.md`, baseDir: `/skills/${name}`, source };
+}
+
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe("skills-prompt", () => {
+  describe("rankSkills", () => {
+    it("puts pinned skills first in pinned order", () => {
+      const ranked = rankSkills([skill("a"), skill("b"), skill("c")], {}, ["c", "b"], NOW);
+      expect(ranked.map((s) => s.name)).toEqual(["c", "b", "a"]);
+    });
+
+    it("prefers recently and frequently used skills", () => {
+      const states = {
+        old: { enabled: true, useCount: 10, lastUsedAt: daysAgo(120) },
+        recent: { enabled: true, useCount: 3, lastUsedAt: daysAgo(1) },
+      };
+      const ranked = rankSkills([skill("unused"), skill("old"), skill("recent")], states, [], NOW);
+      expect(ranked.map((s) => s.name)).toEqual(["recent", "old", "unused"]);
+    });
+
+    it("falls back to source precedence", () => {
+      const ranked = rankSkills([skill("x", "extra"), skill("m", "managed"), skill("w", "workspace")], {}, [], NOW);
+      expect(ranked.map((s) => s.name)).toEqual(["w", "m", "x"]);
+    });
+  });
+
+  describe("shortenDescription", () => {
+    it("leaves short text alone", () => {
+      expect(shortenDescription("short", 10)).toBe("short");
+    });
+
+    it("cuts at a word boundary and adds an ellipsis", () => {
+      const result = shortenDescription("one two three four five six", 15);
+      expect(result).toBe("one two three…");
+      expect(result.length).toBeLessThanOrEqual(15);
+    });
+  });
+
+  describe("buildBudgetedSkillsPrompt", () => {
+    const skills = Array.from({ length: 20 }, (_, i) => skill(`skill-${i}`));
+    const xml = resolveSkillsRenderer("xml");
+
+    it("includes everything when no budget is set", () => {
+      const result = buildBudgetedSkillsPrompt(skills, {}, resolveSkillsConfig({}), xml);
+      expect(result.omittedCount).toBe(0);
+      expect(result.included).toHaveLength(20);
+      expect(result.content).not.toContain("more skills available");
+    });
+
+    it("trims to the character budget and adds a footer", () => {
+      const result = buildBudgetedSkillsPrompt(skills, {}, resolveSkillsConfig({ promptMaxChars: 1200 }), xml);
+      expect(result.content.length).toBeLessThanOrEqual(1200);
+      expect(result.omittedCount).toBeGreaterThan(0);
+      expect(result.included.length + result.omittedCount).toBe(20);
+      expect(result.content).toContain(`${result.omittedCount} more skills available via skills.list`);
+    });
+
+    it("counts skills left out by the caller in the footer", () => {
+      const result = buildBudgetedSkillsPrompt(skills.slice(0, 2), {}, resolveSkillsConfig({}), xml, 5);
+      expect(result.omittedCount).toBe(5);
+      expect(result.content).toContain("5 more skills available via skills.list");
+    });
+
+    it("keeps pinned skills when trimming", () => {
+      const result = buildBudgetedSkillsPrompt(
+        skills,
+        {},
+        resolveSkillsConfig({ promptMaxTokens: 100, pinnedSkills: ["skill-19"] }),
+        xml,
+      );
+      expect(result.included[0].name).toBe("skill-19");
+    });
+
+    it("renders with the renderer it is given", () => {
+      const render = vi.fn((list: Skill[]) => "x".repeat(list.length * 100));
+      const result = buildBudgetedSkillsPrompt(skills, {}, resolveSkillsConfig({ promptMaxChars: 1000 }), {
+        name: "plain",
+        render,
+      });
+      expect(result.included).toHaveLength(10);
+      expect(render.mock.calls.length).toBeGreaterThan(2);
+    });
+
+    it("shortens long descriptions", () => {
+      const result = buildBudgetedSkillsPrompt(
+        [skill("long", "managed", "word ".repeat(100))],
+        {},
+        resolveSkillsConfig({ promptMaxDescriptionChars: 40 }),
+        xml,
+      );
+      expect(result.included[0].description.length).toBeLessThanOrEqual(40);
+    });
+  });
+
+  describe("resolveSkillsConfig", () => {
+    it("uses the smaller of the character and token budgets", () => {
+      expect(resolveSkillsConfig({ promptMaxChars: 1000, promptMaxTokens: 100 }).promptMaxChars).toBe(400);
+      expect(resolveSkillsConfig({ promptMaxTokens: 500 }).promptMaxChars).toBe(2000);
+    });
+
+    it("ignores invalid values", () => {
+      const config = resolveSkillsConfig({ promptMaxChars: -5, pinnedSkills: ["a", 3] });
+      expect(config.promptMaxChars).toBeUndefined();
+      expect(config.pinnedSkills).toEqual(["a"]);
+    });
+
+    it("resolves prompt format settings", () => {
+      expect(resolveSkillsConfig({}).promptFormat).toBe("xml");
+      const config = resolveSkillsConfig({
+        promptFormat: "json",
+        promptTrailer: "  Use {{skillCount}} skills.  ",
+        sessionPromptFormats: [{ session: "s1", format: "markdown" }, { session: "", format: "json" }],
+      });
+      expect(config).toMatchObject({
+        promptFormat: "json",
+        promptTrailer: "Use {{skillCount}} skills.",
+        sessionPromptFormats: { s1: "markdown" },
+      });
+    });
+
+    it("defaults to listing all skills", () => {
+      expect(resolveSkillsConfig({})).toMatchObject({ skillSelection: "all", relevanceTopK: 8 });
+      expect(resolveSkillsConfig({ skillSelection: "bogus" })).toMatchObject({ skillSelection: "all" });
+      expect(resolveSkillsConfig({ skillSelection: "relevance", relevanceTopK: 3 })).toMatchObject({
+        skillSelection: "relevance",
+        relevanceTopK: 3,
+      });
+    });
+
+    it("resolves install settings", () => {
+      expect(resolveSkillsConfig({})).toMatchObject({ installTimeoutSeconds: 600, allowedSourceHosts: [] });
+      expect(
+        resolveSkillsConfig({ installTimeoutSeconds: 30, allowedSourceHosts: [" git.example.com ", "", 5] }),
+      ).toMatchObject({ installTimeoutSeconds: 30, allowedSourceHosts: ["git.example.com"] });
+    });
+
+    it("resolves usage retention windows", () => {
+      expect(resolveSkillsConfig({})).toMatchObject({ usageEventRetentionDays: 30, usageRollupRetentionDays: 365 });
+      expect(resolveSkillsConfig({ usageEventRetentionDays: 7, usageRollupRetentionDays: -1 })).toMatchObject({
+        usageEventRetentionDays: 7,
+        usageRollupRetentionDays: 365,
+      });
+    });
+  });
+});
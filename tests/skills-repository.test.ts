@@ -1,7 +1,14 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
 
 // Import with dynamic import to get fresh module
-const { setPluginContext, resetSkillsStorageInit, initSkillsStorage } = await import("../src/skills-repository.js");
+const {
+  setPluginContext,
+  resetSkillsStorageInit,
+  initSkillsStorage,
+  recordSkillProvenance,
+  getAllSkillStates,
+  restoreSkillState,
+} = await import("../src/skills-repository.js");
 const { skillsPluginSchema } = await import("../src/skills-schema.js");
 
 describe("skills-repository", () => {
@@ -61,4 +68,55 @@ describe("skills-repository", () => {
       expect(mockCtx.storage.register).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe("install provenance", () => {
+    const provenance = {
+      installSource: "github:o/r/pdf@v1",
+      installUrl: "https://github.com/o/r.git",
+      installCommit: "abc123",
+      contentHash: "sha256:ff",
+      installedAt: "2026-06-01T00:00:00.000Z",
+      installedBy: "cli",
+    };
+
+    it("inserts state for a newly installed skill", async () => {
+      setPluginContext(mockCtx);
+      mockFindFirst.mockResolvedValue(null);
+      await recordSkillProvenance("pdf", provenance);
+      expect(mockInsert).toHaveBeenCalledWith({ id: "pdf", enabled: true, installed: true, useCount: 0, ...provenance });
+    });
+
+    it("keeps enabled state and usage when updating", async () => {
+      setPluginContext(mockCtx);
+      mockFindFirst.mockResolvedValue({ id: "pdf", enabled: false, installed: true, useCount: 4 });
+      await recordSkillProvenance("pdf", provenance);
+      expect(mockUpdate).toHaveBeenCalledWith("pdf", { ...provenance, installed: true });
+    });
+
+    it("reports provenance in the state summary only for installed skills", async () => {
+      setPluginContext(mockCtx);
+      mockFindMany.mockResolvedValue([
+        { id: "pdf", enabled: true, installed: true, useCount: 0, ...provenance },
+        { id: "local", enabled: true, installed: true, useCount: 0 },
+      ]);
+      const states = await getAllSkillStates();
+      expect(states.pdf.provenance).toEqual({ ...provenance, installRegistry: undefined });
+      expect(states.local.provenance).toBeUndefined();
+    });
+  });
+
+  describe("restoreSkillState", () => {
+    const record = { id: "pdf", enabled: false, installed: true, useCount: 4, approvedHash: "sha256:aa" };
+
+    it("inserts the saved record, or overwrites state created since", async () => {
+      setPluginContext(mockCtx);
+      mockFindFirst.mockResolvedValueOnce(null);
+      await restoreSkillState(record);
+      expect(mockInsert).toHaveBeenCalledWith(record);
+
+      mockFindFirst.mockResolvedValueOnce({ id: "pdf", enabled: true, installed: true, useCount: 0 });
+      await restoreSkillState(record);
+      expect(mockUpdate).toHaveBeenCalledWith("pdf", record);
+    });
+  });
 });
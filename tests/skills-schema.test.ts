@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { skillStateSchema } from "../src/skills-schema.js";
+import { skillStateSchema, skillUsageEventSchema } from "../src/skills-schema.js";
 
 // Import the real schema directly (not through a mock)
 // We test the Zod schema validation here, and the plugin schema structure.
@@ -38,13 +38,38 @@ describe("skills-schema", () => {
     });
   });
 
+  describe("skillUsageEventSchema", () => {
+    it("validates a usage event", () => {
+      const event = {
+        id: "e1",
+        skill: "pdf",
+        timestamp: "2026-01-01T00:00:00.000Z",
+        session: "main",
+        kind: "slash_command",
+        outcome: "error",
+        error: "boom",
+      };
+      expect(skillUsageEventSchema.safeParse(event).success).toBe(true);
+    });
+
+    it("rejects unknown invocation kinds", () => {
+      const event = { id: "e1", skill: "pdf", timestamp: "t", kind: "magic", outcome: "success" };
+      expect(skillUsageEventSchema.safeParse(event).success).toBe(false);
+    });
+  });
+
   describe("skillsPluginSchema", () => {
     it("has correct namespace", () => {
       expect(skillsPluginSchema.namespace).toBe("skills");
     });
 
-    it("has version 2", () => {
-      expect(skillsPluginSchema.version).toBe(2);
+    it("has version 6", () => {
+      expect(skillsPluginSchema.version).toBe(6);
+    });
+
+    it("defines usage event and daily rollup tables", () => {
+      expect(skillsPluginSchema.tables.skill_usage_events.primaryKey).toBe("id");
+      expect(skillsPluginSchema.tables.skill_usage_daily.primaryKey).toBe("id");
     });
 
     it("defines skills_state table", () => {